@@ -0,0 +1,16 @@
+#!/bin/bash
+
+# Export the scoring cases of the Move tests to frontend/utils/scoringCases.json
+# The frontend's scoring tests load them to check they score rounds like the contract, run this after changing the
+# scoring rules or the cases in tests/pictionary_tests.move
+
+set -e
+cd "$(dirname "$0")"
+
+# test_scoring_cases prints the cases as a JSON string: [debug] "[{\"name\":...}]"
+aptos move test --dev --filter test_scoring_cases \
+    | sed -n 's/^\[debug\] "\(.*\)"$/\1/p' \
+    | sed 's/\\"/"/g' \
+    | jq . > ../frontend/utils/scoringCases.json
+
+echo "✅ Exported $(jq length ../frontend/utils/scoringCases.json) scoring cases"
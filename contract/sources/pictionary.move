@@ -1,11 +1,13 @@
 /// Pictionary game implementation on Aptos blockchain
 /// 
 /// This module implements a multiplayer pictionary game where:
-/// - Two teams compete with at least 2 players each
+/// - Two to six teams compete with at least 2 players each
 /// - Artists rotate and draw words while teammates guess
+/// - Or, in free-for-all games, players take turns drawing while everyone else guesses for themselves
 /// - Canvas updates are stored on-chain with delta compression
 /// - Games are played to a target score with timed rounds
 module pictionary::pictionary {
+    use std::hash;
     use std::option::{Self, Option};
     use std::signer;
     use std::string::{Self, String};
@@ -15,6 +17,8 @@ module pictionary::pictionary {
     use aptos_framework::randomness;
     use aptos_framework::ordered_map::{Self, OrderedMap};
     use aptos_framework::timestamp;
+    use aptos_std::math64;
+    use aptos_std::string_utils;
 
     // Error codes
     /// Game not found
@@ -27,7 +31,7 @@ module pictionary::pictionary {
     const EGAME_ALREADY_STARTED: u64 = 3;
     /// Game not started yet
     const EGAME_NOT_STARTED: u64 = 4;
-    /// Invalid team - must be 0 or 1
+    /// Invalid team - not one of the game's teams
     const EINVALID_TEAM: u64 = 5;
     /// Team needs at least 2 players
     const ETEAM_TOO_SMALL: u64 = 6;
@@ -43,38 +47,116 @@ module pictionary::pictionary {
     const EGAME_FINISHED: u64 = 11;
     /// Round time expired
     const EROUND_TIME_EXPIRED: u64 = 12;
-
-    /// Color palette available for drawing on the canvas
-    /// Each variant represents a different color that artists can use
-    enum Color has store, copy, drop {
-        Black,
-        White,
-        Red,
-        Green,
-        Blue,
-        Yellow,
-        Orange,
-        Purple,
-        Pink,
-        Brown,
-        Gray,
-    }
-
-    /// Represents a single pixel change on the canvas for efficient delta updates
-    /// Used to minimize on-chain storage by only storing changes rather than full canvas
+    /// Color index outside the game's palette
+    const EINVALID_COLOR: u64 = 14;
+    /// Custom palette is too large or contains a value that isn't a 0xRRGGBB color
+    const EINVALID_PALETTE: u64 = 15;
+    /// Game doesn't let players join teams themselves
+    const EENROLLMENT_CLOSED: u64 = 16;
+    /// Creator locked the teams - players can't join or switch teams anymore
+    const ETEAMS_LOCKED: u64 = 17;
+    /// Team already has the most players allowed
+    const ETEAM_FULL: u64 = 18;
+    /// Close guess distance is larger than MAX_CLOSE_GUESS_DISTANCE
+    const EINVALID_CLOSE_GUESS_DISTANCE: u64 = 19;
+    /// Custom word list is too small or too large, or contains an empty or overly long word
+    const EINVALID_WORD_LIST: u64 = 20;
+    /// Word difficulty isn't easy, medium or hard, or there's a different number of difficulties than words
+    const EINVALID_DIFFICULTY: u64 = 21;
+    /// Artist hasn't chosen the round's word yet - nothing to draw or guess
+    const EWORD_NOT_CHOSEN: u64 = 22;
+    /// Round's word was already chosen
+    const EWORD_ALREADY_CHOSEN: u64 = 23;
+    /// Chosen word isn't one of the round's candidate words
+    const EINVALID_WORD_CHOICE: u64 = 24;
+    /// Scoring mode isn't classic or time bonus
+    const EINVALID_SCORING_MODE: u64 = 25;
+    /// Game needs between MIN_TEAMS and MAX_TEAMS teams, with players and a name for each
+    const EINVALID_TEAM_COUNT: u64 = 26;
+    /// Player isn't on any of the game's teams
+    const ENOT_A_PLAYER: u64 = 27;
+    /// Free-for-all game needs at least 2 players
+    const ENOT_ENOUGH_PLAYERS: u64 = 28;
+    /// Canvas deltas were submitted for a different position in the canvas log than the next free one
+    const ECANVAS_SEQUENCE_MISMATCH: u64 = 29;
+
+    /// Number of colors in the default palette, used when a game has no custom palette
+    /// Must match DEFAULT_PALETTE in frontend/utils/palette.ts
+    const DEFAULT_PALETTE_SIZE: u64 = 32;
+    /// Most colors a custom palette can have, color indices are stored as u8
+    const MAX_PALETTE_SIZE: u64 = 256;
+    /// Row stride of a point word of the stroke encoding (y * POINT_STRIDE + x)
+    /// Must match POINT_STRIDE in frontend/utils/strokes.ts
+    const POINT_STRIDE: u32 = 0x10000;
+    /// Marks a control word instead of a stroke header
+    /// Must match CONTROL_FLAG in frontend/utils/strokes.ts
+    const CONTROL_FLAG: u32 = 0x8000;
+    /// Fewest players a team needs to start, one to draw and one to guess
+    /// Must match MIN_TEAM_SIZE in frontend/utils/teams.ts
+    const MIN_TEAM_SIZE: u64 = 2;
+    /// Most players a team can have in games players join themselves
+    /// Must match MAX_TEAM_SIZE in frontend/utils/teams.ts
+    const MAX_TEAM_SIZE: u64 = 16;
+    /// Fewest and most teams a game can have
+    /// Must match MIN_TEAMS and MAX_TEAMS in frontend/utils/teams.ts
+    const MIN_TEAMS: u64 = 2;
+    const MAX_TEAMS: u64 = 6;
+    /// Fewest players a free-for-all game can have, one to draw and one to guess
+    /// Must match MIN_FREE_FOR_ALL_PLAYERS in frontend/utils/teams.ts
+    const MIN_FREE_FOR_ALL_PLAYERS: u64 = 2;
+    /// Edit distance within which wrong guesses count as close, unless the creator picks another one
+    const DEFAULT_CLOSE_GUESS_DISTANCE: u64 = 1;
+    /// Largest close guess distance a game can use, larger ones would give the word away
+    const MAX_CLOSE_GUESS_DISTANCE: u64 = 3;
+    /// Fewest and most words a game's custom word list can have
+    /// Must match MIN_WORD_LIST_SIZE and MAX_WORD_LIST_SIZE in frontend/utils/wordPacks.ts
+    const MIN_WORD_LIST_SIZE: u64 = 5;
+    const MAX_WORD_LIST_SIZE: u64 = 200;
+    /// Longest word a custom word list can have, in bytes
+    const MAX_WORD_LENGTH: u64 = 32;
+    /// Word difficulties, points for guessing a word are multiplied by its difficulty plus one
+    /// Must match WORD_DIFFICULTIES in frontend/utils/wordPacks.ts
+    const DIFFICULTY_EASY: u8 = 0;
+    const DIFFICULTY_MEDIUM: u8 = 1;
+    const DIFFICULTY_HARD: u8 = 2;
+    /// Number of words artists choose from in games where they choose their words
+    const WORD_CHOICE_CANDIDATES: u64 = 3;
+    /// Length of the random salt each round's word is hashed with, so the hash of a word differs from round to round
+    const WORD_SALT_LENGTH: u64 = 32;
+    #[test_only]
+    /// Salt of the rounds the test helpers start
+    const TEST_WORD_SALT: vector<u8> = b"test salt";
+    /// Scoring modes, classic scoring only counts who guessed first, time bonus also rewards guessing fast
+    /// Must match SCORING_MODES in frontend/utils/scoring.ts
+    const SCORING_CLASSIC: u8 = 0;
+    const SCORING_TIME_BONUS: u8 = 1;
+    /// Points for the first team to guess the word and for every team that guesses it after them
+    /// Must match CLASSIC_RULES in frontend/utils/scoring.ts
+    const FIRST_GUESS_POINTS: u64 = 2;
+    const LATER_GUESS_POINTS: u64 = 1;
+    /// Bonus points for guessing right when the round starts in time bonus games, decaying to 0 by the end of the round
+    /// Must match SPEED_BONUS_POINTS in frontend/utils/scoring.ts
+    const SPEED_BONUS_POINTS: u64 = 3;
+
+    /// A single framed word of stroke data submitted by the artist
+    /// The framing (stroke headers and points) is defined by the frontend, see frontend/utils/strokes.ts
     struct CanvasDelta has store, copy, drop {
-        /// Linear position on canvas (y * width + x)
-        position: u16,
-        /// Color to set at this position
-        color: Color,
+        /// Stroke header or point word (points address canvas pixels at full resolution)
+        position: u32,
+        /// Index into the game's palette of the stroke this word belongs to
+        color: u8,
+        /// Brush size in canvas pixels of the stroke this word belongs to
+        brush_size: u8,
     }
 
     /// Canvas representing the drawing area for each team in each round
-    /// Stores pixel data efficiently using ordered map for consistent iteration
+    /// Stores the drawing as an append-only log so stroke framing survives the round trip
     struct Canvas has store {
-        /// Pixel data stored as position -> color mapping
-        /// Only stores non-default (non-white) pixels for efficiency
-        pixels: OrderedMap<u16, Color>,
+        /// Delta log stored as sequence -> delta mapping
+        /// Sequence numbers are assigned in submission order
+        deltas: OrderedMap<u32, CanvasDelta>,
+        /// Sequence number to assign to the next submitted delta
+        next_sequence: u32,
         /// Canvas width in pixels
         width: u16,
         /// Canvas height in pixels  
@@ -83,29 +165,52 @@ module pictionary::pictionary {
         last_updated: u64,
     }
 
+    /// A word the artist can choose to draw, along with its difficulty
+    /// Kept as a hash with the round's salt like the round's word, see Round
+    struct WordCandidate has store, copy, drop {
+        word_hash: vector<u8>,
+        difficulty: u8,
+    }
+
+    /// A team of players, one of them draws each round while the others guess
+    struct Team has store, copy, drop {
+        /// Name shown in the game
+        name: String,
+        /// Addresses of the team's players (at least 2 once the game starts)
+        players: vector<address>,
+        /// Index of the current artist in players
+        current_artist: u64,
+    }
+
     /// Contains all information for a single round of the game
     /// Each round has its own word, timer, and canvas for each team
     struct Round has store {
         /// Sequential round number starting from 0
         round_number: u64,
-        /// The word both teams are trying to draw/guess
+        /// SHA3-256 hash of the word all teams are trying to draw/guess followed by the salt, guesses are checked against it
+        /// Empty until the artist picks the word in games where artists choose their words
+        word_hash: vector<u8>,
+        /// Random salt drawn for the round, see word_hash
+        salt: vector<u8>,
+        /// The word, empty until finish_round looks it up in the game's word list by its hash
+        /// The word list and salt are public on chain like the rest of the game, so this keeps the word out of view
+        /// functions and events rather than secret: hashing every word of the list with the salt finds it
         word: String,
-        /// Unix timestamp when round started
+        /// Difficulty of the word, scales the points earned for guessing it
+        difficulty: u8,
+        /// Words the artist chooses from, kept out of view like the word and cleared once one is chosen
+        word_candidates: vector<WordCandidate>,
+        /// Unix timestamp when round started, or when the artist chose the word
         start_time: u64,
         /// How long the round lasts in seconds
         duration_seconds: u64,
-        /// Team 0's drawing canvas for this round
-        team0_canvas: Canvas,
-        /// Team 1's drawing canvas for this round
-        team1_canvas: Canvas,
-        /// Whether team 0 has guessed correctly
-        team0_guessed: bool,
-        /// Whether team 1 has guessed correctly
-        team1_guessed: bool,
-        /// Timestamp when team 0 guessed (if they did)
-        team0_guess_time: Option<u64>,
-        /// Timestamp when team 1 guessed (if they did)
-        team1_guess_time: Option<u64>,
+        /// Each team's drawing canvas for this round, in team order
+        canvases: vector<Canvas>,
+        /// Timestamp when each team guessed correctly, none for teams that haven't
+        /// Kept per player instead in free-for-all games
+        guess_times: vector<Option<u64>>,
+        /// Index of the player drawing in free-for-all games, who doesn't guess, none in team games
+        artist: Option<u64>,
         /// Whether this round has been processed for scoring
         processed: bool,
     }
@@ -115,18 +220,9 @@ module pictionary::pictionary {
     struct Game has key {
         /// Address of the player who created this game
         creator: address,
-        /// List of addresses on team 0 (must have at least 2 players)
-        team0_players: vector<address>,
-        /// List of addresses on team 1 (must have at least 2 players)
-        team1_players: vector<address>,
-        /// Name of team 0
-        team0_name: String,
-        /// Name of team 1
-        team1_name: String,
-        /// Index of current artist in team0_players vector
-        current_team0_artist: u64,
-        /// Index of current artist in team1_players vector
-        current_team1_artist: u64,
+        /// Competing teams, between MIN_TEAMS and MAX_TEAMS
+        /// Free-for-all games have a single team of all players, whose artist draws for everyone else
+        teams: vector<Team>,
         /// Score needed to win the game
         target_score: u64,
         /// History of all rounds played
@@ -135,7 +231,7 @@ module pictionary::pictionary {
         started: bool,
         /// Whether the game has finished (someone reached target score)
         finished: bool,
-        /// Which team won (0 or 1), none if game not finished
+        /// Which team (or player in free-for-all games) won, none if game not finished
         winner: Option<u64>,
         /// Width of canvas in pixels for all rounds
         canvas_width: u16,
@@ -143,6 +239,24 @@ module pictionary::pictionary {
         canvas_height: u16,
         /// Duration of each round in seconds
         round_duration: u64,
+        /// Custom palette as 0xRRGGBB colors, empty to use the default palette
+        palette: vector<u32>,
+        /// Whether players join teams themselves (e.g. from an invite link) before the game starts
+        open_enrollment: bool,
+        /// Whether the creator locked the teams, players can't join or switch teams while locked
+        teams_locked: bool,
+        /// Wrong guesses within this edit distance of the word are flagged as close, 0 disables close guesses
+        close_guess_distance: u64,
+        /// Custom word list the game's words are drawn from, empty to use the global word list
+        words: vector<String>,
+        /// Difficulty of each word of the custom word list
+        word_difficulties: vector<u8>,
+        /// Whether artists choose the round's word from a few candidates instead of getting a random one
+        word_choice: bool,
+        /// How rounds are scored, SCORING_CLASSIC or SCORING_TIME_BONUS
+        scoring_mode: u8,
+        /// Whether everyone plays for themselves, scores are then kept per player instead of per team
+        free_for_all: bool,
         /// Object extend reference for future upgrades
         extend_ref: ExtendRef,
     }
@@ -152,6 +266,8 @@ module pictionary::pictionary {
     struct WordList has key {
         /// List of words that can be randomly selected for rounds
         words: vector<String>,
+        /// Difficulty of each word
+        difficulties: vector<u8>,
         /// Object extend reference for future upgrades
         extend_ref: ExtendRef,
     }
@@ -164,14 +280,23 @@ module pictionary::pictionary {
         game_address: address,
         /// Address of the player who created the game
         creator: address,
-        /// All players on team 0
-        team0_players: vector<address>,
-        /// All players on team 1
-        team1_players: vector<address>,
+        /// Players of each team, in team order
+        team_players: vector<vector<address>>,
         /// Score needed to win this game
         target_score: u64,
     }
 
+    #[event]
+    /// Emitted when a player joins or switches teams in a game with open enrollment
+    struct PlayerJoined has drop, store {
+        /// Game the player joined
+        game_address: address,
+        /// Address of the player who joined
+        player: address,
+        /// Team the player joined
+        team: u64,
+    }
+
     #[event]
     /// Emitted when a new round begins
     struct RoundStarted has drop, store {
@@ -179,27 +304,43 @@ module pictionary::pictionary {
         game_address: address,
         /// Sequential round number
         round_number: u64,
-        /// Word to be drawn (revealed to artists only initially)
-        word: String,
-        /// Current artist for team 0
-        team0_artist: address,
-        /// Current artist for team 1
-        team1_artist: address,
+        /// SHA3-256 hash of the word followed by the round's salt, the word itself is only revealed when the round finishes
+        /// Empty if the artist still has to choose the word, see WordChosen
+        word_hash: vector<u8>,
+        /// Current artist of each team, in team order
+        artists: vector<address>,
         /// When this round started
         start_time: u64,
     }
 
+    #[event]
+    /// Emitted when the artist chooses the round's word in games where artists choose their words
+    struct WordChosen has drop, store {
+        /// Game this round belongs to
+        game_address: address,
+        /// Which round the word was chosen for
+        round_number: u64,
+        /// SHA3-256 hash of the chosen word followed by the round's salt
+        word_hash: vector<u8>,
+        /// Difficulty of the chosen word
+        difficulty: u8,
+        /// When the round's timer restarted
+        start_time: u64,
+    }
+
     #[event]
     /// Emitted when an artist updates their team's canvas
     struct CanvasUpdated has drop, store {
         /// Game this update belongs to
         game_address: address,
-        /// Which team's canvas was updated (0 or 1)
+        /// Which team's canvas was updated
         team: u64,
         /// Which round this update belongs to
         round_number: u64,
         /// Artist who made the drawing changes
         artist: address,
+        /// Sequence number of the first delta in the team's canvas log
+        first_sequence: u32,
         /// List of pixel changes made
         deltas: vector<CanvasDelta>,
         /// When the update was made
@@ -213,10 +354,14 @@ module pictionary::pictionary {
         game_address: address,
         /// Player who made the guess
         guesser: address,
-        /// Which team the guesser is on (0 or 1)
+        /// Which team the guesser is on
         team: u64,
-        /// The guess that was made
+        /// The guess that was made, empty for correct guesses
         guess: String,
+        /// Whether the guess matched the word
+        correct: bool,
+        /// Whether the guess was wrong but within the game's close guess distance of the word
+        close: bool,
         /// Which round this guess was for
         round_number: u64,
         /// When the guess was made
@@ -232,14 +377,12 @@ module pictionary::pictionary {
         round_number: u64,
         /// The word that was being drawn
         word: String,
-        /// Points team 0 earned this round
-        team0_points_earned: u64,
-        /// Points team 1 earned this round
-        team1_points_earned: u64,
-        /// Team 0's total score after this round
-        team0_total_score: u64,
-        /// Team 1's total score after this round
-        team1_total_score: u64,
+        /// Difficulty of the word
+        difficulty: u8,
+        /// Points each team (or player in free-for-all games) earned this round
+        points_earned: vector<u64>,
+        /// Each team's (or player's in free-for-all games) total score after this round
+        total_scores: vector<u64>,
     }
 
     #[event]
@@ -247,12 +390,10 @@ module pictionary::pictionary {
     struct GameFinished has drop, store {
         /// Game that just finished
         game_address: address,
-        /// Winning team (0 or 1)
+        /// Winning team, or player in free-for-all games
         winner: u64,
-        /// Team 0's final score
-        final_team0_score: u64,
-        /// Team 1's final score
-        final_team1_score: u64,
+        /// Each team's (or player's in free-for-all games) final score
+        final_scores: vector<u64>,
     }
 
     /// Initialize the module with a default word list
@@ -283,45 +424,221 @@ module pictionary::pictionary {
             string::utf8(b"banana"),
             string::utf8(b"pizza"),
             string::utf8(b"cake"),
+            string::utf8(b"lighthouse"),
+            string::utf8(b"volcano"),
+            string::utf8(b"telescope"),
+            string::utf8(b"skateboard"),
+            string::utf8(b"roller coaster"),
+        ];
+        let default_difficulties = vector[
+            DIFFICULTY_EASY, DIFFICULTY_EASY, DIFFICULTY_EASY, DIFFICULTY_EASY, DIFFICULTY_EASY, // cat - car
+            DIFFICULTY_EASY, DIFFICULTY_EASY, DIFFICULTY_MEDIUM, DIFFICULTY_EASY, DIFFICULTY_EASY, // bird - moon
+            DIFFICULTY_EASY, DIFFICULTY_EASY, DIFFICULTY_MEDIUM, DIFFICULTY_MEDIUM, DIFFICULTY_MEDIUM, // star - computer
+            DIFFICULTY_MEDIUM, DIFFICULTY_EASY, DIFFICULTY_MEDIUM, DIFFICULTY_MEDIUM, DIFFICULTY_EASY, // phone - cake
+            DIFFICULTY_HARD, DIFFICULTY_HARD, DIFFICULTY_HARD, DIFFICULTY_HARD, DIFFICULTY_HARD, // lighthouse - roller coaster
         ];
 
         move_to(&word_list_signer, WordList {
             words: default_words,
+            difficulties: default_difficulties,
             extend_ref,
         });
     }
 
     public entry fun create_game(
         creator: &signer,
-        team0_players: vector<address>,
-        team1_players: vector<address>,
-        team0_name: String,
-        team1_name: String,
+        team_players: vector<vector<address>>,
+        team_names: vector<String>,
         target_score: u64,
         canvas_width: u16,
         canvas_height: u16,
         round_duration: u64,
-    ) {
-        create_game_inner(creator, team0_players, team1_players, team0_name, team1_name, target_score, canvas_width, canvas_height, round_duration);
+        palette: vector<u32>,
+        close_guess_distance: u64,
+        words: vector<String>,
+        word_difficulties: vector<u8>,
+        word_choice: bool,
+        scoring_mode: u8,
+    ) acquires Game {
+        let game_address = create_game_with_palette_inner(creator, team_players, team_names, target_score, canvas_width, canvas_height, round_duration, palette);
+        set_close_guess_distance(game_address, close_guess_distance);
+        set_words(game_address, words, word_difficulties);
+        borrow_global_mut<Game>(game_address).word_choice = word_choice;
+        set_scoring_mode(game_address, scoring_mode);
     }
 
-    /// Creates a new pictionary game with the specified teams and settings
+    /// Creates a new pictionary game with the specified teams and settings and the default palette
+    /// Teams are given as the players and the name of each team, in team order
     /// Game is created but not started - creator must call start_game() separately
     /// Returns the address of the created game object
     public fun create_game_inner(
         creator: &signer,
-        team0_players: vector<address>,
-        team1_players: vector<address>,
-        team0_name: String,
-        team1_name: String,
+        team_players: vector<vector<address>>,
+        team_names: vector<String>,
+        target_score: u64,
+        canvas_width: u16,
+        canvas_height: u16,
+        round_duration: u64,
+    ): address {
+        create_game_with_palette_inner(creator, team_players, team_names, target_score, canvas_width, canvas_height, round_duration, vector::empty())
+    }
+
+    /// Creates a new pictionary game with a custom palette of 0xRRGGBB colors (empty for the default palette)
+    /// Returns the address of the created game object
+    public fun create_game_with_palette_inner(
+        creator: &signer,
+        team_players: vector<vector<address>>,
+        team_names: vector<String>,
         target_score: u64,
         canvas_width: u16,
         canvas_height: u16,
         round_duration: u64,
+        palette: vector<u32>,
     ): address {
         // Validate teams have at least 2 players each
-        assert!(vector::length(&team0_players) >= 2, ETEAM_TOO_SMALL);
-        assert!(vector::length(&team1_players) >= 2, ETEAM_TOO_SMALL);
+        let i = 0;
+        while (i < vector::length(&team_players)) {
+            assert!(vector::length(vector::borrow(&team_players, i)) >= MIN_TEAM_SIZE, ETEAM_TOO_SMALL);
+            i = i + 1;
+        };
+
+        create_game_internal(creator, team_players, team_names, target_score, canvas_width, canvas_height, round_duration, palette, false, false)
+    }
+
+    /// Creates a game whose teams players join themselves, e.g. after following an invite link
+    /// The game gets a team for each name, the creator starts out on the first team and can switch teams like everyone else
+    public entry fun create_open_game(
+        creator: &signer,
+        team_names: vector<String>,
+        target_score: u64,
+        canvas_width: u16,
+        canvas_height: u16,
+        round_duration: u64,
+        palette: vector<u32>,
+        close_guess_distance: u64,
+        words: vector<String>,
+        word_difficulties: vector<u8>,
+        word_choice: bool,
+        scoring_mode: u8,
+    ) acquires Game {
+        let game_address = create_open_game_inner(creator, team_names, target_score, canvas_width, canvas_height, round_duration, palette);
+        set_close_guess_distance(game_address, close_guess_distance);
+        set_words(game_address, words, word_difficulties);
+        borrow_global_mut<Game>(game_address).word_choice = word_choice;
+        set_scoring_mode(game_address, scoring_mode);
+    }
+
+    /// Creates a game with open enrollment
+    /// Returns the address of the created game object
+    public fun create_open_game_inner(
+        creator: &signer,
+        team_names: vector<String>,
+        target_score: u64,
+        canvas_width: u16,
+        canvas_height: u16,
+        round_duration: u64,
+        palette: vector<u32>,
+    ): address {
+        let team_players = vector[vector[signer::address_of(creator)]];
+        while (vector::length(&team_players) < vector::length(&team_names)) {
+            vector::push_back(&mut team_players, vector::empty());
+        };
+        create_game_internal(creator, team_players, team_names, target_score, canvas_width, canvas_height, round_duration, palette, true, false)
+    }
+
+    /// Creates a free-for-all game, players take turns drawing in the order given while everyone else guesses
+    /// for themselves
+    public entry fun create_free_for_all_game(
+        creator: &signer,
+        players: vector<address>,
+        target_score: u64,
+        canvas_width: u16,
+        canvas_height: u16,
+        round_duration: u64,
+        palette: vector<u32>,
+        close_guess_distance: u64,
+        words: vector<String>,
+        word_difficulties: vector<u8>,
+        word_choice: bool,
+        scoring_mode: u8,
+    ) acquires Game {
+        let game_address = create_free_for_all_game_inner(creator, players, target_score, canvas_width, canvas_height, round_duration, palette);
+        set_close_guess_distance(game_address, close_guess_distance);
+        set_words(game_address, words, word_difficulties);
+        borrow_global_mut<Game>(game_address).word_choice = word_choice;
+        set_scoring_mode(game_address, scoring_mode);
+    }
+
+    /// Creates a free-for-all game, all players go on a single team whose artist rotation runs through everyone
+    /// Returns the address of the created game object
+    public fun create_free_for_all_game_inner(
+        creator: &signer,
+        players: vector<address>,
+        target_score: u64,
+        canvas_width: u16,
+        canvas_height: u16,
+        round_duration: u64,
+        palette: vector<u32>,
+    ): address {
+        assert!(vector::length(&players) >= MIN_FREE_FOR_ALL_PLAYERS, ENOT_ENOUGH_PLAYERS);
+        create_game_internal(creator, vector[players], vector[string::utf8(b"Everyone")], target_score, canvas_width, canvas_height, round_duration, palette, false, true)
+    }
+
+    /// Shared setup of games with fixed teams, games with open enrollment and free-for-all games
+    fun create_game_internal(
+        creator: &signer,
+        team_players: vector<vector<address>>,
+        team_names: vector<String>,
+        target_score: u64,
+        canvas_width: u16,
+        canvas_height: u16,
+        round_duration: u64,
+        palette: vector<u32>,
+        open_enrollment: bool,
+        free_for_all: bool,
+    ): address {
+        let team_count = vector::length(&team_names);
+        if (free_for_all) {
+            assert!(team_count == 1, EINVALID_TEAM_COUNT);
+        } else {
+            assert!(team_count >= MIN_TEAMS && team_count <= MAX_TEAMS, EINVALID_TEAM_COUNT);
+        };
+        assert!(vector::length(&team_players) == team_count, EINVALID_TEAM_COUNT);
+
+        // Validate the custom palette fits in u8 color indices and only holds RGB colors
+        assert!(vector::length(&palette) <= MAX_PALETTE_SIZE, EINVALID_PALETTE);
+        let i = 0;
+        while (i < vector::length(&palette)) {
+            assert!(*vector::borrow(&palette, i) <= 0xFFFFFF, EINVALID_PALETTE);
+            i = i + 1;
+        };
+
+        // Teams without a name are numbered from 1, like "Team 1" and "Team 2"
+        let teams = vector::empty<Team>();
+        // Every player can only be listed once, on a single team
+        let listed_players = vector::empty<address>();
+        let team = 0;
+        while (team < team_count) {
+            let name = *vector::borrow(&team_names, team);
+            if (string::length(&name) == 0) {
+                name = string::utf8(b"Team ");
+                string::append(&mut name, string_utils::to_string(&(team + 1)));
+            };
+            let players = *vector::borrow(&team_players, team);
+            let i = 0;
+            while (i < vector::length(&players)) {
+                let player = *vector::borrow(&players, i);
+                assert!(!vector::contains(&listed_players, &player), EPLAYER_ALREADY_IN_TEAM);
+                vector::push_back(&mut listed_players, player);
+                i = i + 1;
+            };
+            vector::push_back(&mut teams, Team {
+                name,
+                players,
+                current_artist: 0,
+            });
+            team = team + 1;
+        };
 
         // Create a new object for the game
         let constructor_ref = object::create_object(signer::address_of(creator));
@@ -331,12 +648,7 @@ module pictionary::pictionary {
 
         let game = Game {
             creator: signer::address_of(creator),
-            team0_players,
-            team1_players,
-            team0_name: if (string::length(&team0_name) == 0) string::utf8(b"Team 1") else team0_name,
-            team1_name: if (string::length(&team1_name) == 0) string::utf8(b"Team 2") else team1_name,
-            current_team0_artist: 0,
-            current_team1_artist: 0,
+            teams,
             target_score,
             rounds: vector::empty(),
             started: false,
@@ -345,6 +657,15 @@ module pictionary::pictionary {
             canvas_width: if (canvas_width == 0) 500 else canvas_width,
             canvas_height: if (canvas_height == 0) 500 else canvas_height,
             round_duration: if (round_duration == 0) 60 else round_duration,
+            palette,
+            open_enrollment,
+            teams_locked: false,
+            close_guess_distance: DEFAULT_CLOSE_GUESS_DISTANCE,
+            words: vector::empty(),
+            word_difficulties: vector::empty(),
+            word_choice: false,
+            scoring_mode: SCORING_CLASSIC,
+            free_for_all,
             extend_ref,
         };
 
@@ -352,8 +673,7 @@ module pictionary::pictionary {
         event::emit(GameCreated {
             game_address,
             creator: signer::address_of(creator),
-            team0_players: game.team0_players,
-            team1_players: game.team1_players,
+            team_players,
             target_score,
         });
 
@@ -361,56 +681,167 @@ module pictionary::pictionary {
         game_address
     }
 
-    /// Helper function to derive team 0's current score from completed rounds
-    fun get_team0_score(game: &Game): u64 {
-        let total_score = 0;
+    /// Sets how close wrong guesses have to be to the word to be flagged, 0 disables close guesses
+    fun set_close_guess_distance(game_address: address, close_guess_distance: u64) acquires Game {
+        assert!(close_guess_distance <= MAX_CLOSE_GUESS_DISTANCE, EINVALID_CLOSE_GUESS_DISTANCE);
+        borrow_global_mut<Game>(game_address).close_guess_distance = close_guess_distance;
+    }
+
+    /// Sets how the game's rounds are scored
+    fun set_scoring_mode(game_address: address, scoring_mode: u8) acquires Game {
+        assert!(scoring_mode <= SCORING_TIME_BONUS, EINVALID_SCORING_MODE);
+        borrow_global_mut<Game>(game_address).scoring_mode = scoring_mode;
+    }
+
+    /// Sets the custom word list the game's words are drawn from, empty to use the global word list
+    /// Words have to be in the normalized form guesses are submitted in, see frontend/utils/guess.ts
+    /// Difficulties are given per word, or left empty to make every word easy
+    fun set_words(game_address: address, words: vector<String>, word_difficulties: vector<u8>) acquires Game {
+        let word_count = vector::length(&words);
+        assert!(word_count == 0 || (word_count >= MIN_WORD_LIST_SIZE && word_count <= MAX_WORD_LIST_SIZE), EINVALID_WORD_LIST);
         let i = 0;
-        while (i < vector::length(&game.rounds)) {
-            let round = vector::borrow(&game.rounds, i);
-            if (round.processed) {
-                // Team 0 gets points based on timing if they guessed correctly
-                if (round.team0_guessed) {
-                    let points = if (round.team1_guessed) {
-                        // Both teams guessed - points based on timing
-                        let team0_time = *option::borrow(&round.team0_guess_time);
-                        let team1_time = *option::borrow(&round.team1_guess_time);
-                        if (team0_time <= team1_time) 2 else 1
-                    } else {
-                        // Only team 0 guessed
-                        2
-                    };
-                    total_score = total_score + points;
-                };
+        while (i < word_count) {
+            let word_length = string::length(vector::borrow(&words, i));
+            assert!(word_length > 0 && word_length <= MAX_WORD_LENGTH, EINVALID_WORD_LIST);
+            i = i + 1;
+        };
+
+        let game = borrow_global_mut<Game>(game_address);
+        game.word_difficulties = checked_difficulties(word_count, word_difficulties);
+        game.words = words;
+    }
+
+    /// Checks there's a valid difficulty for each word, filling in easy for every word if none are given
+    fun checked_difficulties(word_count: u64, difficulties: vector<u8>): vector<u8> {
+        if (vector::is_empty(&difficulties)) {
+            let i = 0;
+            while (i < word_count) {
+                vector::push_back(&mut difficulties, DIFFICULTY_EASY);
+                i = i + 1;
             };
+            return difficulties
+        };
+
+        assert!(vector::length(&difficulties) == word_count, EINVALID_DIFFICULTY);
+        let i = 0;
+        while (i < word_count) {
+            assert!(*vector::borrow(&difficulties, i) <= DIFFICULTY_HARD, EINVALID_DIFFICULTY);
             i = i + 1;
         };
-        total_score
+        difficulties
     }
 
-    /// Helper function to derive team 1's current score from completed rounds
-    fun get_team1_score(game: &Game): u64 {
-        let total_score = 0;
+    /// Helper function to derive the teams' current scores from completed rounds, in team order
+    /// Free-for-all games keep a score per player instead, in player order
+    fun get_team_scores(game: &Game): vector<u64> {
+        let scores = vector::empty<u64>();
+        while (vector::length(&scores) < score_count(game)) {
+            vector::push_back(&mut scores, 0);
+        };
+
         let i = 0;
         while (i < vector::length(&game.rounds)) {
             let round = vector::borrow(&game.rounds, i);
             if (round.processed) {
-                // Team 1 gets points based on timing if they guessed correctly
-                if (round.team1_guessed) {
-                    let points = if (round.team0_guessed) {
-                        // Both teams guessed - points based on timing
-                        let team0_time = *option::borrow(&round.team0_guess_time);
-                        let team1_time = *option::borrow(&round.team1_guess_time);
-                        if (team1_time < team0_time) 2 else 1
-                    } else {
-                        // Only team 1 guessed
-                        2
-                    };
-                    total_score = total_score + points;
+                let points = round_points(round, game.scoring_mode);
+                let team = 0;
+                while (team < vector::length(&points)) {
+                    let score = vector::borrow_mut(&mut scores, team);
+                    *score = *score + *vector::borrow(&points, team);
+                    team = team + 1;
                 };
             };
             i = i + 1;
         };
-        total_score
+        scores
+    }
+
+    /// Number of scores a game keeps, one per team or one per player in free-for-all games
+    fun score_count(game: &Game): u64 {
+        if (game.free_for_all) {
+            vector::length(&vector::borrow(&game.teams, 0).players)
+        } else {
+            vector::length(&game.teams)
+        }
+    }
+
+    /// Index of the player's guess times and score, their team's or in free-for-all games their own
+    fun get_score_index(game: &Game, player: address): u64 {
+        let team = get_player_team(game, player);
+        if (!game.free_for_all) {
+            return team
+        };
+        let (_, index) = vector::index_of(&vector::borrow(&game.teams, team).players, &player);
+        index
+    }
+
+    /// Points each team (or player in free-for-all games) earns for a round, in team order
+    /// The first team to guess the word gets 2 points and every team after them 1, plus a speed bonus in time bonus
+    /// games, multiplied by the word's difficulty plus one
+    /// The artist of a free-for-all game gets 1 point times the same multiplier if anyone guessed their word
+    /// Must match roundPoints in frontend/utils/scoring.ts
+    fun round_points(round: &Round, scoring_mode: u8): vector<u64> {
+        let multiplier = (round.difficulty as u64) + 1;
+        let points = vector::empty<u64>();
+        let team = 0;
+        while (team < vector::length(&round.guess_times)) {
+            let guess_time = vector::borrow(&round.guess_times, team);
+            let team_points = if (option::is_some(guess_time)) {
+                let time = *option::borrow(guess_time);
+                let placement_points = if (guessed_first(round, team, time)) FIRST_GUESS_POINTS else LATER_GUESS_POINTS;
+                let bonus = if (scoring_mode == SCORING_TIME_BONUS) speed_bonus(round, time) else 0;
+                (placement_points + bonus) * multiplier
+            } else {
+                0
+            };
+            vector::push_back(&mut points, team_points);
+            team = team + 1;
+        };
+
+        // Artists don't guess, so the free-for-all artist has no points of their own yet
+        if (option::is_some(&round.artist) && !everyone_missed(round)) {
+            *vector::borrow_mut(&mut points, *option::borrow(&round.artist)) = LATER_GUESS_POINTS * multiplier;
+        };
+        points
+    }
+
+    /// Whether nobody guessed the round's word
+    fun everyone_missed(round: &Round): bool {
+        let i = 0;
+        while (i < vector::length(&round.guess_times)) {
+            if (option::is_some(vector::borrow(&round.guess_times, i))) {
+                return false
+            };
+            i = i + 1;
+        };
+        true
+    }
+
+    /// Whether no other team guessed the word before the team did
+    /// Teams that guessed in the same second are ordered by team, the team listed first counts as first
+    fun guessed_first(round: &Round, team: u64, guess_time: u64): bool {
+        let other = 0;
+        while (other < vector::length(&round.guess_times)) {
+            let other_time = vector::borrow(&round.guess_times, other);
+            if (other != team && option::is_some(other_time)) {
+                let time = *option::borrow(other_time);
+                if (time < guess_time || (time == guess_time && other < team)) {
+                    return false
+                };
+            };
+            other = other + 1;
+        };
+        true
+    }
+
+    /// Bonus points for a correct guess in time bonus games, decaying linearly from SPEED_BONUS_POINTS to 0 over the round
+    /// Must match speedBonus in frontend/utils/scoring.ts
+    fun speed_bonus(round: &Round, guess_time: u64): u64 {
+        let elapsed = if (guess_time > round.start_time) guess_time - round.start_time else 0;
+        if (elapsed >= round.duration_seconds) {
+            return 0
+        };
+        SPEED_BONUS_POINTS * (round.duration_seconds - elapsed) / round.duration_seconds
     }
 
     /// Helper function to derive current round number from rounds vector
@@ -418,6 +849,53 @@ module pictionary::pictionary {
         vector::length(&game.rounds)
     }
 
+    /// Join a team of a game with open enrollment, or switch to another team
+    /// Only possible before the game starts and while the creator hasn't locked the teams
+    public entry fun join_team(player: &signer, game_address: address, team: u64) acquires Game {
+        let game = borrow_global_mut<Game>(game_address);
+        assert!(game.open_enrollment, EENROLLMENT_CLOSED);
+        assert!(!game.started, EGAME_ALREADY_STARTED);
+        assert!(!game.teams_locked, ETEAMS_LOCKED);
+        assert!(team < vector::length(&game.teams), EINVALID_TEAM);
+
+        let player_address = signer::address_of(player);
+        add_to_team(&mut game.teams, team, player_address);
+
+        event::emit(PlayerJoined {
+            game_address,
+            player: player_address,
+            team,
+        });
+    }
+
+    /// Adds a player to a team, taking them off their old team if they switch teams
+    fun add_to_team(teams: &mut vector<Team>, team: u64, player: address) {
+        let team_players = &vector::borrow(teams, team).players;
+        assert!(!vector::contains(team_players, &player), EPLAYER_ALREADY_IN_TEAM);
+        assert!(vector::length(team_players) < MAX_TEAM_SIZE, ETEAM_FULL);
+
+        let other = 0;
+        while (other < vector::length(teams)) {
+            let other_players = &mut vector::borrow_mut(teams, other).players;
+            let (in_other_team, index) = vector::index_of(other_players, &player);
+            if (in_other_team) {
+                vector::remove(other_players, index);
+            };
+            other = other + 1;
+        };
+        vector::push_back(&mut vector::borrow_mut(teams, team).players, player);
+    }
+
+    /// Lock or unlock the teams of a game with open enrollment (only creator can do this)
+    public entry fun set_teams_locked(creator: &signer, game_address: address, locked: bool) acquires Game {
+        let game = borrow_global_mut<Game>(game_address);
+        assert!(game.creator == signer::address_of(creator), ENOT_AUTHORIZED);
+        assert!(game.open_enrollment, EENROLLMENT_CLOSED);
+        assert!(!game.started, EGAME_ALREADY_STARTED);
+
+        game.teams_locked = locked;
+    }
+
     #[randomness]
     // Starts the game and begins the first round (only creator can do this)
     // Uses on-chain randomness to select the first word
@@ -426,11 +904,22 @@ module pictionary::pictionary {
         assert!(game.creator == signer::address_of(creator), ENOT_AUTHORIZED);
         assert!(!game.started, EGAME_ALREADY_STARTED);
         assert!(!game.finished, EGAME_FINISHED);
+        // Teams of games with open enrollment may not be filled up yet
+        assert_teams_ready(game);
 
         game.started = true;
         start_new_round(game_address);
     }
 
+    /// Checks every team has enough players to take turns drawing
+    fun assert_teams_ready(game: &Game) {
+        let team = 0;
+        while (team < vector::length(&game.teams)) {
+            assert!(vector::length(&vector::borrow(&game.teams, team).players) >= MIN_TEAM_SIZE, ETEAM_TOO_SMALL);
+            team = team + 1;
+        };
+    }
+
     /// Internal function to start a new round with a random word
     /// Creates fresh canvases and rotates artists
     fun start_new_round(game_address: address) acquires Game, WordList {
@@ -438,7 +927,7 @@ module pictionary::pictionary {
         assert!(game.started, EGAME_NOT_STARTED);
         assert!(!game.finished, EGAME_FINISHED);
 
-        // Get all previously used words in this game
+        // Get all previously used words in this game, earlier rounds are over so their words are revealed
         let used_words = vector::empty<String>();
         let i = 0;
         while (i < vector::length(&game.rounds)) {
@@ -447,17 +936,18 @@ module pictionary::pictionary {
             i = i + 1;
         };
 
-        // Select a random word that hasn't been used yet
-        let word_list_address = object::create_object_address(&@pictionary, b"WordList");
-        let word_list = borrow_global<WordList>(word_list_address);
+        // Select a random word that hasn't been used yet, from the game's own word list if it has one
+        let (words, difficulties) = word_pool(game);
         
         // Build list of available words (not yet used in this game)
         let available_words = vector::empty<String>();
+        let available_difficulties = vector::empty<u8>();
         let j = 0;
-        while (j < vector::length(&word_list.words)) {
-            let candidate_word = *vector::borrow(&word_list.words, j);
+        while (j < vector::length(&words)) {
+            let candidate_word = *vector::borrow(&words, j);
             if (!vector::contains(&used_words, &candidate_word)) {
                 vector::push_back(&mut available_words, candidate_word);
+                vector::push_back(&mut available_difficulties, *vector::borrow(&difficulties, j));
             };
             j = j + 1;
         };
@@ -465,87 +955,292 @@ module pictionary::pictionary {
         // If all words have been used, reset and use the full list
         // This prevents games from getting stuck if they exceed the word list size
         if (vector::is_empty(&available_words)) {
-            available_words = word_list.words;
+            available_words = words;
+            available_difficulties = difficulties;
+        };
+
+        let salt = randomness::bytes(WORD_SALT_LENGTH);
+
+        // Artists who choose their words pick one from a few candidates with choose_word
+        if (game.word_choice) {
+            let word_candidates = draw_word_candidates(&available_words, &available_difficulties, &salt);
+            add_round(game, game_address, vector::empty(), salt, DIFFICULTY_EASY, word_candidates);
+            return
         };
 
         let word_index = randomness::u64_range(0, vector::length(&available_words));
-        let word = *vector::borrow(&available_words, word_index);
+        let word_hash = salted_word_hash(vector::borrow(&available_words, word_index), &salt);
+        let difficulty = *vector::borrow(&available_difficulties, word_index);
+        add_round(game, game_address, word_hash, salt, difficulty, vector::empty());
+    }
+
+    /// The words a game's rounds are drawn from and their difficulties, its own word list if it has one
+    fun word_pool(game: &Game): (vector<String>, vector<u8>) acquires WordList {
+        if (!vector::is_empty(&game.words)) {
+            return (game.words, game.word_difficulties)
+        };
+
+        let word_list_address = object::create_object_address(&@pictionary, b"WordList");
+        if (!exists<WordList>(word_list_address)) {
+            return (vector::empty(), vector::empty())
+        };
+        let word_list = borrow_global<WordList>(word_list_address);
+        (word_list.words, word_list.difficulties)
+    }
+
+    /// SHA3-256 hash of the word's bytes followed by the salt
+    /// Must match wordHash in frontend/utils/wordHash.ts
+    fun salted_word_hash(word: &String, salt: &vector<u8>): vector<u8> {
+        let bytes = *string::bytes(word);
+        vector::append(&mut bytes, *salt);
+        hash::sha3_256(bytes)
+    }
+
+    /// Looks up the word of the round at the index in the game's word list by its hash
+    /// Empty if the word isn't chosen yet or no longer in the list
+    fun committed_word(game: &Game, round_index: u64): String acquires WordList {
+        let round = vector::borrow(&game.rounds, round_index);
+        if (!is_word_chosen(round)) {
+            return string::utf8(b"")
+        };
+
+        let (words, _) = word_pool(game);
+        let i = 0;
+        while (i < vector::length(&words)) {
+            let word = vector::borrow(&words, i);
+            if (salted_word_hash(word, &round.salt) == round.word_hash) {
+                return *word
+            };
+            i = i + 1;
+        };
+        string::utf8(b"")
+    }
 
-        // Create new canvases for this round
-        let team0_canvas = Canvas {
-            pixels: ordered_map::new(),
-            width: game.canvas_width,
-            height: game.canvas_height,
-            last_updated: timestamp::now_seconds(),
+    /// Draws the words an artist chooses from, one of each difficulty the words have where possible
+    /// Topped up with other random words when the words don't cover every difficulty
+    fun draw_word_candidates(words: &vector<String>, difficulties: &vector<u8>, salt: &vector<u8>): vector<WordCandidate> {
+        let picked = vector::empty<u64>();
+        let difficulty = DIFFICULTY_EASY;
+        while (difficulty <= DIFFICULTY_HARD) {
+            let matching = vector::empty<u64>();
+            let i = 0;
+            while (i < vector::length(words)) {
+                if (*vector::borrow(difficulties, i) == difficulty) {
+                    vector::push_back(&mut matching, i);
+                };
+                i = i + 1;
+            };
+            if (!vector::is_empty(&matching)) {
+                let index = randomness::u64_range(0, vector::length(&matching));
+                vector::push_back(&mut picked, *vector::borrow(&matching, index));
+            };
+            difficulty = difficulty + 1;
         };
 
-        let team1_canvas = Canvas {
-            pixels: ordered_map::new(),
-            width: game.canvas_width,
-            height: game.canvas_height,
-            last_updated: timestamp::now_seconds(),
+        while (vector::length(&picked) < WORD_CHOICE_CANDIDATES && vector::length(&picked) < vector::length(words)) {
+            let remaining = vector::empty<u64>();
+            let i = 0;
+            while (i < vector::length(words)) {
+                if (!vector::contains(&picked, &i)) {
+                    vector::push_back(&mut remaining, i);
+                };
+                i = i + 1;
+            };
+            let index = randomness::u64_range(0, vector::length(&remaining));
+            vector::push_back(&mut picked, *vector::borrow(&remaining, index));
         };
 
+        let word_candidates = vector::empty<WordCandidate>();
+        let k = 0;
+        while (k < vector::length(&picked)) {
+            let index = *vector::borrow(&picked, k);
+            vector::push_back(&mut word_candidates, WordCandidate {
+                word_hash: salted_word_hash(vector::borrow(words, index), salt),
+                difficulty: *vector::borrow(difficulties, index),
+            });
+            k = k + 1;
+        };
+        word_candidates
+    }
+
+    /// Adds a round with fresh canvases for the current artists
+    /// The word hash is left empty when the artist still has to choose the word from the candidates
+    fun add_round(
+        game: &mut Game,
+        game_address: address,
+        word_hash: vector<u8>,
+        salt: vector<u8>,
+        difficulty: u8,
+        word_candidates: vector<WordCandidate>,
+    ) {
+
+        // Create new canvases for this round and note the current artists
+        let canvases = vector::empty<Canvas>();
+        let artists = vector::empty<address>();
+        let team = 0;
+        while (team < vector::length(&game.teams)) {
+            vector::push_back(&mut canvases, Canvas {
+                deltas: ordered_map::new(),
+                next_sequence: 0,
+                width: game.canvas_width,
+                height: game.canvas_height,
+                last_updated: timestamp::now_seconds(),
+            });
+            vector::push_back(&mut artists, team_artist(game, team));
+            team = team + 1;
+        };
+
+        let guess_times = vector::empty<Option<u64>>();
+        while (vector::length(&guess_times) < score_count(game)) {
+            vector::push_back(&mut guess_times, option::none());
+        };
+        // The artist of a free-for-all game is the single team's artist
+        let artist = if (game.free_for_all) option::some(vector::borrow(&game.teams, 0).current_artist) else option::none();
+
         // Create new round
         let round = Round {
             round_number: get_current_round_number(game),
-            word,
+            word_hash,
+            salt,
+            word: string::utf8(b""),
+            difficulty,
+            word_candidates,
             start_time: timestamp::now_seconds(),
             duration_seconds: game.round_duration,
-            team0_canvas,
-            team1_canvas,
-            team0_guessed: false,
-            team1_guessed: false,
-            team0_guess_time: option::none(),
-            team1_guess_time: option::none(),
+            canvases,
+            guess_times,
+            artist,
             processed: false,
         };
 
         vector::push_back(&mut game.rounds, round);
 
-        // Get current artists
-        let team0_artist = *vector::borrow(&game.team0_players, game.current_team0_artist);
-        let team1_artist = *vector::borrow(&game.team1_players, game.current_team1_artist);
-
         // Emit round started event
         event::emit(RoundStarted {
             game_address,
             round_number: get_current_round_number(game),
-            word,
-            team0_artist,
-            team1_artist,
+            word_hash,
+            artists,
             start_time: timestamp::now_seconds(),
         });
 
         // Round number is now derived from rounds vector length - no need to update manually
     }
 
+    /// Chooses the current round's word from its candidates, in games where artists choose their words
+    /// All teams draw the same word, so the teams' artists take turns choosing it (see word_chooser)
+    /// The round's timer restarts once the word is chosen
+    public entry fun choose_word(artist: &signer, game_address: address, choice: u64) acquires Game {
+        let game = borrow_global_mut<Game>(game_address);
+        assert!(game.started, EGAME_NOT_STARTED);
+        assert!(!game.finished, EGAME_FINISHED);
+        assert!(signer::address_of(artist) == word_chooser(game), ENOT_ARTIST_TURN);
+
+        let current_round_index = get_current_round_number(game) - 1;
+        let round = vector::borrow_mut(&mut game.rounds, current_round_index);
+        assert!(!is_round_finished(round), EROUND_NOT_ACTIVE);
+        assert!(!is_word_chosen(round), EWORD_ALREADY_CHOSEN);
+        assert!(choice < vector::length(&round.word_candidates), EINVALID_WORD_CHOICE);
+
+        let WordCandidate { word_hash, difficulty } = *vector::borrow(&round.word_candidates, choice);
+        round.word_hash = word_hash;
+        round.difficulty = difficulty;
+        round.word_candidates = vector::empty();
+        round.start_time = timestamp::now_seconds();
+
+        event::emit(WordChosen {
+            game_address,
+            round_number: current_round_index,
+            word_hash: round.word_hash,
+            difficulty,
+            start_time: round.start_time,
+        });
+    }
+
+    /// The artist who chooses the current round's word, the teams' artists take turns in team order
+    /// Must match wordChooserTeam in frontend/utils/gameLogic.ts
+    fun word_chooser(game: &Game): address {
+        let current_round_index = get_current_round_number(game) - 1;
+        team_artist(game, current_round_index % vector::length(&game.teams))
+    }
+
+    /// The team's current artist
+    fun team_artist(game: &Game, team: u64): address {
+        let team = vector::borrow(&game.teams, team);
+        *vector::borrow(&team.players, team.current_artist)
+    }
+
+    /// Whether the player is the current artist of any team
+    fun is_artist(game: &Game, player: address): bool {
+        let team = 0;
+        while (team < vector::length(&game.teams)) {
+            if (team_artist(game, team) == player) {
+                return true
+            };
+            team = team + 1;
+        };
+        false
+    }
+
+    /// Whether the round's word is known, rounds of games where artists choose their words start without one
+    fun is_word_chosen(round: &Round): bool {
+        !vector::is_empty(&round.word_hash)
+    }
+
     /// Submits drawing updates to the canvas (only current artist can do this)
     /// Uses delta compression to minimize on-chain storage
+    /// The deltas must start at `first_sequence`, the next free position in the canvas log, so a resubmitted
+    /// update that already landed is rejected instead of appended twice
     public entry fun submit_canvas_delta(
         artist: &signer,
         game_address: address,
         team: u64,
-        positions: vector<u16>,
-        colors: vector<u8>, // Using u8 to represent Color enum variants
-    ) acquires Game {
-        // Convert u8 colors to Color enum
+        first_sequence: u32,
+        positions: vector<u32>,
+        colors: vector<u8>, // Indices into the game's palette
+        brush_sizes: vector<u8>,
+    ) acquires Game, WordList {
+        let game = borrow_global_mut<Game>(game_address);
+        let palette_size = palette_size(game);
+        let canvas_width = (game.canvas_width as u32);
+        let canvas_height = (game.canvas_height as u32);
+
+        // Submissions start at a frame boundary, so each word's role follows from the headers before it
+        // Point words left in the current stroke and argument words left after the current control word
+        let point_words = 0;
+        let control_args = 0;
+
         let deltas = vector::empty<CanvasDelta>();
         let i = 0;
         while (i < vector::length(&positions)) {
             let position = *vector::borrow(&positions, i);
-            let color_u8 = *vector::borrow(&colors, i);
-            let color = u8_to_color(color_u8);
-            vector::push_back(&mut deltas, CanvasDelta { position, color });
+            if (point_words > 0) {
+                // Points are pixels of the canvas
+                assert!(position % POINT_STRIDE < canvas_width, EINVALID_CANVAS_POSITION);
+                assert!(position / POINT_STRIDE < canvas_height, EINVALID_CANVAS_POSITION);
+                point_words = point_words - 1;
+            } else if (control_args > 0) {
+                control_args = control_args - 1;
+            } else if ((position & CONTROL_FLAG) != 0) {
+                control_args = position & 0xff;
+            } else {
+                // Stroke headers store the point count minus one in their low byte
+                point_words = (position & 0xff) + 1;
+            };
+            let color = *vector::borrow(&colors, i);
+            assert!((color as u64) < palette_size, EINVALID_COLOR);
+            let brush_size = *vector::borrow(&brush_sizes, i);
+            vector::push_back(&mut deltas, CanvasDelta { position, color, brush_size });
             i = i + 1;
         };
-        
-        let game = borrow_global_mut<Game>(game_address);
+
         assert!(game.started, EGAME_NOT_STARTED);
         assert!(!game.finished, EGAME_FINISHED);
-        assert!(team == 0 || team == 1, EINVALID_TEAM);
+        assert!(team < vector::length(&game.teams), EINVALID_TEAM);
 
         let artist_address = signer::address_of(artist);
+        // Verify it's the artist's turn
+        assert!(artist_address == team_artist(game, team), ENOT_ARTIST_TURN);
         let current_round_index = get_current_round_number(game) - 1;
         let round = vector::borrow_mut(&mut game.rounds, current_round_index);
         
@@ -556,34 +1251,21 @@ module pictionary::pictionary {
         };
         
         assert!(!is_round_finished(round), EROUND_NOT_ACTIVE);
-
-        // Verify it's the artist's turn
-        if (team == 0) {
-            let expected_artist = *vector::borrow(&game.team0_players, game.current_team0_artist);
-            assert!(artist_address == expected_artist, ENOT_ARTIST_TURN);
-        } else {
-            let expected_artist = *vector::borrow(&game.team1_players, game.current_team1_artist);
-            assert!(artist_address == expected_artist, ENOT_ARTIST_TURN);
-        };
+        assert!(is_word_chosen(round), EWORD_NOT_CHOSEN);
 
         // Apply deltas to canvas
-        let canvas = if (team == 0) {
-            &mut round.team0_canvas
-        } else {
-            &mut round.team1_canvas
-        };
+        let canvas = vector::borrow_mut(&mut round.canvases, team);
 
-        let max_position = (canvas.width as u32) * (canvas.height as u32);
         let current_time = timestamp::now_seconds();
 
+        assert!(canvas.next_sequence == first_sequence, ECANVAS_SEQUENCE_MISMATCH);
+
+        // Append deltas in order - positions are framed stroke words, not linear pixel offsets
         let i = 0;
         while (i < vector::length(&deltas)) {
-            let delta = vector::borrow(&deltas, i);
-            
-            // Validate position is within canvas bounds
-            assert!((delta.position as u32) < max_position, EINVALID_CANVAS_POSITION);
-            
-            ordered_map::upsert(&mut canvas.pixels, delta.position, delta.color);
+            let delta = *vector::borrow(&deltas, i);
+            ordered_map::add(&mut canvas.deltas, canvas.next_sequence, delta);
+            canvas.next_sequence = canvas.next_sequence + 1;
             i = i + 1;
         };
 
@@ -595,6 +1277,7 @@ module pictionary::pictionary {
             team,
             round_number: current_round_index,
             artist: artist_address,
+            first_sequence,
             deltas,
             timestamp: current_time,
         });
@@ -607,7 +1290,7 @@ module pictionary::pictionary {
         guesser: &signer,
         game_address: address,
         guess: String,
-    ) acquires Game {
+    ) acquires Game, WordList {
         let game = borrow_global_mut<Game>(game_address);
         assert!(game.started, EGAME_NOT_STARTED);
         assert!(!game.finished, EGAME_FINISHED);
@@ -617,13 +1300,12 @@ module pictionary::pictionary {
         
         // Determine which team the guesser is on first (before borrowing round mutably)
         let team = get_player_team(game, guesser_address);
+        let score_index = get_score_index(game, guesser_address);
         
         // Check that guesser is not the current artist
-        let is_team0_artist = *vector::borrow(&game.team0_players, game.current_team0_artist) == guesser_address;
-        let is_team1_artist = *vector::borrow(&game.team1_players, game.current_team1_artist) == guesser_address;
-        assert!(!is_team0_artist && !is_team1_artist, ENOT_ARTIST_TURN); // Reusing error code - artists can't guess
-        
-        let round = vector::borrow_mut(&mut game.rounds, current_round_index);
+        assert!(!is_artist(game, guesser_address), ENOT_ARTIST_TURN); // Reusing error code - artists can't guess
+
+        let round = vector::borrow(&game.rounds, current_round_index);
         
         // Check if round is already finished
         if (is_round_finished(round)) {
@@ -632,164 +1314,214 @@ module pictionary::pictionary {
         };
         
         assert!(!is_round_finished(round), EROUND_NOT_ACTIVE);
+        assert!(is_word_chosen(round), EWORD_NOT_CHOSEN);
         
         let current_time = timestamp::now_seconds();
-        
+
+        // Guesses are normalized by the frontend, so comparing salted hashes is enough to check them
+        let correct = salted_word_hash(&guess, &round.salt) == round.word_hash;
+        // Telling how close a wrong guess is takes the word, which is looked up by its hash only then
+        let close = !correct && game.close_guess_distance > 0
+            && is_close_guess(&guess, &committed_word(game, current_round_index), game.close_guess_distance);
+
         // Emit guess event
+        // Correct guesses are left out so the event doesn't give the word away before the round is over
         event::emit(GuessSubmitted {
             game_address,
             guesser: guesser_address,
             team,
-            guess,
+            guess: if (correct) string::utf8(b"") else guess,
+            correct,
+            close,
             round_number: current_round_index,
             timestamp: current_time,
         });
 
-        // Check if guess is correct (simple string comparison for now)
-        if (guess == round.word) {
-            if (team == 0 && !round.team0_guessed) {
-                round.team0_guessed = true;
-                round.team0_guess_time = option::some(current_time);
-            } else if (team == 1 && !round.team1_guessed) {
-                round.team1_guessed = true;
-                round.team1_guess_time = option::some(current_time);
+        if (correct) {
+            let round = vector::borrow_mut(&mut game.rounds, current_round_index);
+            let guess_time = vector::borrow_mut(&mut round.guess_times, score_index);
+            if (option::is_none(guess_time)) {
+                option::fill(guess_time, current_time);
             };
 
             // Check if round should finish
-            if (round.team0_guessed && round.team1_guessed) {
+            if (everyone_guessed(round)) {
                 finish_round(game_address);
             };
         };
     }
 
-    /// Determines which team a player belongs to
-    /// Returns 0 for team 0, 1 for team 1
+    /// Checks whether a guess is within the given edit distance of the word without matching it
+    /// Distances are counted in bytes, which is exact for the ASCII words of the word lists
+    public fun is_close_guess(guess: &String, word: &String, max_distance: u64): bool {
+        let guess_bytes = string::bytes(guess);
+        let word_bytes = string::bytes(word);
+        let guess_length = vector::length(guess_bytes);
+        let word_length = vector::length(word_bytes);
+        if (max_distance == 0 || guess_bytes == word_bytes) {
+            return false
+        };
+
+        // Every edit changes the length by at most one, this also bounds the work for long guesses
+        let length_difference = if (guess_length > word_length) guess_length - word_length else word_length - guess_length;
+        if (length_difference > max_distance) {
+            return false
+        };
+
+        // Levenshtein distance keeping only the previous row of the table
+        let previous = vector::empty<u64>();
+        let j = 0;
+        while (j <= word_length) {
+            vector::push_back(&mut previous, j);
+            j = j + 1;
+        };
+
+        let i = 1;
+        while (i <= guess_length) {
+            let current = vector[i];
+            let guess_byte = *vector::borrow(guess_bytes, i - 1);
+            let k = 1;
+            while (k <= word_length) {
+                let substitution_cost = if (guess_byte == *vector::borrow(word_bytes, k - 1)) 0 else 1;
+                let deletion = *vector::borrow(&previous, k) + 1;
+                let insertion = *vector::borrow(&current, k - 1) + 1;
+                let substitution = *vector::borrow(&previous, k - 1) + substitution_cost;
+                vector::push_back(&mut current, math64::min(deletion, math64::min(insertion, substitution)));
+                k = k + 1;
+            };
+            previous = current;
+            i = i + 1;
+        };
+
+        *vector::borrow(&previous, word_length) <= max_distance
+    }
+
+    /// Determines which team a player belongs to, aborts if they don't play in the game
     fun get_player_team(game: &Game, player: address): u64 {
-        if (vector::contains(&game.team0_players, &player)) {
-            0
-        } else {
-            1
-        }
+        let team = 0;
+        while (team < vector::length(&game.teams)) {
+            if (vector::contains(&vector::borrow(&game.teams, team).players, &player)) {
+                return team
+            };
+            team = team + 1;
+        };
+        abort ENOT_A_PLAYER
+    }
+
+    /// Whether the player is on any of the game's teams
+    fun is_player(game: &Game, player: address): bool {
+        let team = 0;
+        while (team < vector::length(&game.teams)) {
+            if (vector::contains(&vector::borrow(&game.teams, team).players, &player)) {
+                return true
+            };
+            team = team + 1;
+        };
+        false
     }
 
     /// Determines if a round is finished based on multiple criteria
     /// A round is finished if:
-    /// 1. Both teams have guessed correctly, OR
+    /// 1. All teams (or players other than the artist in free-for-all games) have guessed correctly, OR
     /// 2. The time limit has expired
     fun is_round_finished(round: &Round): bool {
         let current_time = timestamp::now_seconds();
         let time_expired = current_time > round.start_time + round.duration_seconds;
-        let both_guessed = round.team0_guessed && round.team1_guessed;
         
-        time_expired || both_guessed
-    }
-
-    /// Converts a u8 value to the corresponding Color enum variant
-    /// Used for canvas delta updates from frontend
-    fun u8_to_color(value: u8): Color {
-        if (value == 0) Color::Black
-        else if (value == 1) Color::White
-        else if (value == 2) Color::Red
-        else if (value == 3) Color::Green
-        else if (value == 4) Color::Blue
-        else if (value == 5) Color::Yellow
-        else if (value == 6) Color::Orange
-        else if (value == 7) Color::Purple
-        else if (value == 8) Color::Pink
-        else if (value == 9) Color::Brown
-        else if (value == 10) Color::Gray
-        else Color::Black // Default fallback
+        time_expired || everyone_guessed(round)
+    }
+
+    /// Whether every team has guessed the round's word, or every player but the artist in free-for-all games
+    fun everyone_guessed(round: &Round): bool {
+        let i = 0;
+        while (i < vector::length(&round.guess_times)) {
+            if (option::is_none(vector::borrow(&round.guess_times, i)) && round.artist != option::some(i)) {
+                return false
+            };
+            i = i + 1;
+        };
+        true
+    }
+
+    /// Number of colors artists can pick from in a game
+    fun palette_size(game: &Game): u64 {
+        let custom_size = vector::length(&game.palette);
+        if (custom_size == 0) DEFAULT_PALETTE_SIZE else custom_size
     }
 
     /// Internal function to complete the current round and award points
     /// Calculates scoring based on who guessed correctly and when
-    fun finish_round(game_address: address) acquires Game {
+    fun finish_round(game_address: address) acquires Game, WordList {
         let game = borrow_global_mut<Game>(game_address);
+        let scoring_mode = game.scoring_mode;
         let current_round_index = get_current_round_number(game) - 1;
-        let round = vector::borrow_mut(&mut game.rounds, current_round_index);
         
         // Check if already processed (prevent double processing)
-        if (round.processed) {
+        if (vector::borrow(&game.rounds, current_round_index).processed) {
             return
         };
+
+        // Reveal the word now that the round is over
+        let word = committed_word(game, current_round_index);
+        let round = vector::borrow_mut(&mut game.rounds, current_round_index);
+        round.word = word;
         
         // Mark as processed
         round.processed = true;
         
         // Calculate points
-        let team0_points = 0u64;
-        let team1_points = 0u64;
-
-        if (round.team0_guessed && round.team1_guessed) {
-            // Both teams guessed - first gets 2 points, second gets 1
-            // Safely check if guess times exist before borrowing
-            if (option::is_some(&round.team0_guess_time) && option::is_some(&round.team1_guess_time)) {
-                let team0_time = *option::borrow(&round.team0_guess_time);
-                let team1_time = *option::borrow(&round.team1_guess_time);
-                
-                if (team0_time <= team1_time) {
-                    team0_points = 2;
-                    team1_points = 1;
-                } else {
-                    team0_points = 1;
-                    team1_points = 2;
-                };
-            } else {
-                // Fallback: if guess times are missing, give both teams 1 point
-                team0_points = 1;
-                team1_points = 1;
-            };
-        } else if (round.team0_guessed) {
-            team0_points = 2;
-        } else if (round.team1_guessed) {
-            team1_points = 2;
-        };
+        let points_earned = round_points(round, scoring_mode);
 
         // Extract round word before calling score functions to avoid borrow conflicts
         let round_word = round.word;
+        let round_difficulty = round.difficulty;
         
         // Scores are now derived from round results - no need to store them separately
         // Get current derived scores after processing this round
-        let team0_total_score = get_team0_score(game);
-        let team1_total_score = get_team1_score(game);
+        let total_scores = get_team_scores(game);
 
         // Emit round finished event
         event::emit(RoundFinished {
             game_address,
             round_number: current_round_index,
             word: round_word,
-            team0_points_earned: team0_points,
-            team1_points_earned: team1_points,
-            team0_total_score,
-            team1_total_score,
+            difficulty: round_difficulty,
+            points_earned,
+            total_scores,
         });
 
         // Always rotate artists for next round (ensures proper advancement)
-        game.current_team0_artist = (game.current_team0_artist + 1) % vector::length(&game.team0_players);
-        game.current_team1_artist = (game.current_team1_artist + 1) % vector::length(&game.team1_players);
+        let team = 0;
+        while (team < vector::length(&game.teams)) {
+            let team_state = vector::borrow_mut(&mut game.teams, team);
+            team_state.current_artist = (team_state.current_artist + 1) % vector::length(&team_state.players);
+            team = team + 1;
+        };
 
-        // Check if game is finished
-        if (team0_total_score >= game.target_score || team1_total_score >= game.target_score) {
-            game.finished = true;
-            game.winner = if (team0_total_score >= team1_total_score) {
-                option::some(0)
-            } else {
-                option::some(1)
+        // Check if game is finished, the team with the highest score wins and ties go to the team listed first
+        // Must match isGameOver and gameWinner in frontend/utils/scoring.ts
+        let winner_team = 0;
+        let team = 1;
+        while (team < vector::length(&total_scores)) {
+            if (*vector::borrow(&total_scores, team) > *vector::borrow(&total_scores, winner_team)) {
+                winner_team = team;
             };
+            team = team + 1;
+        };
+        if (*vector::borrow(&total_scores, winner_team) >= game.target_score) {
+            game.finished = true;
+            game.winner = option::some(winner_team);
 
-            // Use borrow instead of extract to avoid consuming the option
-            let winner_team = *option::borrow(&game.winner);
             event::emit(GameFinished {
                 game_address,
                 winner: winner_team,
-                final_team0_score: team0_total_score,
-                final_team1_score: team1_total_score,
+                final_scores: total_scores,
             });
         };
     }
 
     #[randomness]
-    // Starts the next round (can be called by either current artist)
+    // Starts the next round (can be called by any player)
     // Only allowed after current round is finished
     entry fun next_round(caller: &signer, game_address: address) acquires Game, WordList {
         let game = borrow_global<Game>(game_address);
@@ -799,10 +1531,7 @@ module pictionary::pictionary {
         let caller_address = signer::address_of(caller);
         
         // Check if caller is a member of the game.
-        let is_team0_player = vector::contains(&game.team0_players, &caller_address);
-        let is_team1_player = vector::contains(&game.team1_players, &caller_address);
-        
-        assert!(is_team0_player || is_team1_player, ENOT_ARTIST_TURN);
+        assert!(is_player(game, caller_address), ENOT_ARTIST_TURN);
 
         // Check if current round is finished
         if (get_current_round_number(game) > 0) {
@@ -819,16 +1548,14 @@ module pictionary::pictionary {
 
     #[view]
     /// Returns complete game information
+    /// Team details are given per team, in team order
+    /// Free-for-all games have a single team of all players and scores per player, in player order
     public fun get_game(game_address: address): (
         address, // creator
-        vector<address>, // team0_players
-        vector<address>, // team1_players
-        String, // team0_name
-        String, // team1_name
-        u64, // current_team0_artist
-        u64, // current_team1_artist
-        u64, // team0_score
-        u64, // team1_score
+        vector<vector<address>>, // team_players
+        vector<String>, // team_names
+        vector<u64>, // current_artists
+        vector<u64>, // scores
         u64, // target_score
         u64, // current_round
         bool, // started
@@ -839,16 +1566,24 @@ module pictionary::pictionary {
         u64, // round_duration
     ) acquires Game {
         let game = borrow_global<Game>(game_address);
+        let team_players = vector::empty<vector<address>>();
+        let team_names = vector::empty<String>();
+        let current_artists = vector::empty<u64>();
+        let i = 0;
+        while (i < vector::length(&game.teams)) {
+            let team = vector::borrow(&game.teams, i);
+            vector::push_back(&mut team_players, team.players);
+            vector::push_back(&mut team_names, team.name);
+            vector::push_back(&mut current_artists, team.current_artist);
+            i = i + 1;
+        };
+
         (
             game.creator,
-            game.team0_players,
-            game.team1_players,
-            game.team0_name,
-            game.team1_name,
-            game.current_team0_artist,
-            game.current_team1_artist,
-            get_team0_score(game),
-            get_team1_score(game),
+            team_players,
+            team_names,
+            current_artists,
+            get_team_scores(game),
             game.target_score,
             get_current_round_number(game),
             game.started,
@@ -860,23 +1595,44 @@ module pictionary::pictionary {
         )
     }
 
+    #[view]
+    /// Returns the game's settings that get_game doesn't, so clients can load a game with two calls
+    public fun get_game_settings(game_address: address): (
+        vector<u32>, // palette, empty if the game uses the default palette
+        bool, // open_enrollment
+        bool, // teams_locked
+        u64, // close_guess_distance
+        bool, // word_choice
+        u8, // scoring_mode
+        bool, // free_for_all
+    ) acquires Game {
+        let game = borrow_global<Game>(game_address);
+        (
+            game.palette,
+            game.open_enrollment,
+            game.teams_locked,
+            game.close_guess_distance,
+            game.word_choice,
+            game.scoring_mode,
+            game.free_for_all,
+        )
+    }
+
     #[view]
     /// Returns information about the current/most recent round
-    /// Word is only revealed if the round is finished
+    /// Word is only revealed once the round is finished and scored
     public fun get_current_round(game_address: address): (
         u64, // round_number
-        String, // word (only if round is finished)
+        String, // word (only once the round is scored)
         u64, // start_time
         u64, // duration_seconds
-        bool, // team0_guessed
-        bool, // team1_guessed
+        vector<Option<u64>>, // guess_times, when each team (or player in free-for-all games) guessed the word
         bool, // finished
-        Option<u64>, // team0_guess_time
-        Option<u64>, // team1_guess_time
+        Option<u64>, // artist, the player drawing in free-for-all games, none in team games
     ) acquires Game {
         let game = borrow_global<Game>(game_address);
         if (get_current_round_number(game) == 0) {
-            return (0, string::utf8(b""), 0, 0, false, false, false, option::none(), option::none())
+            return (0, string::utf8(b""), 0, 0, vector::empty(), false, option::none())
         };
 
         let current_round_index = get_current_round_number(game) - 1;
@@ -884,57 +1640,195 @@ module pictionary::pictionary {
         
         let round_finished = is_round_finished(round);
         
-        // Only reveal word if round is finished
-        let word_to_show = if (round_finished) {
-            round.word
-        } else {
-            string::utf8(b"")
-        };
-
         (
             round.round_number,
-            word_to_show,
+            round.word,
             round.start_time,
             round.duration_seconds,
-            round.team0_guessed,
-            round.team1_guessed,
+            round.guess_times,
             round_finished,
-            round.team0_guess_time,
-            round.team1_guess_time,
+            round.artist,
         )
     }
 
     #[view]
-    /// Returns the canvas pixel data for a specific round and team
-    public fun get_canvas(game_address: address, round_number: u64, team: u64): OrderedMap<u16, Color> acquires Game {
+    /// Returns the canvas delta log for a specific round and team
+    public fun get_canvas(game_address: address, round_number: u64, team: u64): OrderedMap<u32, CanvasDelta> acquires Game {
         let game = borrow_global<Game>(game_address);
-        assert!(team == 0 || team == 1, EINVALID_TEAM);
+        assert!(team < vector::length(&game.teams), EINVALID_TEAM);
         assert!(round_number < vector::length(&game.rounds), EROUND_NOT_FOUND);
 
         let round = vector::borrow(&game.rounds, round_number);
-        let canvas = if (team == 0) {
-            &round.team0_canvas
-        } else {
-            &round.team1_canvas
+        vector::borrow(&round.canvases, team).deltas
+    }
+
+    #[view]
+    /// Returns the number of deltas in a team's canvas log for a specific round, the sequence the next update starts at
+    public fun get_canvas_length(game_address: address, round_number: u64, team: u64): u32 acquires Game {
+        let game = borrow_global<Game>(game_address);
+        assert!(team < vector::length(&game.teams), EINVALID_TEAM);
+        assert!(round_number < vector::length(&game.rounds), EROUND_NOT_FOUND);
+
+        let round = vector::borrow(&game.rounds, round_number);
+        vector::borrow(&round.canvases, team).next_sequence
+    }
+
+    #[view]
+    /// Returns whether players join teams themselves and whether the creator locked the teams
+    public fun get_enrollment(game_address: address): (bool, bool) acquires Game {
+        let game = borrow_global<Game>(game_address);
+        (game.open_enrollment, game.teams_locked)
+    }
+
+    #[view]
+    /// Returns the edit distance within which wrong guesses are flagged as close, 0 if close guesses are disabled
+    public fun get_close_guess_distance(game_address: address): u64 acquires Game {
+        borrow_global<Game>(game_address).close_guess_distance
+    }
+
+    #[view]
+    /// Returns the words the game's rounds are drawn from and the difficulty of each word, its custom word list if it has one
+    public fun get_words(game_address: address): (vector<String>, vector<u8>) acquires Game, WordList {
+        word_pool(borrow_global<Game>(game_address))
+    }
+
+    #[view]
+    /// Returns whether artists choose the round's word from a few candidates
+    public fun get_word_choice(game_address: address): bool acquires Game {
+        borrow_global<Game>(game_address).word_choice
+    }
+
+    #[view]
+    /// Returns how the game's rounds are scored, 0 for classic scoring and 1 for time bonus scoring
+    public fun get_scoring_mode(game_address: address): u8 acquires Game {
+        borrow_global<Game>(game_address).scoring_mode
+    }
+
+    #[view]
+    /// Returns whether everyone plays for themselves, with scores kept per player instead of per team
+    public fun get_free_for_all(game_address: address): bool acquires Game {
+        borrow_global<Game>(game_address).free_for_all
+    }
+
+    #[view]
+    /// Returns whether the current round's points have been added to the game's scores
+    /// A round is processed as soon as all teams guess, or by the first transaction after its time runs out
+    public fun get_current_round_processed(game_address: address): bool acquires Game {
+        let game = borrow_global<Game>(game_address);
+        if (get_current_round_number(game) == 0) {
+            return false
+        };
+
+        vector::borrow(&game.rounds, get_current_round_number(game) - 1).processed
+    }
+
+    #[view]
+    /// Returns whether the current round's word has been chosen and its difficulty
+    public fun get_current_word_status(game_address: address): (bool, u8) acquires Game {
+        let game = borrow_global<Game>(game_address);
+        if (get_current_round_number(game) == 0) {
+            return (false, DIFFICULTY_EASY)
+        };
+
+        let round = vector::borrow(&game.rounds, get_current_round_number(game) - 1);
+        (is_word_chosen(round), round.difficulty)
+    }
+
+    #[view]
+    /// Returns the words the player can choose from, empty unless they choose the current round's word and haven't yet
+    /// The words are hashed with the round's salt like the round's word, see get_current_word_commitment
+    public fun get_word_candidates(game_address: address, player: address): vector<WordCandidate> acquires Game {
+        let game = borrow_global<Game>(game_address);
+        if (get_current_round_number(game) == 0 || game.finished || word_chooser(game) != player) {
+            return vector::empty()
         };
 
-        canvas.pixels
+        let round = vector::borrow(&game.rounds, get_current_round_number(game) - 1);
+        if (is_round_finished(round)) {
+            return vector::empty()
+        };
+        round.word_candidates
+    }
+
+    #[view]
+    /// Returns the game's custom palette as 0xRRGGBB colors, empty if it uses the default palette
+    public fun get_palette(game_address: address): vector<u32> acquires Game {
+        let game = borrow_global<Game>(game_address);
+        game.palette
+    }
+
+    /// Lobby listing of a game that can be copied (for view functions)
+    struct GameSummary has copy, drop {
+        game_address: address,
+        creator: address,
+        team_names: vector<String>,
+        /// Players of each team, in team order
+        team_players: vector<vector<address>>,
+        /// Scores in team order, or player order in free-for-all games
+        scores: vector<u64>,
+        target_score: u64,
+        current_round: u64,
+        started: bool,
+        finished: bool,
+        winner: Option<u64>,
+        free_for_all: bool,
+    }
+
+    #[view]
+    /// Returns lobby listings of several games in one call, addresses without a game are skipped
+    public fun get_game_summaries(game_addresses: vector<address>): vector<GameSummary> acquires Game {
+        let summaries = vector::empty<GameSummary>();
+
+        let i = 0;
+        while (i < vector::length(&game_addresses)) {
+            let game_address = *vector::borrow(&game_addresses, i);
+            if (exists<Game>(game_address)) {
+                let game = borrow_global<Game>(game_address);
+                let team_names = vector::empty<String>();
+                let team_players = vector::empty<vector<address>>();
+                let team = 0;
+                while (team < vector::length(&game.teams)) {
+                    vector::push_back(&mut team_names, vector::borrow(&game.teams, team).name);
+                    vector::push_back(&mut team_players, vector::borrow(&game.teams, team).players);
+                    team = team + 1;
+                };
+
+                vector::push_back(&mut summaries, GameSummary {
+                    game_address,
+                    creator: game.creator,
+                    team_names,
+                    team_players,
+                    scores: get_team_scores(game),
+                    target_score: game.target_score,
+                    current_round: get_current_round_number(game),
+                    started: game.started,
+                    finished: game.finished,
+                    winner: game.winner,
+                    free_for_all: game.free_for_all,
+                });
+            };
+            i = i + 1;
+        };
+
+        summaries
     }
 
     /// Simple round summary that can be copied (for view functions)
     struct RoundSummary has copy, drop {
         round_number: u64,
         word: String,
+        difficulty: u8,
         start_time: u64,
         duration_seconds: u64,
-        team0_guessed: bool,
-        team1_guessed: bool,
-        team0_guess_time: Option<u64>,
-        team1_guess_time: Option<u64>,
+        /// When each team (or player in free-for-all games) guessed the word, none for those that didn't
+        guess_times: vector<Option<u64>>,
+        /// Index of the player who drew in free-for-all games, none in team games
+        artist: Option<u64>,
     }
 
     #[view]
     /// Returns the round history for a game as copyable summaries
+    /// The word of a round is left empty until the round is over and scored
     public fun get_round_history(game_address: address): vector<RoundSummary> acquires Game {
         let game = borrow_global<Game>(game_address);
         let summaries = vector::empty<RoundSummary>();
@@ -945,12 +1839,11 @@ module pictionary::pictionary {
             let summary = RoundSummary {
                 round_number: round.round_number,
                 word: round.word,
+                difficulty: round.difficulty,
                 start_time: round.start_time,
                 duration_seconds: round.duration_seconds,
-                team0_guessed: round.team0_guessed,
-                team1_guessed: round.team1_guessed,
-                team0_guess_time: round.team0_guess_time,
-                team1_guess_time: round.team1_guess_time,
+                guess_times: round.guess_times,
+                artist: round.artist,
             };
             vector::push_back(&mut summaries, summary);
             i = i + 1;
@@ -960,38 +1853,26 @@ module pictionary::pictionary {
     }
 
     #[view]
-    /// Returns the word for the current round (only if you're an artist or round is finished)
-    public fun get_current_word_for_artist(game_address: address, player: address): String acquires Game {
+    /// Returns the hash of the current round's word and the salt it was hashed with, empty before the first round
+    /// Artists find the word they draw by hashing the words of the game's word list with the salt, see get_words
+    public fun get_current_word_commitment(game_address: address): (vector<u8>, vector<u8>) acquires Game {
         let game = borrow_global<Game>(game_address);
         if (get_current_round_number(game) == 0) {
-            return string::utf8(b"")
+            return (vector::empty(), vector::empty())
         };
 
-        let current_round_index = get_current_round_number(game) - 1;
-        let round = vector::borrow(&game.rounds, current_round_index);
-        
-        // Return word if round is finished or if player is current artist
-        if (is_round_finished(round)) {
-            return round.word
-        };
-        
-        // Check if player is current artist
-        let is_team0_artist = *vector::borrow(&game.team0_players, game.current_team0_artist) == player;
-        let is_team1_artist = *vector::borrow(&game.team1_players, game.current_team1_artist) == player;
-        
-        if (is_team0_artist || is_team1_artist) {
-            round.word
-        } else {
-            string::utf8(b"")
-        }
+        let round = vector::borrow(&game.rounds, get_current_round_number(game) - 1);
+        (round.word_hash, round.salt)
     }
 
     /// Updates the global word list used for random word selection
+    /// Difficulties are given per word, or left empty to make every word easy
     /// Only the original module deployer can call this
-    public entry fun update_word_list(deployer: &signer, new_words: vector<String>) acquires WordList {
+    public entry fun update_word_list(deployer: &signer, new_words: vector<String>, new_difficulties: vector<u8>) acquires WordList {
         let word_list = borrow_global_mut<WordList>(@pictionary);
         // Only the original deployer can update the word list
         assert!(signer::address_of(deployer) == @pictionary, ENOT_AUTHORIZED);
+        word_list.difficulties = checked_difficulties(vector::length(&new_words), new_difficulties);
         word_list.words = new_words;
     }
 
@@ -1002,6 +1883,7 @@ module pictionary::pictionary {
         assert!(game.creator == signer::address_of(creator), ENOT_AUTHORIZED);
         assert!(!game.started, EGAME_ALREADY_STARTED);
         assert!(!game.finished, EGAME_FINISHED);
+        assert_teams_ready(game);
 
         game.started = true;
         start_new_round_with_word(game_address, test_word);
@@ -1009,18 +1891,15 @@ module pictionary::pictionary {
 
     #[test_only]
     /// Test-only function to start next round with a fixed word (no randomness)
-    public entry fun next_round_test(caller: &signer, game_address: address, test_word: String) acquires Game {
+    public entry fun next_round_test(caller: &signer, game_address: address, test_word: String) acquires Game, WordList {
         let game = borrow_global<Game>(game_address);
         assert!(game.started, EGAME_NOT_STARTED);
         assert!(!game.finished, EGAME_FINISHED);
 
         let caller_address = signer::address_of(caller);
         
-        // Check if caller is any player in either team (more lenient for testing)
-        let is_team0_player = vector::contains(&game.team0_players, &caller_address);
-        let is_team1_player = vector::contains(&game.team1_players, &caller_address);
-        
-        assert!(is_team0_player || is_team1_player, ENOT_ARTIST_TURN);
+        // Check if caller is any player in any team (more lenient for testing)
+        assert!(is_player(game, caller_address), ENOT_ARTIST_TURN);
 
         // Check if current round is finished
         if (get_current_round_number(game) > 0) {
@@ -1036,58 +1915,106 @@ module pictionary::pictionary {
     }
 
     #[test_only]
-    /// Internal test helper to start a new round with a specific word
-    fun start_new_round_with_word(game_address: address, word: String) acquires Game {
-        let game = borrow_global_mut<Game>(game_address);
-        assert!(game.started, EGAME_NOT_STARTED);
-        assert!(!game.finished, EGAME_FINISHED);
+    /// Test-only function to set the scoring mode of a game created with create_game_inner
+    public fun set_scoring_mode_test(creator: &signer, game_address: address, scoring_mode: u8) acquires Game {
+        assert!(borrow_global<Game>(game_address).creator == signer::address_of(creator), ENOT_AUTHORIZED);
+        set_scoring_mode(game_address, scoring_mode);
+    }
 
-        // Create new canvases for this round
-        let team0_canvas = Canvas {
-            pixels: ordered_map::new(),
-            width: game.canvas_width,
-            height: game.canvas_height,
-            last_updated: timestamp::now_seconds(),
+    #[test_only]
+    /// Test-only function to score a round with the given outcome, see round_points
+    public fun round_points_test(
+        guess_times: vector<Option<u64>>,
+        difficulty: u8,
+        artist: Option<u64>,
+        start_time: u64,
+        duration_seconds: u64,
+        scoring_mode: u8,
+    ): vector<u64> {
+        let round = Round {
+            round_number: 0,
+            word_hash: vector::empty(),
+            salt: vector::empty(),
+            word: string::utf8(b""),
+            difficulty,
+            word_candidates: vector::empty(),
+            start_time,
+            duration_seconds,
+            canvases: vector::empty(),
+            guess_times,
+            artist,
+            processed: false,
         };
+        let points = round_points(&round, scoring_mode);
+
+        // Rounds can't be dropped because of their canvases, this one has none
+        let Round {
+            round_number: _,
+            word_hash: _,
+            salt: _,
+            word: _,
+            difficulty: _,
+            word_candidates: _,
+            start_time: _,
+            duration_seconds: _,
+            canvases,
+            guess_times: _,
+            artist: _,
+            processed: _,
+        } = round;
+        vector::destroy_empty(canvases);
+        points
+    }
 
-        let team1_canvas = Canvas {
-            pixels: ordered_map::new(),
-            width: game.canvas_width,
-            height: game.canvas_height,
-            last_updated: timestamp::now_seconds(),
-        };
+    #[test_only]
+    /// Test-only function to start a game whose artists choose from fixed candidate words (no randomness)
+    public entry fun start_game_with_word_choice_test(
+        creator: &signer,
+        game_address: address,
+        candidate_words: vector<String>,
+        candidate_difficulties: vector<u8>,
+    ) acquires Game {
+        let game = borrow_global_mut<Game>(game_address);
+        assert!(game.creator == signer::address_of(creator), ENOT_AUTHORIZED);
+        assert!(!game.started, EGAME_ALREADY_STARTED);
 
-        // Create new round with provided word
-        let round = Round {
-            round_number: get_current_round_number(game),
-            word,
-            start_time: timestamp::now_seconds(),
-            duration_seconds: game.round_duration,
-            team0_canvas,
-            team1_canvas,
-            team0_guessed: false,
-            team1_guessed: false,
-            team0_guess_time: option::none(),
-            team1_guess_time: option::none(),
-            processed: false,
+        let salt = TEST_WORD_SALT;
+        let word_candidates = vector::empty<WordCandidate>();
+        let i = 0;
+        while (i < vector::length(&candidate_words)) {
+            let word = vector::borrow(&candidate_words, i);
+            let difficulty = *vector::borrow(&candidate_difficulties, i);
+            add_test_word(game, *word, difficulty);
+            vector::push_back(&mut word_candidates, WordCandidate {
+                word_hash: salted_word_hash(word, &salt),
+                difficulty,
+            });
+            i = i + 1;
         };
 
-        vector::push_back(&mut game.rounds, round);
+        game.started = true;
+        game.word_choice = true;
+        add_round(game, game_address, vector::empty(), salt, DIFFICULTY_EASY, word_candidates);
+    }
 
-        // Get current artists
-        let team0_artist = *vector::borrow(&game.team0_players, game.current_team0_artist);
-        let team1_artist = *vector::borrow(&game.team1_players, game.current_team1_artist);
+    #[test_only]
+    /// Internal test helper to start a new round with a specific word
+    fun start_new_round_with_word(game_address: address, word: String) acquires Game {
+        let game = borrow_global_mut<Game>(game_address);
+        assert!(game.started, EGAME_NOT_STARTED);
+        assert!(!game.finished, EGAME_FINISHED);
 
-        // Emit round started event
-        event::emit(RoundStarted {
-            game_address,
-            round_number: get_current_round_number(game),
-            word,
-            team0_artist,
-            team1_artist,
-            start_time: timestamp::now_seconds(),
-        });
+        add_test_word(game, word, DIFFICULTY_EASY);
+        let salt = TEST_WORD_SALT;
+        add_round(game, game_address, salted_word_hash(&word, &salt), salt, DIFFICULTY_EASY, vector::empty());
+    }
 
-        // Round number is now derived from rounds vector length - no need to update manually
+    #[test_only]
+    /// Adds a fixed test word to the game's word list, so finish_round finds it like a drawn word
+    fun add_test_word(game: &mut Game, word: String, difficulty: u8) {
+        if (!vector::contains(&game.words, &word)) {
+            vector::push_back(&mut game.words, word);
+            vector::push_back(&mut game.word_difficulties, difficulty);
+        };
     }
-}
\ No newline at end of file
+}
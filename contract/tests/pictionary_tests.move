@@ -1,8 +1,22 @@
 #[test_only]
 module pictionary::pictionary_tests {
     use pictionary::pictionary;
-    use std::string;
+    use std::debug;
+    use std::hash;
+    use std::option::{Self, Option};
+    use std::string::{Self, String};
+    use std::vector;
+    use aptos_framework::ordered_map;
     use aptos_framework::timestamp;
+    use aptos_std::string_utils;
+
+    // Whether the current round's word hash is the word's, the way artists find the word they draw
+    fun is_committed_word(game_address: address, word: String): bool {
+        let (word_hash, salt) = pictionary::get_current_word_commitment(game_address);
+        let bytes = *string::bytes(&word);
+        vector::append(&mut bytes, salt);
+        hash::sha3_256(bytes) == word_hash
+    }
 
     // Helper function to create test accounts
     fun create_test_account(aptos_framework: &signer, account_addr: address): signer {
@@ -21,10 +35,8 @@ module pictionary::pictionary_tests {
         // This should not fail
         let _game_address = pictionary::create_game_inner(
             creator,
-            team0_players,
-            team1_players,
-            string::utf8(b"Team A"),
-            string::utf8(b"Team B"),
+            vector[team0_players, team1_players],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
             11, // target_score
             500, // canvas_width
             500, // canvas_height
@@ -43,10 +55,8 @@ module pictionary::pictionary_tests {
 
         let _game_address = pictionary::create_game_inner(
             creator,
-            team0_players,
-            team1_players,
-            string::utf8(b"Team A"),
-            string::utf8(b"Team B"),
+            vector[team0_players, team1_players],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
             11,
             500,
             500,
@@ -63,10 +73,8 @@ module pictionary::pictionary_tests {
 
         let _game_address = pictionary::create_game_inner(
             creator,
-            team0_players,
-            team1_players,
-            string::utf8(b"Red Team"),
-            string::utf8(b"Blue Team"),
+            vector[team0_players, team1_players],
+            vector[string::utf8(b"Red Team"), string::utf8(b"Blue Team")],
             11,
             500,
             500,
@@ -84,10 +92,8 @@ module pictionary::pictionary_tests {
 
         let _game_address = pictionary::create_game_inner(
             creator,
-            team0_players,
-            team1_players,
-            string::utf8(b"Alpha"),
-            string::utf8(b"Beta"),
+            vector[team0_players, team1_players],
+            vector[string::utf8(b"Alpha"), string::utf8(b"Beta")],
             15, // Different target score
             600, // Different canvas size
             600,
@@ -104,10 +110,8 @@ module pictionary::pictionary_tests {
 
         let _game_address = pictionary::create_game_inner(
             creator,
-            team0_players,
-            team1_players,
-            string::utf8(b"Warriors"),
-            string::utf8(b"Legends"),
+            vector[team0_players, team1_players],
+            vector[string::utf8(b"Warriors"), string::utf8(b"Legends")],
             11,
             500,
             500,
@@ -124,10 +128,8 @@ module pictionary::pictionary_tests {
 
         let _game_address = pictionary::create_game_inner(
             creator,
-            team0_players,
-            team1_players,
-            string::utf8(b"Phoenix"),
-            string::utf8(b"Dragons"),
+            vector[team0_players, team1_players],
+            vector[string::utf8(b"Phoenix"), string::utf8(b"Dragons")],
             11,
             500,
             500,
@@ -144,10 +146,8 @@ module pictionary::pictionary_tests {
 
         let _game_address = pictionary::create_game_inner(
             creator,
-            team0_players,
-            team1_players,
-            string::utf8(b"Storm"),
-            string::utf8(b"Thunder"),
+            vector[team0_players, team1_players],
+            vector[string::utf8(b"Storm"), string::utf8(b"Thunder")],
             11,
             500,
             500,
@@ -164,10 +164,8 @@ module pictionary::pictionary_tests {
 
         let _game_address = pictionary::create_game_inner(
             creator,
-            team0_players,
-            team1_players,
-            string::utf8(b""),
-            string::utf8(b""),
+            vector[team0_players, team1_players],
+            vector[string::utf8(b""), string::utf8(b"")],
             11,
             0, // Should default to 500
             0, // Should default to 500
@@ -192,10 +190,8 @@ module pictionary::pictionary_tests {
         // Create game
         let game_address = pictionary::create_game_inner(
             creator,
-            team0_players,
-            team1_players,
-            string::utf8(b"Team A"),
-            string::utf8(b"Team B"),
+            vector[team0_players, team1_players],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
             5, // Lower target score for easier testing
             500,
             500,
@@ -207,8 +203,12 @@ module pictionary::pictionary_tests {
         pictionary::start_game_test(creator, game_address, test_word);
 
         // Check initial state
-        let (_, _, _, _, _, team0_artist_idx, team1_artist_idx, team0_score, team1_score, _, current_round, started, finished, _, _, _, _) = 
+        let (_, _, _, artists, scores, _, current_round, started, finished, _, _, _, _) = 
             pictionary::get_game(game_address);
+        let team0_artist_idx = *vector::borrow(&artists, 0);
+        let team1_artist_idx = *vector::borrow(&artists, 1);
+        let team0_score = *vector::borrow(&scores, 0);
+        let team1_score = *vector::borrow(&scores, 1);
         
         assert!(started, 1);
         assert!(!finished, 2);
@@ -218,9 +218,9 @@ module pictionary::pictionary_tests {
         assert!(team1_score == 0, 6);
         assert!(current_round == 1, 7); // First round started
 
-        // Get the word for artists
-        let word = pictionary::get_current_word_for_artist(game_address, @0x200); // Team 0 artist
-        assert!(word == test_word, 8); // Word should match test word
+        // Artists find the word by its hash
+        let word = test_word;
+        assert!(is_committed_word(game_address, word), 8); // Word should match test word
 
         // Team 0 guesser makes correct guess
         pictionary::make_guess(player2, game_address, word);
@@ -229,8 +229,12 @@ module pictionary::pictionary_tests {
         pictionary::make_guess(player4, game_address, word);
 
         // Check scores after round finishes
-        let (_, _, _, _, _, new_team0_artist_idx, new_team1_artist_idx, new_team0_score, new_team1_score, _, new_current_round, _, _, _, _, _, _) = 
+        let (_, _, _, artists, scores, _, new_current_round, _, _, _, _, _, _) = 
             pictionary::get_game(game_address);
+        let new_team0_artist_idx = *vector::borrow(&artists, 0);
+        let new_team1_artist_idx = *vector::borrow(&artists, 1);
+        let new_team0_score = *vector::borrow(&scores, 0);
+        let new_team1_score = *vector::borrow(&scores, 1);
 
         // Both teams should have points (first team gets 2, second gets 1)
         assert!(new_team0_score > 0 || new_team1_score > 0, 9);
@@ -257,10 +261,8 @@ module pictionary::pictionary_tests {
 
         let game_address = pictionary::create_game_inner(
             creator,
-            team0_players,
-            team1_players,
-            string::utf8(b"Team A"),
-            string::utf8(b"Team B"),
+            vector[team0_players, team1_players],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
             5,
             500,
             500,
@@ -270,8 +272,10 @@ module pictionary::pictionary_tests {
         pictionary::start_game_test(creator, game_address, test_word1);
 
         // First round - artist indices should be 0
-        let (_, _, _, _, _, team0_artist_idx, team1_artist_idx, _, _, _, _, _, _, _, _, _, _) = 
+        let (_, _, _, artists, _, _, _, _, _, _, _, _, _) = 
             pictionary::get_game(game_address);
+        let team0_artist_idx = *vector::borrow(&artists, 0);
+        let team1_artist_idx = *vector::borrow(&artists, 1);
         assert!(team0_artist_idx == 0, 1);
         assert!(team1_artist_idx == 0, 2);
 
@@ -284,8 +288,10 @@ module pictionary::pictionary_tests {
         pictionary::next_round_test(player1, game_address, test_word2); // Team 0 artist can start next round
 
         // Second round - artist indices should be 1
-        let (_, _, _, _, _, team0_artist_idx, team1_artist_idx, _, _, _, _, _, _, _, _, _, _) = 
+        let (_, _, _, artists, _, _, _, _, _, _, _, _, _) = 
             pictionary::get_game(game_address);
+        let team0_artist_idx = *vector::borrow(&artists, 0);
+        let team1_artist_idx = *vector::borrow(&artists, 1);
         assert!(team0_artist_idx == 1, 3);
         assert!(team1_artist_idx == 1, 4);
 
@@ -298,8 +304,10 @@ module pictionary::pictionary_tests {
         pictionary::next_round_test(player2, game_address, test_word3); // Team 0 new artist can start next round
 
         // Third round - artist indices should loop back to 0
-        let (_, _, _, _, _, team0_artist_idx, team1_artist_idx, _, _, _, _, _, _, _, _, _, _) = 
+        let (_, _, _, artists, _, _, _, _, _, _, _, _, _) = 
             pictionary::get_game(game_address);
+        let team0_artist_idx = *vector::borrow(&artists, 0);
+        let team1_artist_idx = *vector::borrow(&artists, 1);
         assert!(team0_artist_idx == 0, 5); // Should loop back to first artist
         assert!(team1_artist_idx == 0, 6); // Should loop back to first artist
     }
@@ -320,10 +328,8 @@ module pictionary::pictionary_tests {
 
         let game_address = pictionary::create_game_inner(
             creator,
-            team0_players,
-            team1_players,
-            string::utf8(b"Team A"),
-            string::utf8(b"Team B"),
+            vector[team0_players, team1_players],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
             10, // Higher target to prevent game ending
             500,
             500,
@@ -333,16 +339,24 @@ module pictionary::pictionary_tests {
         pictionary::start_game_test(creator, game_address, test_word1);
 
         // Get initial round state
-        let (_, _, _, _, _, initial_team0_artist, initial_team1_artist, initial_team0_score, initial_team1_score, _, initial_round, _, _, _, _, _, _) = 
+        let (_, _, _, artists, scores, _, initial_round, _, _, _, _, _, _) = 
             pictionary::get_game(game_address);
+        let initial_team0_artist = *vector::borrow(&artists, 0);
+        let initial_team1_artist = *vector::borrow(&artists, 1);
+        let initial_team0_score = *vector::borrow(&scores, 0);
+        let initial_team1_score = *vector::borrow(&scores, 1);
 
         // Both teams guess correctly (this should finish the round automatically)
         pictionary::make_guess(player2, game_address, test_word1);
         pictionary::make_guess(player4, game_address, test_word1);
 
         // Check that round finished and artists advanced
-        let (_, _, _, _, _, mid_team0_artist, mid_team1_artist, mid_team0_score, mid_team1_score, _, mid_round, _, _, _, _, _, _) = 
+        let (_, _, _, artists, scores, _, mid_round, _, _, _, _, _, _) = 
             pictionary::get_game(game_address);
+        let mid_team0_artist = *vector::borrow(&artists, 0);
+        let mid_team1_artist = *vector::borrow(&artists, 1);
+        let mid_team0_score = *vector::borrow(&scores, 0);
+        let mid_team1_score = *vector::borrow(&scores, 1);
         
         assert!(mid_team0_artist != initial_team0_artist || mid_team1_artist != initial_team1_artist, 1); // Artists should have advanced
         assert!(mid_team0_score > initial_team0_score || mid_team1_score > initial_team1_score, 2); // Scores should have increased
@@ -353,8 +367,12 @@ module pictionary::pictionary_tests {
         pictionary::next_round_test(player1, game_address, test_word2);
 
         // Check final state
-        let (_, _, _, _, _, final_team0_artist, final_team1_artist, final_team0_score, final_team1_score, _, final_round, _, _, _, _, _, _) = 
+        let (_, _, _, artists, scores, _, final_round, _, _, _, _, _, _) = 
             pictionary::get_game(game_address);
+        let final_team0_artist = *vector::borrow(&artists, 0);
+        let final_team1_artist = *vector::borrow(&artists, 1);
+        let final_team0_score = *vector::borrow(&scores, 0);
+        let final_team1_score = *vector::borrow(&scores, 1);
 
         // Should have started a new round, not double-advanced artists
         assert!(final_round > mid_round, 3); // Should be in next round
@@ -379,10 +397,8 @@ module pictionary::pictionary_tests {
 
         let game_address = pictionary::create_game_inner(
             creator,
-            team0_players,
-            team1_players,
-            string::utf8(b"Team A"),
-            string::utf8(b"Team B"),
+            vector[team0_players, team1_players],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
             10,
             500,
             500,
@@ -392,8 +408,10 @@ module pictionary::pictionary_tests {
         pictionary::start_game_test(creator, game_address, test_word);
 
         // Get initial artist state
-        let (_, _, _, _, _, initial_team0_artist, initial_team1_artist, _, _, _, _, _, _, _, _, _, _) = 
+        let (_, _, _, artists, _, _, _, _, _, _, _, _, _) = 
             pictionary::get_game(game_address);
+        let initial_team0_artist = *vector::borrow(&artists, 0);
+        let initial_team1_artist = *vector::borrow(&artists, 1);
 
         // Fast-forward time to expire the round
         timestamp::fast_forward_seconds(10); // Exceed the 5-second round duration
@@ -403,13 +421,17 @@ module pictionary::pictionary_tests {
             player1, 
             game_address, 
             0, // team 0
+            0, // first sequence
             vector[100], // positions
-            vector[1] // colors (white)
+            vector[1], // colors (white)
+            vector[5] // brush sizes
         );
 
         // Check that artists advanced due to timeout
-        let (_, _, _, _, _, final_team0_artist, final_team1_artist, _, _, _, _, _, _, _, _, _, _) = 
+        let (_, _, _, artists, _, _, _, _, _, _, _, _, _) = 
             pictionary::get_game(game_address);
+        let final_team0_artist = *vector::borrow(&artists, 0);
+        let final_team1_artist = *vector::borrow(&artists, 1);
         
         assert!(final_team0_artist != initial_team0_artist, 1); // Should advance to next artist
         assert!(final_team1_artist != initial_team1_artist, 2); // Should advance to next artist
@@ -425,10 +447,8 @@ module pictionary::pictionary_tests {
 
         let game_address = pictionary::create_game_inner(
             creator,
-            team0_players,
-            team1_players,
-            string::utf8(b"Team A"),
-            string::utf8(b"Team B"),
+            vector[team0_players, team1_players],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
             10,
             500,
             500,
@@ -442,4 +462,1086 @@ module pictionary::pictionary_tests {
         let test_word2 = string::utf8(b"dog");
         pictionary::next_round_test(&non_artist, game_address, test_word2);
     }
-}
\ No newline at end of file
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player1 = @0x200)]
+    fun test_canvas_deltas_append_in_order(aptos_framework: &signer, creator: &signer, player1: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let team0_players = vector[@0x200, @0x201];
+        let team1_players = vector[@0x300, @0x301];
+
+        let game_address = pictionary::create_game_inner(
+            creator,
+            vector[team0_players, team1_players],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+        );
+        pictionary::start_game_test(creator, game_address, string::utf8(b"cat"));
+
+        // Repeated positions must not overwrite each other - the canvas is a log, not a pixel map
+        pictionary::submit_canvas_delta(player1, game_address, 0, 0, vector[1, 100, 100], vector[2, 2, 2], vector[5, 5, 5]);
+        pictionary::submit_canvas_delta(player1, game_address, 0, 3, vector[0, 100], vector[4, 4], vector[12, 12]);
+        // Full resolution point words (y * 65536 + x) need more than a u16
+        pictionary::submit_canvas_delta(player1, game_address, 0, 5, vector[0, 32702914], vector[1, 1], vector[3, 3]);
+
+        let canvas = pictionary::get_canvas(game_address, 0, 0);
+        assert!(ordered_map::length(&canvas) == 7, 1);
+        assert!(ordered_map::keys(&canvas) == vector[0, 1, 2, 3, 4, 5, 6], 2);
+        assert!(pictionary::get_canvas_length(game_address, 0, 0) == 7, 4);
+
+        // The other team's canvas is untouched
+        let other_canvas = pictionary::get_canvas(game_address, 0, 1);
+        assert!(ordered_map::is_empty(&other_canvas), 3);
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player1 = @0x200)]
+    #[expected_failure(abort_code = pictionary::pictionary::ECANVAS_SEQUENCE_MISMATCH)]
+    fun test_resubmitted_canvas_delta_fails(aptos_framework: &signer, creator: &signer, player1: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_game_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x301]],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+        );
+        pictionary::start_game_test(creator, game_address, string::utf8(b"cat"));
+
+        // An update that already landed must not be appended again when it is retried
+        pictionary::submit_canvas_delta(player1, game_address, 0, 0, vector[1, 100, 100], vector[2, 2, 2], vector[5, 5, 5]);
+        pictionary::submit_canvas_delta(player1, game_address, 0, 0, vector[1, 100, 100], vector[2, 2, 2], vector[5, 5, 5]);
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100)]
+    fun test_game_summaries_skip_missing_games(aptos_framework: &signer, creator: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let first_game = pictionary::create_game_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x301]],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+        );
+        let second_game = pictionary::create_game_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x301]],
+            vector[string::utf8(b"Team C"), string::utf8(b"Team D")],
+            10,
+            500,
+            500,
+            30,
+        );
+
+        // The lobby lists games from events, an address without a game must not fail the whole call
+        let summaries = pictionary::get_game_summaries(vector[first_game, @0x999, second_game]);
+        assert!(vector::length(&summaries) == 2, 1);
+        assert!(vector::is_empty(&pictionary::get_game_summaries(vector[])), 2);
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player1 = @0x200)]
+    fun test_custom_palette_colors(aptos_framework: &signer, creator: &signer, player1: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_game_with_palette_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x301]],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+            vector[0x000000, 0xFF8800, 0x2244CC],
+        );
+        assert!(pictionary::get_palette(game_address) == vector[0x000000, 0xFF8800, 0x2244CC], 1);
+        let (palette, open_enrollment, teams_locked, close_guess_distance, word_choice, scoring_mode, free_for_all) =
+            pictionary::get_game_settings(game_address);
+        assert!(palette == vector[0x000000, 0xFF8800, 0x2244CC], 3);
+        assert!(!open_enrollment && !teams_locked && !word_choice && !free_for_all, 4);
+        assert!(close_guess_distance == 1 && scoring_mode == 0, 5);
+
+        pictionary::start_game_test(creator, game_address, string::utf8(b"cat"));
+        pictionary::submit_canvas_delta(player1, game_address, 0, 0, vector[0, 100], vector[2, 2], vector[5, 5]);
+
+        let canvas = pictionary::get_canvas(game_address, 0, 0);
+        assert!(ordered_map::length(&canvas) == 2, 2);
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player1 = @0x200)]
+    #[expected_failure(abort_code = pictionary::pictionary::EINVALID_CANVAS_POSITION)]
+    fun test_point_outside_canvas_fails(aptos_framework: &signer, creator: &signer, player1: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_game_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x301]],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            400,
+            300,
+            30,
+        );
+        pictionary::start_game_test(creator, game_address, string::utf8(b"cat"));
+
+        // Headers and control words aren't points, a control word with one argument and a two point stroke fit
+        pictionary::submit_canvas_delta(player1, game_address, 0, 0, vector[32769, 5, 1, 0, 19595663], vector[0, 0, 2, 2, 2], vector[0, 0, 5, 5, 5]);
+        // A point at x = 400 is just off a 400 pixel wide canvas
+        pictionary::submit_canvas_delta(player1, game_address, 0, 5, vector[0, 400], vector[2, 2], vector[5, 5]);
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player1 = @0x200)]
+    #[expected_failure(abort_code = pictionary::pictionary::EINVALID_COLOR)]
+    fun test_color_outside_palette_fails(aptos_framework: &signer, creator: &signer, player1: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_game_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x301]],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+        );
+        assert!(pictionary::get_palette(game_address) == vector[], 1);
+
+        pictionary::start_game_test(creator, game_address, string::utf8(b"cat"));
+        // The default palette has 32 colors
+        pictionary::submit_canvas_delta(player1, game_address, 0, 0, vector[0, 100], vector[32, 32], vector[5, 5]);
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100)]
+    #[expected_failure(abort_code = pictionary::pictionary::EINVALID_PALETTE)]
+    fun test_invalid_palette_fails(aptos_framework: &signer, creator: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let _game_address = pictionary::create_game_with_palette_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x301]],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+            vector[0x000000, 0x1000000],
+        );
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player1 = @0x200, player2 = @0x201, player3 = @0x300)]
+    fun test_open_game_players_join_teams(
+        aptos_framework: &signer,
+        creator: &signer,
+        player1: &signer,
+        player2: &signer,
+        player3: &signer
+    ) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_open_game_inner(
+            creator,
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+            vector[],
+        );
+        let (open_enrollment, teams_locked) = pictionary::get_enrollment(game_address);
+        assert!(open_enrollment, 1);
+        assert!(!teams_locked, 2);
+
+        pictionary::join_team(player1, game_address, 1);
+        pictionary::join_team(player2, game_address, 1);
+        pictionary::join_team(player3, game_address, 0);
+        // Switching teams takes the player off their old team
+        pictionary::join_team(player3, game_address, 1);
+        pictionary::join_team(player3, game_address, 0);
+
+        let (_, team_players, _, _, _, _, _, _, _, _, _, _, _) =
+            pictionary::get_game(game_address);
+        let team0_players = *vector::borrow(&team_players, 0);
+        let team1_players = *vector::borrow(&team_players, 1);
+        assert!(team0_players == vector[@0x100, @0x300], 3);
+        assert!(team1_players == vector[@0x200, @0x201], 4);
+
+        pictionary::set_teams_locked(creator, game_address, true);
+        let (_, teams_locked) = pictionary::get_enrollment(game_address);
+        assert!(teams_locked, 5);
+
+        pictionary::start_game_test(creator, game_address, string::utf8(b"cat"));
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player1 = @0x200)]
+    #[expected_failure(abort_code = pictionary::pictionary::ETEAMS_LOCKED)]
+    fun test_join_locked_teams_fails(aptos_framework: &signer, creator: &signer, player1: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_open_game_inner(
+            creator,
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+            vector[],
+        );
+        pictionary::set_teams_locked(creator, game_address, true);
+        pictionary::join_team(player1, game_address, 1);
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player1 = @0x200)]
+    #[expected_failure(abort_code = pictionary::pictionary::ETEAM_TOO_SMALL)]
+    fun test_start_open_game_without_full_teams_fails(aptos_framework: &signer, creator: &signer, player1: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_open_game_inner(
+            creator,
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+            vector[],
+        );
+        pictionary::join_team(player1, game_address, 1);
+        pictionary::start_game_test(creator, game_address, string::utf8(b"cat"));
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player1 = @0x400)]
+    #[expected_failure(abort_code = pictionary::pictionary::EENROLLMENT_CLOSED)]
+    fun test_join_game_with_fixed_teams_fails(aptos_framework: &signer, creator: &signer, player1: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_game_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x301]],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+        );
+        pictionary::join_team(player1, game_address, 0);
+    }
+
+    #[test]
+    fun test_close_guesses() {
+        let word = string::utf8(b"cat");
+
+        // One edit away: an extra, a missing or a different letter
+        assert!(pictionary::is_close_guess(&string::utf8(b"cats"), &word, 1), 1);
+        assert!(pictionary::is_close_guess(&string::utf8(b"ca"), &word, 1), 2);
+        assert!(pictionary::is_close_guess(&string::utf8(b"bat"), &word, 1), 3);
+
+        // Too far away, the word itself, or close guesses disabled
+        assert!(!pictionary::is_close_guess(&string::utf8(b"dog"), &word, 1), 4);
+        assert!(!pictionary::is_close_guess(&string::utf8(b"cast"), &string::utf8(b"cat"), 0), 5);
+        assert!(!pictionary::is_close_guess(&word, &word, 1), 6);
+
+        // Two edits away only count with a larger distance
+        assert!(!pictionary::is_close_guess(&string::utf8(b"coats"), &word, 1), 7);
+        assert!(pictionary::is_close_guess(&string::utf8(b"coats"), &word, 2), 8);
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player2 = @0x201)]
+    fun test_close_guess_is_not_correct(aptos_framework: &signer, creator: &signer, player2: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_game_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x301]],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+        );
+        assert!(pictionary::get_close_guess_distance(game_address) == 1, 1);
+
+        pictionary::start_game_test(creator, game_address, string::utf8(b"cat"));
+        pictionary::make_guess(player2, game_address, string::utf8(b"cats"));
+
+        let (_, _, _, _, guess_times, _, _) = pictionary::get_current_round(game_address);
+        assert!(option::is_none(vector::borrow(&guess_times, 0)), 2);
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player2 = @0x201, player4 = @0x301)]
+    fun test_word_revealed_when_round_finishes(
+        aptos_framework: &signer,
+        creator: &signer,
+        player2: &signer,
+        player4: &signer
+    ) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_game_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x301]],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+        );
+        let test_word = string::utf8(b"cat");
+        pictionary::start_game_test(creator, game_address, test_word);
+
+        // Only the word's salted hash is kept while the round is in progress
+        let (_, word, _, _, _, _, _) = pictionary::get_current_round(game_address);
+        assert!(string::is_empty(&word), 1);
+        assert!(!is_committed_word(game_address, string::utf8(b"dog")), 2);
+        assert!(is_committed_word(game_address, test_word), 3);
+
+        // Guesses are checked against the word's salted hash
+        pictionary::make_guess(player2, game_address, test_word);
+        let (_, word, _, _, guess_times, _, _) = pictionary::get_current_round(game_address);
+        assert!(option::is_some(vector::borrow(&guess_times, 0)), 4);
+        assert!(string::is_empty(&word), 5);
+
+        // Revealed to everyone once both teams guessed it
+        pictionary::make_guess(player4, game_address, test_word);
+        let (_, word, _, _, _, finished, _) = pictionary::get_current_round(game_address);
+        assert!(finished, 6);
+        assert!(word == test_word, 7);
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100)]
+    fun test_create_game_with_custom_words(aptos_framework: &signer, creator: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let words = vector[
+            string::utf8(b"stapler"),
+            string::utf8(b"coffee mug"),
+            string::utf8(b"printer"),
+            string::utf8(b"whiteboard"),
+            string::utf8(b"deadline"),
+        ];
+        pictionary::create_open_game(
+            creator,
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+            vector[],
+            1,
+            words,
+            vector[],
+            false,
+            0,
+        );
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100)]
+    #[expected_failure(abort_code = pictionary::pictionary::EINVALID_WORD_LIST)]
+    fun test_too_few_custom_words_fails(aptos_framework: &signer, creator: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        pictionary::create_open_game(
+            creator,
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+            vector[],
+            1,
+            vector[string::utf8(b"stapler"), string::utf8(b"printer")],
+            vector[],
+            false,
+            0,
+        );
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100)]
+    #[expected_failure(abort_code = pictionary::pictionary::EINVALID_WORD_LIST)]
+    fun test_empty_custom_word_fails(aptos_framework: &signer, creator: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        pictionary::create_open_game(
+            creator,
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+            vector[],
+            1,
+            vector[
+                string::utf8(b"stapler"),
+                string::utf8(b"printer"),
+                string::utf8(b""),
+                string::utf8(b"deadline"),
+                string::utf8(b"meeting"),
+            ],
+            vector[],
+            false,
+            0,
+        );
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100)]
+    #[expected_failure(abort_code = pictionary::pictionary::EINVALID_DIFFICULTY)]
+    fun test_missing_word_difficulties_fails(aptos_framework: &signer, creator: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        // Difficulties are optional, but if given there has to be one per word
+        pictionary::create_open_game(
+            creator,
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+            vector[],
+            1,
+            vector[
+                string::utf8(b"stapler"),
+                string::utf8(b"printer"),
+                string::utf8(b"whiteboard"),
+                string::utf8(b"deadline"),
+                string::utf8(b"meeting"),
+            ],
+            vector[0, 1, 2],
+            false,
+            0,
+        );
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player1 = @0x200, player2 = @0x201, player4 = @0x301)]
+    fun test_chosen_word_difficulty_scales_points(
+        aptos_framework: &signer,
+        creator: &signer,
+        player1: &signer,
+        player2: &signer,
+        player4: &signer
+    ) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_game_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x301]],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            20,
+            500,
+            500,
+            30,
+        );
+        pictionary::start_game_with_word_choice_test(
+            creator,
+            game_address,
+            vector[string::utf8(b"cat"), string::utf8(b"bicycle"), string::utf8(b"lighthouse")],
+            vector[0, 1, 2],
+        );
+        assert!(pictionary::get_word_choice(game_address), 1);
+
+        // Team 0's artist chooses the word of the first round, guessers don't get the candidates
+        assert!(vector::length(&pictionary::get_word_candidates(game_address, @0x200)) == 3, 2);
+        assert!(vector::is_empty(&pictionary::get_word_candidates(game_address, @0x201)), 3);
+        let (word_chosen, _) = pictionary::get_current_word_status(game_address);
+        assert!(!word_chosen, 4);
+
+        pictionary::choose_word(player1, game_address, 2);
+        let (word_chosen, difficulty) = pictionary::get_current_word_status(game_address);
+        assert!(word_chosen, 5);
+        assert!(difficulty == 2, 6);
+        assert!(vector::is_empty(&pictionary::get_word_candidates(game_address, @0x200)), 7);
+        assert!(is_committed_word(game_address, string::utf8(b"lighthouse")), 8);
+
+        // A hard word triples the points
+        pictionary::make_guess(player2, game_address, string::utf8(b"lighthouse"));
+        pictionary::make_guess(player4, game_address, string::utf8(b"lighthouse"));
+        let (_, _, _, _, scores, _, _, _, _, _, _, _, _) =
+            pictionary::get_game(game_address);
+        let team0_score = *vector::borrow(&scores, 0);
+        let team1_score = *vector::borrow(&scores, 1);
+        assert!(team0_score == 6, 9);
+        assert!(team1_score == 3, 10);
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player2 = @0x201, player4 = @0x301)]
+    fun test_time_bonus_rewards_fast_guesses(
+        aptos_framework: &signer,
+        creator: &signer,
+        player2: &signer,
+        player4: &signer
+    ) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_game_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x301]],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            20,
+            500,
+            500,
+            30,
+        );
+        pictionary::set_scoring_mode_test(creator, game_address, 1);
+        assert!(pictionary::get_scoring_mode(game_address) == 1, 1);
+        pictionary::start_game_test(creator, game_address, string::utf8(b"cat"));
+
+        // A third of the way into the round the bonus is 2 of 3 points, two thirds of the way it's 1
+        timestamp::fast_forward_seconds(10);
+        pictionary::make_guess(player2, game_address, string::utf8(b"cat"));
+        timestamp::fast_forward_seconds(10);
+        pictionary::make_guess(player4, game_address, string::utf8(b"cat"));
+
+        let (_, _, _, _, scores, _, _, _, _, _, _, _, _) =
+            pictionary::get_game(game_address);
+        let team0_score = *vector::borrow(&scores, 0);
+        let team1_score = *vector::borrow(&scores, 1);
+        assert!(team0_score == 4, 2);
+        assert!(team1_score == 2, 3);
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player1 = @0x200, player2 = @0x201, player3 = @0x300, player4 = @0x301)]
+    fun test_tied_final_score_goes_to_team0(
+        aptos_framework: &signer,
+        creator: &signer,
+        player1: &signer,
+        player2: &signer,
+        player3: &signer,
+        player4: &signer
+    ) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_game_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x301]],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            3,
+            500,
+            500,
+            30,
+        );
+        pictionary::start_game_test(creator, game_address, string::utf8(b"cat"));
+
+        // Team 0 guesses first in the first round, team 1 in the second, so both teams reach 3 points together
+        pictionary::make_guess(player2, game_address, string::utf8(b"cat"));
+        pictionary::make_guess(player4, game_address, string::utf8(b"cat"));
+        pictionary::next_round_test(player1, game_address, string::utf8(b"dog"));
+        pictionary::make_guess(player3, game_address, string::utf8(b"dog"));
+        timestamp::fast_forward_seconds(1);
+        pictionary::make_guess(player1, game_address, string::utf8(b"dog"));
+
+        let (_, _, _, _, scores, _, _, _, finished, winner, _, _, _) =
+            pictionary::get_game(game_address);
+        let team0_score = *vector::borrow(&scores, 0);
+        let team1_score = *vector::borrow(&scores, 1);
+        assert!(team0_score == 3, 1);
+        assert!(team1_score == 3, 2);
+        assert!(finished, 3);
+        assert!(winner == option::some(0), 4);
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player2 = @0x201, player4 = @0x301)]
+    fun test_round_processed_once_time_runs_out(
+        aptos_framework: &signer,
+        creator: &signer,
+        player2: &signer,
+        player4: &signer
+    ) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_game_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x301]],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+        );
+        pictionary::start_game_test(creator, game_address, string::utf8(b"cat"));
+        pictionary::make_guess(player2, game_address, string::utf8(b"cat"));
+        assert!(!pictionary::get_current_round_processed(game_address), 1);
+
+        // The round is over once its time runs out, but its points only count once a transaction processes it
+        timestamp::fast_forward_seconds(31);
+        assert!(!pictionary::get_current_round_processed(game_address), 2);
+        let (_, _, _, _, scores, _, _, _, _, _, _, _, _) = pictionary::get_game(game_address);
+        let team0_score = *vector::borrow(&scores, 0);
+        assert!(team0_score == 0, 3);
+
+        pictionary::make_guess(player4, game_address, string::utf8(b"cat"));
+        assert!(pictionary::get_current_round_processed(game_address), 4);
+        let (_, _, _, _, scores, _, _, _, _, _, _, _, _) =
+            pictionary::get_game(game_address);
+        let team0_score = *vector::borrow(&scores, 0);
+        let team1_score = *vector::borrow(&scores, 1);
+        assert!(team0_score == 2, 5);
+        assert!(team1_score == 0, 6);
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player2 = @0x201, player4 = @0x301, player6 = @0x401)]
+    fun test_three_team_game(
+        aptos_framework: &signer,
+        creator: &signer,
+        player2: &signer,
+        player4: &signer,
+        player6: &signer
+    ) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_game_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x301], vector[@0x400, @0x401]],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B"), string::utf8(b"")],
+            10,
+            500,
+            500,
+            30,
+        );
+        pictionary::start_game_test(creator, game_address, string::utf8(b"cat"));
+
+        let (_, _, team_names, artists, _, _, _, _, _, _, _, _, _) = pictionary::get_game(game_address);
+        assert!(*vector::borrow(&team_names, 2) == string::utf8(b"Team 3"), 1);
+        assert!(artists == vector[0, 0, 0], 2);
+
+        // The round goes on until every team guessed the word
+        pictionary::make_guess(player4, game_address, string::utf8(b"cat"));
+        timestamp::fast_forward_seconds(1);
+        pictionary::make_guess(player2, game_address, string::utf8(b"cat"));
+        let (_, _, _, _, guess_times, finished, _) = pictionary::get_current_round(game_address);
+        assert!(!finished, 3);
+        assert!(option::is_none(vector::borrow(&guess_times, 2)), 4);
+
+        // The first team to guess gets 2 points, every team after it 1
+        pictionary::make_guess(player6, game_address, string::utf8(b"cat"));
+        let (_, _, _, artists, scores, _, _, _, _, _, _, _, _) = pictionary::get_game(game_address);
+        assert!(scores == vector[1, 2, 1], 5);
+        assert!(artists == vector[1, 1, 1], 6);
+
+        // The third team's artist draws on their own canvas
+        pictionary::next_round_test(player2, game_address, string::utf8(b"dog"));
+        pictionary::submit_canvas_delta(player6, game_address, 2, 0, vector[100], vector[1], vector[5]);
+        assert!(ordered_map::length(&pictionary::get_canvas(game_address, 1, 2)) == 1, 7);
+        assert!(ordered_map::is_empty(&pictionary::get_canvas(game_address, 1, 0)), 8);
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100)]
+    #[expected_failure(abort_code = pictionary::pictionary::EINVALID_TEAM_COUNT)]
+    fun test_single_team_game_fails(aptos_framework: &signer, creator: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        pictionary::create_game_inner(
+            creator,
+            vector[vector[@0x200, @0x201]],
+            vector[string::utf8(b"Team A")],
+            10,
+            500,
+            500,
+            30,
+        );
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, outsider = @0x500)]
+    #[expected_failure(abort_code = pictionary::pictionary::ENOT_A_PLAYER)]
+    fun test_guess_by_non_player_fails(aptos_framework: &signer, creator: &signer, outsider: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_game_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x301]],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+        );
+        pictionary::start_game_test(creator, game_address, string::utf8(b"cat"));
+
+        pictionary::make_guess(outsider, game_address, string::utf8(b"cat"));
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player1 = @0x200, player2 = @0x201, player3 = @0x202)]
+    fun test_free_for_all_game(
+        aptos_framework: &signer,
+        creator: &signer,
+        player1: &signer,
+        player2: &signer,
+        player3: &signer
+    ) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_free_for_all_game_inner(
+            creator,
+            vector[@0x200, @0x201, @0x202],
+            10,
+            500,
+            500,
+            30,
+            vector[],
+        );
+        assert!(pictionary::get_free_for_all(game_address), 1);
+        pictionary::start_game_test(creator, game_address, string::utf8(b"cat"));
+
+        let (_, team_players, _, artists, scores, _, _, _, _, _, _, _, _) = pictionary::get_game(game_address);
+        assert!(team_players == vector[vector[@0x200, @0x201, @0x202]], 2);
+        assert!(artists == vector[0], 3);
+        assert!(scores == vector[0, 0, 0], 4);
+
+        // The first player draws on the only canvas while everyone else guesses for themselves
+        pictionary::submit_canvas_delta(player1, game_address, 0, 0, vector[100], vector[1], vector[5]);
+        pictionary::make_guess(player3, game_address, string::utf8(b"cat"));
+        let (_, _, _, _, guess_times, finished, _) = pictionary::get_current_round(game_address);
+        assert!(!finished, 5);
+        assert!(option::is_some(vector::borrow(&guess_times, 2)), 6);
+
+        // The round is over once every player but the artist guessed
+        timestamp::fast_forward_seconds(1);
+        pictionary::make_guess(player2, game_address, string::utf8(b"cat"));
+        let (_, _, _, _, _, finished, _) = pictionary::get_current_round(game_address);
+        assert!(finished, 7);
+        let (_, _, _, artists, scores, _, _, _, _, _, _, _, _) = pictionary::get_game(game_address);
+        // The artist gets a point for a word the others guessed
+        assert!(scores == vector[1, 1, 2], 8);
+        assert!(artists == vector[1], 9);
+
+        // The second player draws next and the first one guesses
+        pictionary::next_round_test(player1, game_address, string::utf8(b"dog"));
+        pictionary::make_guess(player1, game_address, string::utf8(b"dog"));
+        let (_, _, _, _, guess_times, finished, _) = pictionary::get_current_round(game_address);
+        assert!(!finished, 10);
+        assert!(option::is_some(vector::borrow(&guess_times, 0)), 11);
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player2 = @0x201)]
+    fun test_free_for_all_artist_scores_nothing_without_guesses(
+        aptos_framework: &signer,
+        creator: &signer,
+        player2: &signer
+    ) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_free_for_all_game_inner(
+            creator,
+            vector[@0x200, @0x201, @0x202],
+            10,
+            500,
+            500,
+            30,
+            vector[],
+        );
+        pictionary::start_game_test(creator, game_address, string::utf8(b"cat"));
+
+        // Nobody guesses before the time runs out, the late guess only processes the round
+        timestamp::fast_forward_seconds(31);
+        pictionary::make_guess(player2, game_address, string::utf8(b"cat"));
+        assert!(pictionary::get_current_round_processed(game_address), 1);
+        let (_, _, _, _, scores, _, _, _, _, _, _, _, _) = pictionary::get_game(game_address);
+        assert!(scores == vector[0, 0, 0], 2);
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100)]
+    #[expected_failure(abort_code = pictionary::pictionary::EPLAYER_ALREADY_IN_TEAM)]
+    fun test_player_on_two_teams_fails(aptos_framework: &signer, creator: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        pictionary::create_game_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x200]],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+        );
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100)]
+    #[expected_failure(abort_code = pictionary::pictionary::EPLAYER_ALREADY_IN_TEAM)]
+    fun test_free_for_all_player_listed_twice_fails(aptos_framework: &signer, creator: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        pictionary::create_free_for_all_game_inner(
+            creator,
+            vector[@0x200, @0x201, @0x200],
+            10,
+            500,
+            500,
+            30,
+            vector[],
+        );
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100)]
+    #[expected_failure(abort_code = pictionary::pictionary::ENOT_ENOUGH_PLAYERS)]
+    fun test_free_for_all_game_with_one_player_fails(aptos_framework: &signer, creator: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        pictionary::create_free_for_all_game_inner(
+            creator,
+            vector[@0x200],
+            10,
+            500,
+            500,
+            30,
+            vector[],
+        );
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100)]
+    #[expected_failure(abort_code = pictionary::pictionary::EINVALID_SCORING_MODE)]
+    fun test_invalid_scoring_mode_fails(aptos_framework: &signer, creator: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        pictionary::create_open_game(
+            creator,
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            10,
+            500,
+            500,
+            30,
+            vector[],
+            1,
+            vector[],
+            vector[],
+            false,
+            2,
+        );
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player3 = @0x300)]
+    #[expected_failure(abort_code = pictionary::pictionary::ENOT_ARTIST_TURN)]
+    fun test_other_artist_cannot_choose_word(aptos_framework: &signer, creator: &signer, player3: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_game_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x301]],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            20,
+            500,
+            500,
+            30,
+        );
+        pictionary::start_game_with_word_choice_test(
+            creator,
+            game_address,
+            vector[string::utf8(b"cat"), string::utf8(b"bicycle"), string::utf8(b"lighthouse")],
+            vector[0, 1, 2],
+        );
+
+        // Team 1's artist chooses in odd rounds only
+        pictionary::choose_word(player3, game_address, 0);
+    }
+
+    #[test(aptos_framework = @0x1, creator = @0x100, player2 = @0x201)]
+    #[expected_failure(abort_code = pictionary::pictionary::EWORD_NOT_CHOSEN)]
+    fun test_guess_before_word_chosen_fails(aptos_framework: &signer, creator: &signer, player2: &signer) {
+        timestamp::set_time_has_started_for_testing(aptos_framework);
+
+        let game_address = pictionary::create_game_inner(
+            creator,
+            vector[vector[@0x200, @0x201], vector[@0x300, @0x301]],
+            vector[string::utf8(b"Team A"), string::utf8(b"Team B")],
+            20,
+            500,
+            500,
+            30,
+        );
+        pictionary::start_game_with_word_choice_test(
+            creator,
+            game_address,
+            vector[string::utf8(b"cat"), string::utf8(b"bicycle"), string::utf8(b"lighthouse")],
+            vector[0, 1, 2],
+        );
+
+        pictionary::make_guess(player2, game_address, string::utf8(b"cat"));
+    }
+
+    // Round outcome with the points the contract gives for it, shared with the frontend's scoring tests
+    // Scoring modes and difficulties are the contract's values, 0 for classic and easy
+    struct ScoringCase has drop {
+        name: vector<u8>,
+        scoring_mode: u8,
+        difficulty: u8,
+        guess_times: vector<Option<u64>>,
+        artist: Option<u64>,
+        points: vector<u64>,
+    }
+
+    // Rounds of the scoring cases start at 0 and last 30 seconds
+    const SCORING_CASE_START_TIME: u64 = 0;
+    const SCORING_CASE_DURATION: u64 = 30;
+
+    fun scoring_cases(): vector<ScoringCase> {
+        vector[
+            ScoringCase {
+                name: b"gives the first team 2 points and later teams 1",
+                scoring_mode: 0,
+                difficulty: 0,
+                guess_times: vector[option::some(5), option::some(3), option::some(8)],
+                artist: option::none(),
+                points: vector[1, 2, 1],
+            },
+            ScoringCase {
+                name: b"gives teams that guessed in the same second as the first team the first guess points in team order",
+                scoring_mode: 0,
+                difficulty: 0,
+                guess_times: vector[option::some(4), option::some(4)],
+                artist: option::none(),
+                points: vector[2, 1],
+            },
+            ScoringCase {
+                name: b"gives nothing to teams that didn't guess",
+                scoring_mode: 0,
+                difficulty: 0,
+                guess_times: vector[option::none(), option::none()],
+                artist: option::none(),
+                points: vector[0, 0],
+            },
+            ScoringCase {
+                name: b"triples the points of hard words",
+                scoring_mode: 0,
+                difficulty: 2,
+                guess_times: vector[option::some(0), option::some(0)],
+                artist: option::none(),
+                points: vector[6, 3],
+            },
+            ScoringCase {
+                name: b"doubles the points of medium words",
+                scoring_mode: 0,
+                difficulty: 1,
+                guess_times: vector[option::some(0), option::some(1)],
+                artist: option::none(),
+                points: vector[4, 2],
+            },
+            ScoringCase {
+                name: b"adds the speed bonus in time bonus games",
+                scoring_mode: 1,
+                difficulty: 0,
+                guess_times: vector[option::some(10), option::some(20)],
+                artist: option::none(),
+                points: vector[4, 2],
+            },
+            ScoringCase {
+                name: b"gives no speed bonus in classic games",
+                scoring_mode: 0,
+                difficulty: 0,
+                guess_times: vector[option::some(10), option::some(20)],
+                artist: option::none(),
+                points: vector[2, 1],
+            },
+            ScoringCase {
+                name: b"multiplies the speed bonus by the word's difficulty",
+                scoring_mode: 1,
+                difficulty: 2,
+                guess_times: vector[option::some(0), option::none()],
+                artist: option::none(),
+                points: vector[15, 0],
+            },
+            ScoringCase {
+                name: b"gives the free-for-all artist the later guess points once anyone guessed",
+                scoring_mode: 0,
+                difficulty: 0,
+                guess_times: vector[option::none(), option::some(1), option::some(0)],
+                artist: option::some(0),
+                points: vector[1, 1, 2],
+            },
+            ScoringCase {
+                name: b"gives the free-for-all artist nothing if nobody guessed",
+                scoring_mode: 0,
+                difficulty: 0,
+                guess_times: vector[option::none(), option::none(), option::none()],
+                artist: option::some(0),
+                points: vector[0, 0, 0],
+            },
+            ScoringCase {
+                name: b"scales the free-for-all artist's points by the word's difficulty",
+                scoring_mode: 0,
+                difficulty: 2,
+                guess_times: vector[option::some(5), option::none(), option::some(7)],
+                artist: option::some(1),
+                points: vector[6, 3, 3],
+            },
+            ScoringCase {
+                name: b"gives the free-for-all artist no speed bonus",
+                scoring_mode: 1,
+                difficulty: 0,
+                guess_times: vector[option::none(), option::some(0)],
+                artist: option::some(0),
+                points: vector[1, 5],
+            },
+        ]
+    }
+
+    fun json_numbers(numbers: &vector<u64>): String {
+        let json = string::utf8(b"[");
+        let i = 0;
+        while (i < vector::length(numbers)) {
+            if (i > 0) string::append_utf8(&mut json, b",");
+            string::append(&mut json, string_utils::to_string(vector::borrow(numbers, i)));
+            i = i + 1;
+        };
+        string::append_utf8(&mut json, b"]");
+        json
+    }
+
+    fun json_optional_number(number: &Option<u64>): String {
+        if (option::is_some(number)) string_utils::to_string(option::borrow(number)) else string::utf8(b"null")
+    }
+
+    fun scoring_case_json(scoring_case: &ScoringCase): String {
+        let json = string::utf8(b"{\"name\":\"");
+        string::append_utf8(&mut json, scoring_case.name);
+        string::append_utf8(&mut json, b"\",\"scoringMode\":");
+        string::append(&mut json, string_utils::to_string(&scoring_case.scoring_mode));
+        string::append_utf8(&mut json, b",\"difficulty\":");
+        string::append(&mut json, string_utils::to_string(&scoring_case.difficulty));
+        string::append_utf8(&mut json, b",\"guessTimes\":[");
+        let i = 0;
+        while (i < vector::length(&scoring_case.guess_times)) {
+            if (i > 0) string::append_utf8(&mut json, b",");
+            string::append(&mut json, json_optional_number(vector::borrow(&scoring_case.guess_times, i)));
+            i = i + 1;
+        };
+        string::append_utf8(&mut json, b"],\"artist\":");
+        string::append(&mut json, json_optional_number(&scoring_case.artist));
+        string::append_utf8(&mut json, b",\"startTime\":");
+        string::append(&mut json, string_utils::to_string(&SCORING_CASE_START_TIME));
+        string::append_utf8(&mut json, b",\"durationSeconds\":");
+        string::append(&mut json, string_utils::to_string(&SCORING_CASE_DURATION));
+        string::append_utf8(&mut json, b",\"points\":");
+        string::append(&mut json, json_numbers(&scoring_case.points));
+        string::append_utf8(&mut json, b"}");
+        json
+    }
+
+    // Scores the scoring cases and prints them as JSON for frontend/utils/scoringCases.json, which the frontend's
+    // scoring tests load to check they score rounds like the contract. Regenerate it with contract/export-scoring-cases.sh
+    #[test]
+    fun test_scoring_cases() {
+        let cases = scoring_cases();
+        let json = string::utf8(b"[");
+        let i = 0;
+        while (i < vector::length(&cases)) {
+            let scoring_case = vector::borrow(&cases, i);
+            let points = pictionary::round_points_test(
+                scoring_case.guess_times,
+                scoring_case.difficulty,
+                scoring_case.artist,
+                SCORING_CASE_START_TIME,
+                SCORING_CASE_DURATION,
+                scoring_case.scoring_mode,
+            );
+            assert!(points == scoring_case.points, i);
+
+            if (i > 0) string::append_utf8(&mut json, b",");
+            string::append(&mut json, scoring_case_json(scoring_case));
+            i = i + 1;
+        };
+        string::append_utf8(&mut json, b"]");
+        debug::print(&json);
+    }
+}
@@ -6,8 +6,9 @@ import { Header } from "@/components/Header";
 import { GameInterface } from "@/components/GameInterface";
 import { CreateGameModal } from "@/components/CreateGameModal";
 import { GoogleCallback } from "@/components/GoogleCallback";
+import { GameLobby } from "@/components/GameLobby";
 import { Button } from "@/components/ui/button";
-import { Plus } from "lucide-react";
+import { Plus, List } from "lucide-react";
 import { useAuthStore } from "@/store/auth";
 
 // Home page component
@@ -52,7 +53,7 @@ function HomePage() {
                 in artistic rivalry!
               </p>
               
-              <div className="mb-8">
+              <div className="mb-8 flex flex-col items-center gap-4">
                 <Button 
                   onClick={handleCreateGame} 
                   className="palette-button bg-studio-orange hover:bg-studio-yellow text-white font-bold px-10 py-5 text-xl flex items-center gap-4 border-0 hover:scale-105 transition-all duration-300 fun-shadow mx-auto paint-splatters"
@@ -61,6 +62,13 @@ function HomePage() {
                   <span className="font-bubbly">New Art Adventure!</span>
                   <span className="text-3xl">🎨</span>
                 </Button>
+                <Button
+                  onClick={() => navigate("/lobby")}
+                  className="palette-button bg-studio-blue hover:bg-studio-purple text-white font-bold px-6 py-3 text-lg flex items-center gap-3 border-0 hover:scale-105 transition-all duration-300"
+                >
+                  <List size={20} />
+                  <span>Find My Games</span>
+                </Button>
               </div>
               
               <div className="flex justify-center gap-4">
@@ -108,6 +116,33 @@ function HomePage() {
   );
 }
 
+// Lobby page component
+function LobbyPage() {
+  const activeAccount = useAuthStore(state => state.activeAccount);
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <Header showBackButton={true} />
+      <div className="flex-1 flex">
+        {activeAccount ? (
+          <GameLobby player={activeAccount.accountAddress} />
+        ) : (
+          <div className="flex items-center justify-center flex-col flex-1 p-8">
+            <div className="artist-card text-center p-8 max-w-xl bounce-in">
+              <h1 className="font-playful text-3xl text-studio-purple mb-4">
+                Sign In to See Your Games 🎨
+              </h1>
+              <p className="text-lg text-gray-700 leading-relaxed">
+                Sign in with your Google account to find the games you created or play in.
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // Game page component
 function GamePage() {
   const activeAccount = useAuthStore(state => state.activeAccount);
@@ -179,6 +214,7 @@ function App() {
   return (
     <Routes>
       <Route path="/" element={<HomePage />} />
+      <Route path="/lobby" element={<LobbyPage />} />
       <Route path="/auth/google/callback" element={<GoogleCallback />} />
       <Route path="/:gameAddress" element={<GamePage />} />
     </Routes>
@@ -11,11 +11,28 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Plus, Minus } from "lucide-react";
-import { buildCreateGamePayload } from "@/entry-functions/createGame";
+import { Plus, Minus, Link, User } from "lucide-react";
+import {
+  buildCreateFreeForAllGamePayload,
+  buildCreateGamePayload,
+  buildCreateOpenGamePayload,
+} from "@/entry-functions/createGame";
 import { aptos } from "@/utils/aptos";
 import { MODULE_ADDRESS } from "@/constants";
 import { useAnsPrimaryName } from "@/hooks/useAns";
+import { DEFAULT_PALETTE, MAX_PALETTE_SIZE, hexToRgb } from "@/utils/palette";
+import { DEFAULT_CLOSE_GUESS_DISTANCE, MAX_CLOSE_GUESS_DISTANCE, closeGuessDistanceLabel } from "@/utils/guess";
+import { SPEED_BONUS_POINTS, ScoringMode } from "@/utils/scoring";
+import { MAX_TEAMS, MIN_FREE_FOR_ALL_PLAYERS, MIN_TEAMS, defaultTeamName, teamColor } from "@/utils/teams";
+import {
+  DIFFICULTY_LABELS,
+  MAX_WORD_LIST_SIZE,
+  WORD_DIFFICULTIES,
+  WORD_PACKS,
+  TaggedWord,
+  parseWordList,
+  validateWordList,
+} from "@/utils/wordPacks";
 
 interface CreateGameModalProps {
   open: boolean;
@@ -23,11 +40,39 @@ interface CreateGameModalProps {
   onGameCreated: (gameAddress: AccountAddress) => void;
 }
 
+// e.g. "🟢 Easy 9 · 🟡 Medium 7 · 🔴 Hard 4", leaving out difficulties without words
+const difficultySummary = (words: TaggedWord[]) =>
+  WORD_DIFFICULTIES.map(difficulty => [difficulty, words.filter(word => word.difficulty === difficulty).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([difficulty, count]) => `${DIFFICULTY_LABELS[difficulty]} ${count}`)
+    .join(" · ");
+
 interface PlayerInput {
   id: string;
   address: string;
 }
 
+interface TeamInput {
+  id: string;
+  name: string;
+  players: PlayerInput[];
+}
+
+// Emoji of each team in team order, matching the team colors
+const TEAM_EMOJIS = ["🔵", "🩷", "🟢", "🟠", "🟣", "🟡"];
+
+// New teams start with two empty player slots, the fewest a team can start with
+const newTeam = (team: number): TeamInput => ({
+  id: `${Date.now()}-${team}`,
+  name: defaultTeamName(team),
+  players: [
+    { id: `${Date.now()}-${team}-1`, address: "" },
+    { id: `${Date.now()}-${team}-2`, address: "" },
+  ],
+});
+
+const initialTeams = () => Array.from({ length: MIN_TEAMS }, (_, team) => newTeam(team));
+
 export function CreateGameModal({
   open,
   onClose,
@@ -35,19 +80,18 @@ export function CreateGameModal({
 }: CreateGameModalProps) {
   const account = useAuthStore(state => state.activeAccount);
   const [userDisplayName, setUserDisplayName] = useState<string>("");
-  const [team0Players, setTeam0Players] = useState<PlayerInput[]>([
-    { id: "1", address: "" },
-    { id: "2", address: "" },
-  ]);
-  const [team1Players, setTeam1Players] = useState<PlayerInput[]>([
-    { id: "3", address: "" },
-    { id: "4", address: "" },
-  ]);
-  const [team0Name, setTeam0Name] = useState("Team 1");
-  const [team1Name, setTeam1Name] = useState("Team 2");
+  const [teams, setTeams] = useState<TeamInput[]>(initialTeams);
   const [targetScore, setTargetScore] = useState("11");
   const [canvasSize, setCanvasSize] = useState("500");
   const [roundDuration, setRoundDuration] = useState("45");
+  const [customPalette, setCustomPalette] = useState<string[] | null>(null); // Hex colors, null for the default palette
+  const [inviteMode, setInviteMode] = useState(false); // Players join from an invite link instead of being listed up front
+  const [freeForAll, setFreeForAll] = useState(false); // Everyone plays for themselves, listed like the first team
+  const [closeGuessDistance, setCloseGuessDistance] = useState(DEFAULT_CLOSE_GUESS_DISTANCE);
+  const [wordPackId, setWordPackId] = useState<string | null>(WORD_PACKS[0].id); // null for a pasted word list
+  const [customWords, setCustomWords] = useState("");
+  const [wordChoice, setWordChoice] = useState(false); // Artists pick each round's word from a few candidates
+  const [scoringMode, setScoringMode] = useState<ScoringMode>("classic");
   const [isLoading, setIsLoading] = useState(false);
 
   // Use React Query to get user's ANS name with caching
@@ -79,57 +123,69 @@ export function CreateGameModal({
   useEffect(() => {
     if (open && account && userDisplayName) {
       // Always prefill the first position of team 0 with the user's address/ANS name
-      setTeam0Players(prev => [
-        { ...prev[0], address: userDisplayName },
-        ...prev.slice(1)
-      ]);
+      setTeams(prev => prev.map((team, index) =>
+        index === 0
+          ? { ...team, players: [{ ...team.players[0], address: userDisplayName }, ...team.players.slice(1)] }
+          : team
+      ));
     } else if (!open) {
       // Reset form when modal closes
-      setTeam0Players([
-        { id: "1", address: "" },
-        { id: "2", address: "" },
-      ]);
-      setTeam1Players([
-        { id: "3", address: "" },
-        { id: "4", address: "" },
-      ]);
-      setTeam0Name("Team 1");
-      setTeam1Name("Team 2");
+      setTeams(initialTeams());
       setTargetScore("11");
       setCanvasSize("500");
       setRoundDuration("45");
+      setInviteMode(false);
+      setFreeForAll(false);
+      setCloseGuessDistance(DEFAULT_CLOSE_GUESS_DISTANCE);
+      setWordPackId(WORD_PACKS[0].id);
+      setCustomWords("");
+      setWordChoice(false);
+      setScoringMode("classic");
       setUserDisplayName("");
     }
   }, [open, account, userDisplayName]);
 
-  const addPlayer = (team: 0 | 1) => {
-    const setPlayers = team === 0 ? setTeam0Players : setTeam1Players;
-    const currentPlayers = team === 0 ? team0Players : team1Players;
-    
-    setPlayers([
-      ...currentPlayers,
-      { id: `${Date.now()}`, address: "" },
-    ]);
+  const updateTeam = (team: number, update: (team: TeamInput) => TeamInput) => {
+    setTeams(teams.map((current, index) => (index === team ? update(current) : current)));
   };
 
-  const removePlayer = (team: 0 | 1, playerId: string) => {
-    const setPlayers = team === 0 ? setTeam0Players : setTeam1Players;
-    const currentPlayers = team === 0 ? team0Players : team1Players;
-    
-    if (currentPlayers.length <= 2) return; // Minimum 2 players per team
-    
-    setPlayers(currentPlayers.filter(p => p.id !== playerId));
+  const addTeam = () => {
+    if (teams.length >= MAX_TEAMS) return;
+
+    setTeams([...teams, newTeam(teams.length)]);
   };
 
-  const updatePlayerAddress = (team: 0 | 1, playerId: string, address: string) => {
-    const setPlayers = team === 0 ? setTeam0Players : setTeam1Players;
-    const currentPlayers = team === 0 ? team0Players : team1Players;
-    
-    setPlayers(
-      currentPlayers.map(p =>
+  const removeTeam = (team: number) => {
+    // The creator's team can't be removed, they're prefilled on it
+    if (teams.length <= MIN_TEAMS || team === 0) return;
+
+    setTeams(teams.filter((_, index) => index !== team));
+  };
+
+  const updateTeamName = (team: number, name: string) => {
+    updateTeam(team, current => ({ ...current, name }));
+  };
+
+  const addPlayer = (team: number) => {
+    updateTeam(team, current => ({
+      ...current,
+      players: [...current.players, { id: `${Date.now()}`, address: "" }],
+    }));
+  };
+
+  const removePlayer = (team: number, playerId: string) => {
+    if (teams[team].players.length <= 2) return; // Minimum 2 players per team
+
+    updateTeam(team, current => ({ ...current, players: current.players.filter(p => p.id !== playerId) }));
+  };
+
+  const updatePlayerAddress = (team: number, playerId: string, address: string) => {
+    updateTeam(team, current => ({
+      ...current,
+      players: current.players.map(p =>
         p.id === playerId ? { ...p, address } : p
-      )
-    );
+      ),
+    }));
   };
 
   // Helper function to resolve addresses (ANS names or regular addresses)
@@ -158,6 +214,14 @@ export function CreateGameModal({
     return trimmed;
   };
 
+  // Words of the picked pack, or the pasted words when the creator brings their own list
+  const words = wordPackId === null
+    ? parseWordList(customWords)
+    : WORD_PACKS.find(pack => pack.id === wordPackId)?.words ?? [];
+  const wordListProblem = wordPackId === null
+    ? words.length === 0 ? "Paste some words, one per line or separated by commas" : validateWordList(words)
+    : null;
+
   const handleCreateGame = async () => {
     // Validate account object thoroughly
     if (!account) {
@@ -182,53 +246,75 @@ export function CreateGameModal({
       return;
     }
 
+    if (wordListProblem) {
+      alert(wordListProblem);
+      return;
+    }
+
     setIsLoading(true);
     try {
-      // Validate that all players have addresses or ANS names
-      const team0AddressInputs = team0Players.map(p => p.address.trim()).filter(addr => addr);
-      const team1AddressInputs = team1Players.map(p => p.address.trim()).filter(addr => addr);
-
-      if (team0AddressInputs.length < 2 || team1AddressInputs.length < 2) {
-        alert("Each team must have at least 2 players with valid addresses or ANS names");
-        return;
-      }
-
-      // Resolve all addresses (including ANS names)
-      const team0Addresses: string[] = [];
-      const team1Addresses: string[] = [];
-
-      try {
-        // Resolve team 0 addresses
-        for (const addressInput of team0AddressInputs) {
-          const resolvedAddress = await resolveAddress(addressInput);
-          team0Addresses.push(resolvedAddress);
+      // Game settings shared by games with fixed teams, games players join from an invite link and free-for-all games
+      const teamNames = teams.map((team, index) => team.name.trim() || defaultTeamName(index));
+      const settings = {
+        targetScore: parseInt(targetScore),
+        canvasWidth: parseInt(canvasSize),
+        canvasHeight: parseInt(canvasSize),
+        roundDuration: parseInt(roundDuration),
+        palette: customPalette ? customPalette.map(hexToRgb) : [],
+        closeGuessDistance,
+        words,
+        wordChoice,
+        scoringMode,
+      };
+
+      let payload;
+      if (inviteMode) {
+        payload = buildCreateOpenGamePayload({ teamNames, ...settings });
+      } else {
+        // Players of free-for-all games are listed on the first team
+        const listedTeams = freeForAll ? teams.slice(0, 1) : teams;
+
+        // Validate that all players have addresses or ANS names
+        const teamAddressInputs = listedTeams.map(team => team.players.map(p => p.address.trim()).filter(addr => addr));
+
+        if (teamAddressInputs.some(inputs => inputs.length < 2)) {
+          alert(
+            freeForAll
+              ? `A free-for-all game needs at least ${MIN_FREE_FOR_ALL_PLAYERS} players with valid addresses or ANS names`
+              : "Each team must have at least 2 players with valid addresses or ANS names"
+          );
+          return;
         }
 
-        // Resolve team 1 addresses
-        for (const addressInput of team1AddressInputs) {
-          const resolvedAddress = await resolveAddress(addressInput);
-          team1Addresses.push(resolvedAddress);
+        // Resolve all addresses (including ANS names), team by team
+        const teamAddresses: string[][] = [];
+
+        try {
+          for (const addressInputs of teamAddressInputs) {
+            const addresses: string[] = [];
+            for (const addressInput of addressInputs) {
+              addresses.push(await resolveAddress(addressInput));
+            }
+            teamAddresses.push(addresses);
+          }
+        } catch (error) {
+          alert(`Address resolution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          return;
         }
-      } catch (error) {
-        alert(`Address resolution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        return;
-      }
 
-      // Convert string addresses to AccountAddress objects
-      const team0AccountAddresses = team0Addresses.map(addr => AccountAddress.from(addr));
-      const team1AccountAddresses = team1Addresses.map(addr => AccountAddress.from(addr));
+        // Build the transaction payload, converting string addresses to AccountAddress objects
+        const teamPlayers = teamAddresses.map(addresses => addresses.map(addr => AccountAddress.from(addr)));
 
-      // Build the transaction payload
-      const payload = buildCreateGamePayload({
-        team0Players: team0AccountAddresses,
-        team1Players: team1AccountAddresses,
-        team0Name: team0Name.trim() || "Team 1",
-        team1Name: team1Name.trim() || "Team 2",
-        targetScore: parseInt(targetScore),
-        canvasWidth: parseInt(canvasSize),
-        canvasHeight: parseInt(canvasSize),
-        roundDuration: parseInt(roundDuration),
-      });
+        // The contract rejects games that list a player twice, e.g. an address and the ANS name it resolves from
+        const listedPlayers = teamPlayers.flat().map(player => player.toStringLong());
+        if (new Set(listedPlayers).size !== listedPlayers.length) {
+          alert("Every player can only be listed once");
+          return;
+        }
+        payload = freeForAll
+          ? buildCreateFreeForAllGamePayload({ players: teamPlayers[0], ...settings })
+          : buildCreateGamePayload({ teamPlayers, teamNames, ...settings });
+      }
 
       // Submit transaction using keyless account
       const transaction = await aptos.transaction.build.simple({
@@ -271,28 +357,28 @@ export function CreateGameModal({
   };
 
   const renderTeamInputs = (
-    team: 0 | 1,
+    team: number,
     players: PlayerInput[],
     teamName: string
   ) => {
-    const teamColor = team === 0 ? "studio-blue" : "studio-pink";
-    const teamEmoji = team === 0 ? "🔵" : "🩷";
+    const color = teamColor(team);
+    const teamEmoji = TEAM_EMOJIS[team];
     
     return (
       <div className="artist-card p-4 space-y-4">
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
-            <div className={`w-8 h-8 bg-${teamColor} rounded-full paint-blob flex items-center justify-center`}>
+            <div className={`w-8 h-8 bg-${color} rounded-full paint-blob flex items-center justify-center`}>
               <span className="text-white font-bold">{team + 1}</span>
             </div>
-            <Label className={`font-playful text-lg text-${teamColor}`}>
-              {teamEmoji} {teamName} Artists
+            <Label className={`font-playful text-lg text-${color}`}>
+              {freeForAll ? "🎨 Players, drawing in this order" : `${teamEmoji} ${teamName} Artists`}
             </Label>
           </div>
           <Button
             type="button"
             onClick={() => addPlayer(team)}
-            className={`palette-button bg-${teamColor} hover:bg-studio-green text-white font-bold px-3 py-2 rounded-full transition-all duration-300`}
+            className={`palette-button bg-${color} hover:bg-studio-green text-white font-bold px-3 py-2 rounded-full transition-all duration-300`}
           >
             <Plus size={16} className="paint-drip" />
           </Button>
@@ -316,12 +402,12 @@ export function CreateGameModal({
                   onChange={(e) =>
                     updatePlayerAddress(team, player.id, e.target.value)
                   }
-                  className={`flex-1 rounded-full border-2 border-gray-300 px-4 py-2 font-medium focus:border-${teamColor} focus:ring-2 focus:ring-${teamColor} focus:ring-opacity-20 ${
-                    isPrefilledUser ? `bg-${teamColor}/10 border-${teamColor}/30` : ""
+                  className={`flex-1 rounded-full border-2 border-gray-300 px-4 py-2 font-medium focus:border-${color} focus:ring-2 focus:ring-${color} focus:ring-opacity-20 ${
+                    isPrefilledUser ? `bg-${color}/10 border-${color}/30` : ""
                   }`}
                 />
                 {isPrefilledUser && (
-                  <div className={`px-3 py-1 bg-${teamColor} text-white text-xs font-bold rounded-full paint-blob flex items-center gap-1`}>
+                  <div className={`px-3 py-1 bg-${color} text-white text-xs font-bold rounded-full paint-blob flex items-center gap-1`}>
                     <span>👑</span>
                     <span>You!</span>
                   </div>
@@ -377,52 +463,116 @@ export function CreateGameModal({
                 </div>
                 <h3 className="font-bubbly text-2xl text-studio-purple crayon-scribble">Assemble Your Art Teams!</h3>
               </div>
-              
-              {/* Team Name Inputs */}
-              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
-                <div className="artist-card p-4 space-y-3">
-                  <div className="flex items-center gap-3">
-                    <div className="w-8 h-8 bg-studio-blue rounded-full paint-blob flex items-center justify-center">
-                      <span className="text-white font-bold">1</span>
-                    </div>
-                    <Label htmlFor="team0Name" className="font-playful text-lg text-studio-blue">
-                      🔵 Team Name
-                    </Label>
+
+              {/* How the teams are filled */}
+              <div className="flex gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => { setInviteMode(false); setFreeForAll(false); }}
+                  className={!inviteMode && !freeForAll ? "border-studio-purple ring-2 ring-studio-purple ring-opacity-50" : ""}
+                >
+                  Add Players by Address
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => { setInviteMode(true); setFreeForAll(false); }}
+                  className={inviteMode ? "border-studio-purple ring-2 ring-studio-purple ring-opacity-50" : ""}
+                >
+                  <Link size={16} className="mr-2" />
+                  Invite with a Link
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => { setInviteMode(false); setFreeForAll(true); }}
+                  className={freeForAll ? "border-studio-purple ring-2 ring-studio-purple ring-opacity-50" : ""}
+                >
+                  <User size={16} className="mr-2" />
+                  Free-for-all
+                </Button>
+              </div>
+
+              {freeForAll ? (
+                <div className="space-y-4">
+                  <div className="artist-card p-4 text-gray-700">
+                    <p className="font-bold mb-1">Everyone plays for themselves.</p>
+                    <p className="text-sm">
+                      Players take turns drawing while all the others race to guess the word. Every player keeps their
+                      own score, the first to reach the target score wins.
+                    </p>
                   </div>
-                  <Input
-                    id="team0Name"
-                    placeholder="Enter team name..."
-                    value={team0Name}
-                    onChange={(e) => setTeam0Name(e.target.value)}
-                    className="rounded-full border-2 border-gray-300 px-4 py-2 font-medium focus:border-studio-blue focus:ring-2 focus:ring-studio-blue focus:ring-opacity-20"
-                    maxLength={30}
-                  />
+                  {renderTeamInputs(0, teams[0].players, teams[0].name)}
                 </div>
-                
-                <div className="artist-card p-4 space-y-3">
-                  <div className="flex items-center gap-3">
-                    <div className="w-8 h-8 bg-studio-pink rounded-full paint-blob flex items-center justify-center">
-                      <span className="text-white font-bold">2</span>
-                    </div>
-                    <Label htmlFor="team1Name" className="font-playful text-lg text-studio-pink">
-                      🩷 Team Name
-                    </Label>
+              ) : (
+                <>
+                  {/* Team Name Inputs */}
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+                    {teams.map((team, index) => {
+                      const color = teamColor(index);
+                      return (
+                        <div key={team.id} className="artist-card p-4 space-y-3">
+                          <div className="flex items-center gap-3">
+                            <div className={`w-8 h-8 bg-${color} rounded-full paint-blob flex items-center justify-center`}>
+                              <span className="text-white font-bold">{index + 1}</span>
+                            </div>
+                            <Label htmlFor={`team${index}Name`} className={`font-playful text-lg text-${color} flex-1`}>
+                              {TEAM_EMOJIS[index]} Team Name
+                            </Label>
+                            {index > 0 && teams.length > MIN_TEAMS && (
+                              <Button
+                                type="button"
+                                onClick={() => removeTeam(index)}
+                                title="Remove this team"
+                                className="palette-button bg-studio-red hover:bg-studio-orange text-white font-bold w-8 h-8 p-0 rounded-full transition-all duration-300"
+                              >
+                                <Minus size={14} />
+                              </Button>
+                            )}
+                          </div>
+                          <Input
+                            id={`team${index}Name`}
+                            placeholder="Enter team name..."
+                            value={team.name}
+                            onChange={(e) => updateTeamName(index, e.target.value)}
+                            className={`rounded-full border-2 border-gray-300 px-4 py-2 font-medium focus:border-${color} focus:ring-2 focus:ring-${color} focus:ring-opacity-20`}
+                            maxLength={30}
+                          />
+                        </div>
+                      );
+                    })}
                   </div>
-                  <Input
-                    id="team1Name"
-                    placeholder="Enter team name..."
-                    value={team1Name}
-                    onChange={(e) => setTeam1Name(e.target.value)}
-                    className="rounded-full border-2 border-gray-300 px-4 py-2 font-medium focus:border-studio-pink focus:ring-2 focus:ring-studio-pink focus:ring-opacity-20"
-                    maxLength={30}
-                  />
-                </div>
-              </div>
+
+                  {teams.length < MAX_TEAMS && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={addTeam}
+                      className="flex items-center gap-2"
+                    >
+                      <Plus size={16} />
+                      Add a Team ({teams.length}/{MAX_TEAMS})
+                    </Button>
+                  )}
               
-              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                {renderTeamInputs(0, team0Players, team0Name)}
-                {renderTeamInputs(1, team1Players, team1Name)}
-              </div>
+                  {inviteMode ? (
+                    <div className="artist-card p-4 text-gray-700">
+                      <p className="font-bold mb-1">You'll start out on {teams[0].name.trim() || defaultTeamName(0)}.</p>
+                      <p className="text-sm">
+                        Once the game is created, share its invite link. Friends sign in, pick a team and you lock the
+                        teams before starting the game. Each team needs at least 2 players.
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                      {teams.map((team, index) => (
+                        <div key={team.id}>{renderTeamInputs(index, team.players, team.name)}</div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
             </div>
 
             {/* Game Settings */}
@@ -489,6 +639,219 @@ export function CreateGameModal({
                   />
                 </div>
               </div>
+
+              {/* Custom Palette */}
+              <div className="mt-6 space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label className="flex items-center gap-2 font-bold text-gray-700">
+                    <span className="w-5 h-5 bg-studio-purple rounded-full paint-blob flex items-center justify-center">
+                      <span className="text-xs">🎨</span>
+                    </span>
+                    Paint Palette
+                  </Label>
+                  <Button
+                    type="button"
+                    onClick={() =>
+                      setCustomPalette(customPalette ? null : DEFAULT_PALETTE.slice(0, 11).map(color => color.hex))
+                    }
+                    className="palette-button bg-studio-purple hover:bg-studio-green text-white font-bold px-3 py-2 rounded-full transition-all duration-300"
+                  >
+                    {customPalette ? "Use Default Palette" : "Customize Palette"}
+                  </Button>
+                </div>
+
+                {customPalette ? (
+                  <div className="flex flex-wrap items-center gap-2">
+                    {customPalette.map((hex, index) => (
+                      <div key={index} className="flex items-center gap-1">
+                        <input
+                          type="color"
+                          value={hex}
+                          onChange={(e) =>
+                            setCustomPalette(customPalette.map((color, i) => (i === index ? e.target.value : color)))
+                          }
+                          className="w-9 h-9 rounded-full cursor-pointer"
+                          title={`Color ${index + 1}`}
+                        />
+                        {customPalette.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => setCustomPalette(customPalette.filter((_, i) => i !== index))}
+                            className="text-gray-500 hover:text-studio-red"
+                            title="Remove color"
+                          >
+                            <Minus size={14} />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                    {customPalette.length < MAX_PALETTE_SIZE && (
+                      <button
+                        type="button"
+                        onClick={() => setCustomPalette([...customPalette, "#000000"])}
+                        className="w-9 h-9 rounded-full border-2 border-dashed border-gray-400 flex items-center justify-center text-gray-500 hover:border-studio-purple hover:text-studio-purple"
+                        title="Add color"
+                      >
+                        <Plus size={16} />
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-600">
+                    Artists get the {DEFAULT_PALETTE.length}-color studio palette.
+                  </p>
+                )}
+              </div>
+
+              {/* Word Pack */}
+              <div className="mt-6 space-y-3">
+                <Label className="flex items-center gap-2 font-bold text-gray-700">
+                  <span className="w-5 h-5 bg-studio-green rounded-full paint-blob flex items-center justify-center">
+                    <span className="text-xs">📚</span>
+                  </span>
+                  Word Pack
+                </Label>
+                <div className="flex flex-wrap gap-2">
+                  {WORD_PACKS.map(pack => (
+                    <Button
+                      key={pack.id}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setWordPackId(pack.id)}
+                      className={wordPackId === pack.id ? "border-studio-green ring-2 ring-studio-green ring-opacity-50" : ""}
+                    >
+                      {pack.emoji} {pack.name}
+                    </Button>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setWordPackId(null)}
+                    className={wordPackId === null ? "border-studio-green ring-2 ring-studio-green ring-opacity-50" : ""}
+                  >
+                    ✍️ Custom
+                  </Button>
+                </div>
+                {wordPackId === null ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={customWords}
+                      onChange={(e) => setCustomWords(e.target.value)}
+                      placeholder={"One word per line or separated by commas, tag harder words after a colon, e.g.\nstapler, coffee machine: medium, reply all: hard"}
+                      rows={4}
+                      className="w-full rounded-2xl border-2 border-gray-300 px-4 py-2 text-sm font-medium focus:border-studio-green focus:outline-none focus:ring-2 focus:ring-studio-green focus:ring-opacity-20"
+                    />
+                    <p className={`text-sm ${wordListProblem ? "text-studio-red" : "text-gray-600"}`}>
+                      {wordListProblem ?? `${words.length} of up to ${MAX_WORD_LIST_SIZE} words: ${difficultySummary(words)}`}
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-600">
+                    {words.length > 0
+                      ? `${words.length} words to draw from: ${difficultySummary(words)}`
+                      : "Words from the studio's classic word list."}
+                  </p>
+                )}
+              </div>
+
+              {/* Word Choice */}
+              <div className="mt-6 space-y-3">
+                <Label className="flex items-center gap-2 font-bold text-gray-700">
+                  <span className="w-5 h-5 bg-studio-yellow rounded-full paint-blob flex items-center justify-center">
+                    <span className="text-xs">🃏</span>
+                  </span>
+                  Word Choice
+                </Label>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setWordChoice(false)}
+                    className={!wordChoice ? "border-studio-yellow ring-2 ring-studio-yellow ring-opacity-50" : ""}
+                  >
+                    🎲 Random word
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setWordChoice(true)}
+                    className={wordChoice ? "border-studio-yellow ring-2 ring-studio-yellow ring-opacity-50" : ""}
+                  >
+                    🃏 Artist picks
+                  </Button>
+                </div>
+                <p className="text-sm text-gray-600">
+                  {wordChoice
+                    ? "Each round the artists take turns picking an easy, medium or hard word. Harder words are worth double or triple points."
+                    : "Each round gets a random word. Medium and hard words are worth double and triple points."}
+                </p>
+              </div>
+
+              {/* Scoring */}
+              <div className="mt-6 space-y-3">
+                <Label className="flex items-center gap-2 font-bold text-gray-700">
+                  <span className="w-5 h-5 bg-studio-green rounded-full paint-blob flex items-center justify-center">
+                    <span className="text-xs">⚡</span>
+                  </span>
+                  Scoring
+                </Label>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setScoringMode("classic")}
+                    className={scoringMode === "classic" ? "border-studio-green ring-2 ring-studio-green ring-opacity-50" : ""}
+                  >
+                    🏅 Classic
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setScoringMode("time_bonus")}
+                    className={scoringMode === "time_bonus" ? "border-studio-green ring-2 ring-studio-green ring-opacity-50" : ""}
+                  >
+                    ⚡ Speed bonus
+                  </Button>
+                </div>
+                <p className="text-sm text-gray-600">
+                  {scoringMode === "time_bonus"
+                    ? `Fast guesses earn up to ${SPEED_BONUS_POINTS} bonus points, shrinking as the round's timer runs down.`
+                    : "The first team to guess gets 2 points and the second 1, however long it took."}
+                </p>
+              </div>
+
+              {/* Close Guess Hints */}
+              <div className="mt-6 space-y-3">
+                <Label className="flex items-center gap-2 font-bold text-gray-700">
+                  <span className="w-5 h-5 bg-studio-pink rounded-full paint-blob flex items-center justify-center">
+                    <span className="text-xs">🔥</span>
+                  </span>
+                  Close Guess Hints
+                </Label>
+                <div className="flex flex-wrap gap-2">
+                  {Array.from({ length: MAX_CLOSE_GUESS_DISTANCE + 1 }, (_, distance) => (
+                    <Button
+                      key={distance}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCloseGuessDistance(distance)}
+                      className={closeGuessDistance === distance ? "border-studio-pink ring-2 ring-studio-pink ring-opacity-50" : ""}
+                    >
+                      {closeGuessDistanceLabel(distance)}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-sm text-gray-600">
+                  Guessers hear when they're this close to the word, without seeing the word itself.
+                </p>
+              </div>
             </div>
 
             {/* Action Buttons */}
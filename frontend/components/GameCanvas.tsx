@@ -1,10 +1,40 @@
 import { useRef, useEffect, useState, useCallback } from "react";
 import { Button } from "@/components/ui/button";
-import { Palette, /* Eraser, */ Clock } from "lucide-react";
-import { CanvasDelta } from "@/utils/surf";
-import { getCanvas } from "@/view-functions/gameView";
+import {
+  Palette,
+  Eraser,
+  Trash2,
+  Undo2,
+  Redo2,
+  Clock,
+  CloudOff,
+  Paintbrush,
+  Slash,
+  Square,
+  Circle,
+  PaintBucket,
+} from "lucide-react";
+import { Canvas, CanvasDelta } from "@/utils/surf";
+import { GameEvent, GameEventSource } from "@/utils/gameEvents";
+import { useGameEvents } from "@/hooks/useGameEvents";
+import { createSubmissionQueue, SubmissionQueue, SubmissionQueueStatus } from "@/utils/submissionQueue";
+import {
+  Stroke,
+  StrokePoint,
+  clampBrushSize,
+  countCommonStrokes,
+  decodeCanvas,
+  encodeClearCanvas,
+  encodeStroke,
+  encodeUndoStroke,
+  toStrokePoint,
+} from "@/utils/strokes";
+import { getCanvas, getCanvasLength } from "@/view-functions/gameView";
 import { aptos } from "@/utils/aptos";
 import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { Palette as ColorPalette, getPaletteHex, hexToRgb } from "@/utils/palette";
+import { BACKGROUND_COLOR, renderStroke } from "@/utils/canvasRender";
+import { ellipseStroke, floodFillSpans, lineStroke, rectangleStroke } from "@/utils/shapes";
 
 interface GameCanvasProps {
   gameAddress: string;
@@ -12,59 +42,153 @@ interface GameCanvasProps {
   height: number;
   canDraw: boolean;
   userTeam: number | null;
+  // Team whose canvas is shown, the user's team or the team a spectator watches
+  team: number | null;
   currentRound: number;
   gameStarted: boolean;
   roundFinished: boolean;
-  onCanvasUpdate?: (deltas: CanvasDelta[]) => Promise<void>;
+  palette: ColorPalette;
+  eventSource: GameEventSource;
+  // Submits deltas that have to start at the given sequence of the artist's canvas log
+  onCanvasUpdate?: (deltas: CanvasDelta[], firstSequence: number) => Promise<void>;
 }
 
-const COLORS = [
-  { name: "Black", value: 0, hex: "#000000" },
-  { name: "White", value: 1, hex: "#FFFFFF" },
-  { name: "Red", value: 2, hex: "#FF0000" },
-  { name: "Green", value: 3, hex: "#00FF00" },
-  { name: "Blue", value: 4, hex: "#0000FF" },
-  { name: "Yellow", value: 5, hex: "#FFFF00" },
-  { name: "Orange", value: 6, hex: "#FFA500" },
-  { name: "Purple", value: 7, hex: "#800080" },
-  { name: "Pink", value: 8, hex: "#FFC0CB" },
-  { name: "Brown", value: 9, hex: "#A52A2A" },
-  { name: "Gray", value: 10, hex: "#808080" },
-];
-
 const AUTO_SAVE_INTERVAL_SECS = 3;
 
+// Guessers follow the artist through canvas events, reloading now and then in case an event was missed
+const FALLBACK_RELOAD_INTERVAL_SECS = 15;
+
+// A visible stroke in the artist's undo history
+interface HistoryEntry {
+  stroke: Stroke;
+  // Index of the stroke's first delta in the pending deltas, -1 if it was loaded from the chain
+  deltaStart: number;
+}
+
+type ShapeTool = "line" | "rectangle" | "ellipse";
+type DrawingTool = "brush" | ShapeTool | "fill";
+
+// Shapes are drawn by dragging from one point to another and rasterized into regular strokes
+const SHAPE_BUILDERS: Record<ShapeTool, (start: StrokePoint, end: StrokePoint) => StrokePoint[]> = {
+  line: lineStroke,
+  rectangle: rectangleStroke,
+  ellipse: ellipseStroke,
+};
+
+const DRAWING_TOOLS: { tool: DrawingTool; label: string; Icon: typeof Paintbrush }[] = [
+  { tool: "brush", label: "Brush", Icon: Paintbrush },
+  { tool: "line", label: "Line", Icon: Slash },
+  { tool: "rectangle", label: "Rectangle", Icon: Square },
+  { tool: "ellipse", label: "Ellipse", Icon: Circle },
+  { tool: "fill", label: "Fill", Icon: PaintBucket },
+];
+
 export function GameCanvas({
   gameAddress,
   width,
   height,
   canDraw,
   userTeam,
+  team,
   currentRound,
   gameStarted,
   roundFinished,
+  palette,
+  eventSource,
   onCanvasUpdate,
 }: GameCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [selectedColor, setSelectedColor] = useState(0); // Black by default
   const [brushSize, setBrushSize] = useState(5);
-  const [pendingDeltas, setPendingDeltas] = useState<CanvasDelta[]>([]);
+  const [isErasing, setIsErasing] = useState(false);
+  const [tool, setTool] = useState<DrawingTool>("brush");
   const [showColorPalette, setShowColorPalette] = useState(false);
   const [countdown, setCountdown] = useState(AUTO_SAVE_INTERVAL_SECS); // Countdown to next submission
-  const [isSubmitting, setIsSubmitting] = useState(false); // Track submission state
+  const [queueStatus, setQueueStatus] = useState<SubmissionQueueStatus | null>(null); // Status of the submission queue
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
   
   const autoSubmitIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const countdownIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const lastSubmittedIndexRef = useRef<number>(0); // Track how many deltas we've submitted
-  const pendingDeltasRef = useRef<CanvasDelta[]>([]); // Ref to access current deltas in interval
+  const submissionQueueRef = useRef<SubmissionQueue | null>(null); // Deltas waiting to be submitted for this round
+  const onCanvasUpdateRef = useRef(onCanvasUpdate); // Latest callback for the submission queue
+  onCanvasUpdateRef.current = onCanvasUpdate;
+  const currentStrokeRef = useRef<Stroke | null>(null); // Stroke being drawn, encoded once it is finished
+  const activePointerRef = useRef<{ pointerId: number; pointerType: string } | null>(null); // Pointer drawing the current stroke
+  const shapeRef = useRef<{ tool: ShapeTool; start: StrokePoint; snapshot: ImageData } | null>(null); // Shape being dragged out
+  const historyRef = useRef<HistoryEntry[]>([]); // Visible strokes, most recent last
+  const redoStackRef = useRef<Stroke[]>([]); // Undone strokes, most recently undone last
+  const [historySize, setHistorySize] = useState(0);
+  const [redoSize, setRedoSize] = useState(0);
+  const canvasDataRef = useRef<Canvas>({}); // Last known canvas delta log for the current round and team
+  const canvasKeyRef = useRef<string | null>(null); // Round and team the canvas delta log belongs to
+  const bufferRef = useRef<HTMLCanvasElement | null>(null); // Offscreen copy of the canvas delta log, painted incrementally
+  const paintedStrokesRef = useRef<Stroke[]>([]); // Strokes currently painted on the offscreen buffer
+
+  // Queue deltas for submission, returns their index in the queue's log (-1 if there is no queue)
+  const queueDeltas = useCallback((deltas: CanvasDelta[]): number => {
+    return submissionQueueRef.current?.push(deltas) ?? -1;
+  }, []);
+
+  // Replace the undo history, e.g. after loading the canvas or clearing it
+  const resetHistory = useCallback((strokes: Stroke[]) => {
+    historyRef.current = strokes.map(stroke => ({ stroke, deltaStart: -1 }));
+    redoStackRef.current = [];
+    setHistorySize(historyRef.current.length);
+    setRedoSize(0);
+  }, []);
+
+  // Get the offscreen buffer, starting a blank one if the canvas size changed
+  const getBuffer = useCallback((): HTMLCanvasElement => {
+    let buffer = bufferRef.current;
+    if (!buffer || buffer.width !== width || buffer.height !== height) {
+      buffer = document.createElement("canvas");
+      buffer.width = width;
+      buffer.height = height;
+      bufferRef.current = buffer;
+      paintedStrokesRef.current = [];
+
+      const bufferCtx = buffer.getContext("2d");
+      if (bufferCtx) {
+        bufferCtx.fillStyle = BACKGROUND_COLOR;
+        bufferCtx.fillRect(0, 0, width, height);
+      }
+    }
+    return buffer;
+  }, [width, height]);
+
+  // Bring the canvas up to date with the last known canvas delta log, returns the visible strokes
+  // Only strokes that weren't painted yet are drawn, on an offscreen buffer that is then copied over in one go
+  const paintCanvas = useCallback((unsyncedDeltas: CanvasDelta[] = []): Stroke[] => {
+    const ctx = canvasRef.current?.getContext("2d");
+    const buffer = getBuffer();
+    const bufferCtx = buffer.getContext("2d");
+    if (!ctx || !bufferCtx) return [];
+
+    const strokes = decodeCanvas(canvasDataRef.current, unsyncedDeltas);
+    const painted = paintedStrokesRef.current;
+    const commonCount = countCommonStrokes(painted, strokes);
+
+    if (commonCount < painted.length) {
+      // Painted strokes were undone or cleared, so start over from a blank buffer
+      bufferCtx.fillStyle = BACKGROUND_COLOR;
+      bufferCtx.fillRect(0, 0, width, height);
+      strokes.forEach(stroke => renderStroke(bufferCtx, stroke, palette));
+    } else {
+      strokes.slice(commonCount).forEach(stroke => renderStroke(bufferCtx, stroke, palette));
+    }
+    paintedStrokesRef.current = strokes;
 
+    // Always copy the buffer, the artist may have drawn on the canvas directly since it was last painted
+    ctx.drawImage(buffer, 0, 0);
 
+    return strokes;
+  }, [width, height, palette, getBuffer]);
 
   // Load canvas data from blockchain
   const loadCanvasData = useCallback(async () => {
     // Early return conditions
-    if (userTeam === null || !gameStarted || currentRound <= 0) {
+    if (team === null || !gameStarted || currentRound <= 0) {
       return;
     }
 
@@ -83,38 +207,29 @@ export function GameCanvas({
         aptos,
         AccountAddress.fromString(gameAddress),
         roundIndex,
-        userTeam
+        team
       );
 
-      // Clear canvas with white background first
-      ctx.fillStyle = "#FFFFFF";
-      ctx.fillRect(0, 0, width, height);
+      // Keep deltas that arrived through events but aren't visible to the view yet
+      const canvasKey = `${roundIndex}:${team}`;
+      if (canvasKeyRef.current !== canvasKey) {
+        canvasKeyRef.current = canvasKey;
+        canvasDataRef.current = {};
+      }
+      canvasDataRef.current = { ...canvasDataRef.current, ...canvasData };
 
-      // Draw existing pixels
-      Object.entries(canvasData).forEach(([position, colorValue]) => {
-        const pos = parseInt(position);
-        
-        // Convert from scaled coordinate system back to canvas coordinates
-        // The position was stored as: scaledY * 256 + scaledX where scaled coords are 0-255
-        const scaledX = pos % 256;
-        const scaledY = Math.floor(pos / 256);
-        
-        // Convert back to actual canvas coordinates
-        const x = Math.floor((scaledX / 255) * width);
-        const y = Math.floor((scaledY / 255) * height);
-        
+      // The artist's strokes that didn't make it on chain before (e.g. while offline) are drawn on top, except for
+      // those that landed after all (e.g. when the page was reloaded while waiting for their transaction)
+      if (canDraw) {
+        submissionQueueRef.current?.reconcile(Object.keys(canvasData).length);
+      }
+      const unsyncedDeltas = canDraw ? submissionQueueRef.current?.getUnsyncedDeltas() ?? [] : [];
+      const strokes = paintCanvas(unsyncedDeltas);
 
-        
-        const color = COLORS.find(c => c.value === colorValue);
-        
-        if (color && x >= 0 && x < width && y >= 0 && y < height) {
-          ctx.fillStyle = color.hex;
-          // Draw with the same brush size as used during drawing
-          ctx.beginPath();
-          ctx.arc(x, y, brushSize / 2, 0, 2 * Math.PI);
-          ctx.fill();
-        }
-      });
+      // Strokes already on chain can be undone by the artist too
+      if (canDraw) {
+        resetHistory(strokes);
+      }
 
     } catch (error) {
       console.error("Failed to load canvas data:", error);
@@ -129,10 +244,10 @@ export function GameCanvas({
       
       // Continue without loading - don't break the app
       // Clear the canvas if we can't load data
-      ctx.fillStyle = "#FFFFFF";
+      ctx.fillStyle = BACKGROUND_COLOR;
       ctx.fillRect(0, 0, width, height);
     }
-  }, [width, height, gameAddress, gameStarted, userTeam, currentRound, canDraw, brushSize]);
+  }, [width, height, gameAddress, gameStarted, team, currentRound, canDraw, resetHistory, paintCanvas]);
 
   // Initialize canvas and load existing data
   useEffect(() => {
@@ -147,36 +262,71 @@ export function GameCanvas({
     canvas.height = height;
 
     // Clear canvas with white background
-    ctx.fillStyle = "#FFFFFF";
+    ctx.fillStyle = BACKGROUND_COLOR;
     ctx.fillRect(0, 0, width, height);
 
     // Load initial canvas data
     loadCanvasData();
-  }, [width, height, gameAddress, gameStarted, userTeam, currentRound, loadCanvasData]);
+  }, [width, height, gameAddress, gameStarted, team, currentRound, loadCanvasData]);
+
+  // Apply the artist's canvas updates as they arrive (only for guessers, artists already have their own strokes)
+  useGameEvents(eventSource, (event: GameEvent) => {
+    if (event.type !== "CanvasUpdated" || canDraw || team === null) return;
+
+    const canvasKey = `${event.roundNumber}:${event.team}`;
+    if (canvasKey !== canvasKeyRef.current) return;
+
+    // Deltas are keyed by their sequence in the log, so events overlapping a reload are applied only once
+    const canvasData = { ...canvasDataRef.current };
+    event.deltas.forEach((delta, i) => {
+      canvasData[event.firstSequence + i] = delta;
+    });
+    canvasDataRef.current = canvasData;
+
+    paintCanvas();
+  });
+
+  // Track connectivity so unsynced strokes are submitted as soon as the connection returns
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      submissionQueueRef.current?.flush();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
 
-  // Periodic canvas reloading for real-time updates (only for guessers, not artists)
+  // Periodic canvas reloading as a fallback for missed events (only for guessers, not artists)
   useEffect(() => {
     // Only refresh periodically for guessers, not for artists who are actively drawing
     // Also stop refreshing if the round is finished
-    if (!gameStarted || userTeam === null || canDraw || roundFinished) return;
+    if (!gameStarted || team === null || canDraw || roundFinished) return;
 
-    // Set up interval to reload canvas data every 2 seconds to show artist's progress
     const reloadInterval = setInterval(() => {
       loadCanvasData();
-    }, 2000);
+    }, FALLBACK_RELOAD_INTERVAL_SECS * 1000);
 
     return () => {
       clearInterval(reloadInterval);
     };
-  }, [gameStarted, userTeam, canDraw, roundFinished, loadCanvasData]);
+  }, [gameStarted, team, canDraw, roundFinished, loadCanvasData]);
 
-  // Convert mouse position to canvas position
+  // Convert pointer position to canvas position
+  // The canvas is scaled down to fit responsive layouts, so map from its displayed size back to its pixel size
   const getCanvasPosition = useCallback(
-    (e: MouseEvent | React.MouseEvent): { x: number; y: number } => {
+    (e: PointerEvent | React.PointerEvent): { x: number; y: number } => {
       const canvas = canvasRef.current;
       if (!canvas) return { x: 0, y: 0 };
 
       const rect = canvas.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) return { x: 0, y: 0 };
+
       const scaleX = canvas.width / rect.width;
       const scaleY = canvas.height / rect.height;
 
@@ -188,129 +338,290 @@ export function GameCanvas({
     []
   );
 
-  // Convert 2D position to 1D array position
-  // Use smaller coordinate system to fit in u16 (0-65535)
-  const positionToIndex = (x: number, y: number): number => {
-    // Scale down coordinates to fit in u16 range
-    const scaledX = Math.floor((x / width) * 255);  // Scale to 0-255
-    const scaledY = Math.floor((y / height) * 255); // Scale to 0-255
-    return scaledY * 256 + scaledX; // Max value: 255 * 256 + 255 = 65535
+  // Convert a pointer event to a stroke point, scaling the brush by stylus pressure
+  const getStrokePoint = (e: React.PointerEvent): StrokePoint => {
+    const { x, y } = getCanvasPosition(e);
+    const point = toStrokePoint(x, y, width, height);
+
+    // Mice and fingers report a constant pressure, only styluses are pressure sensitive.
+    // A pressure of 0.5 is the default for a stylus, so it maps to the selected brush size.
+    if (e.pointerType === "pen" && e.pressure > 0) {
+      point.size = clampBrushSize(brushSize * e.pressure * 2);
+    }
+
+    return point;
   };
 
-  // Draw on canvas and create delta
-  const drawPixel = useCallback(
-    (x: number, y: number, colorIndex: number) => {
-      const canvas = canvasRef.current;
-      if (!canvas) return;
+  // Extend the current stroke to a new point and draw the new segment
+  const extendStroke = useCallback(
+    (point: StrokePoint) => {
+      const stroke = currentStrokeRef.current;
+      if (!stroke) return;
 
-      const ctx = canvas.getContext("2d");
-      if (!ctx) return;
+      const lastPoint = stroke.points[stroke.points.length - 1];
+      // Skip samples that land in the same pixel as the previous point
+      if (lastPoint && lastPoint.x === point.x && lastPoint.y === point.y) return;
 
-      const color = COLORS[colorIndex] || COLORS[0];
-      ctx.fillStyle = color.hex;
+      stroke.points.push(point);
 
-      // Draw a circle for smoother lines
-      ctx.beginPath();
-      ctx.arc(x, y, brushSize / 2, 0, 2 * Math.PI);
-      ctx.fill();
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext("2d");
+      if (!ctx) return;
 
-      // Add to pending deltas
-      const position = positionToIndex(x, y);
-      const newDelta = { position, color: colorIndex };
-      
+      // Render from the stored points so the artist sees exactly what guessers will see
+      renderStroke(ctx, { ...stroke, points: lastPoint ? [lastPoint, point] : [point] }, palette);
+    },
+    [palette]
+  );
 
-      
-      setPendingDeltas(prev => [...prev, newDelta]);
+  // Preview the shape being dragged out, replacing the previous preview
+  const previewShape = useCallback(
+    (end: StrokePoint) => {
+      const stroke = currentStrokeRef.current;
+      const shape = shapeRef.current;
+      const ctx = canvasRef.current?.getContext("2d");
+      if (!stroke || !shape || !ctx) return;
+
+      stroke.points = SHAPE_BUILDERS[shape.tool](shape.start, end);
+      ctx.putImageData(shape.snapshot, 0, 0);
+      renderStroke(ctx, stroke, palette);
     },
-    [brushSize, width, height]
+    [palette]
   );
 
-  // Handle mouse events
-  const handleMouseDown = (e: React.MouseEvent) => {
+  // Finish the current stroke and queue its encoded deltas for submission
+  const finishStroke = useCallback(() => {
+    const stroke = currentStrokeRef.current;
+    currentStrokeRef.current = null;
+    shapeRef.current = null;
+    if (!stroke || stroke.points.length === 0) return;
+
+    const deltaStart = queueDeltas(encodeStroke(stroke));
+    historyRef.current.push({ stroke, deltaStart });
+    redoStackRef.current = [];
+    setHistorySize(historyRef.current.length);
+    setRedoSize(0);
+  }, [queueDeltas]);
+
+  // Handle pointer events (mouse, touch and stylus)
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!canDraw || (e.pointerType === "mouse" && e.button !== 0)) return;
+
+    const activePointer = activePointerRef.current;
+    if (activePointer) {
+      // A stylus touching down while a touch stroke is in progress means the touch was the artist's palm
+      if (e.pointerType === "pen" && activePointer.pointerType === "touch") {
+        discardStroke();
+      } else {
+        // Ignore any further fingers (pinches, resting palms) while a stroke is being drawn
+        return;
+      }
+    }
+
+    e.preventDefault();
 
-    if (!canDraw) return;
+    if (tool === "fill") {
+      fillArea(getShapePoint(e));
+      return;
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    activePointerRef.current = { pointerId: e.pointerId, pointerType: e.pointerType };
 
     setIsDrawing(true);
-    const { x, y } = getCanvasPosition(e);
+    currentStrokeRef.current = { color: selectedColor, brushSize, points: [], erase: isErasing };
+
+    const ctx = canvasRef.current?.getContext("2d");
+    if (tool !== "brush" && ctx) {
+      // Keep what's on the canvas so every preview can be drawn over it from scratch
+      const start = getShapePoint(e);
+      shapeRef.current = { tool, start, snapshot: ctx.getImageData(0, 0, width, height) };
+      previewShape(start);
+    } else {
+      extendStroke(getStrokePoint(e));
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing || !canDraw || activePointerRef.current?.pointerId !== e.pointerId) return;
 
-    drawPixel(x, y, selectedColor);
+    e.preventDefault();
+    if (shapeRef.current) {
+      previewShape(getShapePoint(e));
+    } else {
+      extendStroke(getStrokePoint(e));
+    }
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDrawing || !canDraw) return;
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (activePointerRef.current?.pointerId !== e.pointerId) return;
 
+    activePointerRef.current = null;
+    setIsDrawing(false);
+    finishStroke();
+  };
+
+  // Convert a pointer event to a point for shapes and fills, which are drawn at the selected brush size
+  const getShapePoint = (e: React.PointerEvent): StrokePoint => {
     const { x, y } = getCanvasPosition(e);
-    drawPixel(x, y, selectedColor);
+    return toStrokePoint(x, y, width, height);
+  };
+
+  // Flood fill the area around a point with the selected color and queue it as a fill stroke
+  const fillArea = (point: StrokePoint) => {
+    finishStroke();
+
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+
+    const fillHex = isErasing ? BACKGROUND_COLOR : getPaletteHex(palette, selectedColor);
+    const points = floodFillSpans(ctx.getImageData(0, 0, width, height), point, hexToRgb(fillHex));
+    if (points.length === 0) return;
+
+    currentStrokeRef.current = { color: selectedColor, brushSize, points, erase: isErasing, fill: true };
+    renderStroke(ctx, currentStrokeRef.current, palette);
+    finishStroke();
   };
 
-  const handleMouseUp = () => {
+  // Drop the stroke in progress without queueing it, e.g. when it turned out to be a palm
+  const discardStroke = () => {
+    currentStrokeRef.current = null;
+    shapeRef.current = null;
+    activePointerRef.current = null;
     setIsDrawing(false);
+    redrawCanvas();
+  };
+
+  // Wipe the canvas locally and queue a clear marker so guessers see it wiped too
+  const clearCanvas = () => {
+    finishStroke();
+
+    const ctx = canvasRef.current?.getContext("2d");
+    if (ctx) {
+      ctx.fillStyle = BACKGROUND_COLOR;
+      ctx.fillRect(0, 0, width, height);
+    }
+
+    resetHistory([]);
+    queueDeltas(encodeClearCanvas());
   };
 
+  // Repaint the canvas from the strokes in the undo history
+  const redrawCanvas = useCallback(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+
+    ctx.fillStyle = BACKGROUND_COLOR;
+    ctx.fillRect(0, 0, width, height);
+    historyRef.current.forEach(entry => renderStroke(ctx, entry.stroke, palette));
+  }, [width, height, palette]);
+
+  // Undo the most recent stroke, dropping its deltas if they haven't been sent yet
+  const undoStroke = useCallback(() => {
+    if (currentStrokeRef.current) return;
+
+    const entry = historyRef.current.pop();
+    if (!entry) return;
+
+    redoStackRef.current.push(entry.stroke);
+    setHistorySize(historyRef.current.length);
+    setRedoSize(redoStackRef.current.length);
+
+    // Deltas that are submitted or in flight can't be taken back, so retract the stroke on chain instead
+    if (!submissionQueueRef.current?.retract(entry.deltaStart)) {
+      queueDeltas(encodeUndoStroke(entry.stroke));
+    }
+
+    redrawCanvas();
+  }, [redrawCanvas, queueDeltas]);
+
+  // Redo the most recently undone stroke by drawing it again
+  const redoStroke = useCallback(() => {
+    if (currentStrokeRef.current) return;
+
+    const stroke = redoStackRef.current.pop();
+    if (!stroke) return;
 
+    const deltaStart = queueDeltas(encodeStroke(stroke));
+    historyRef.current.push({ stroke, deltaStart });
+    setHistorySize(historyRef.current.length);
+    setRedoSize(redoStackRef.current.length);
+
+    const ctx = canvasRef.current?.getContext("2d");
+    if (ctx) {
+      renderStroke(ctx, stroke, palette);
+    }
+  }, [palette, queueDeltas]);
 
-  // Simple 5-second interval for submitting deltas with countdown
+  // Keyboard shortcuts for undo (Ctrl+Z) and redo (Ctrl+Shift+Z)
   useEffect(() => {
-    console.log(`Canvas auto-submit effect: canDraw=${canDraw}, roundFinished=${roundFinished}`);
-    if (canDraw && !roundFinished) {
-      // Reset countdown and start intervals
-      setCountdown(AUTO_SAVE_INTERVAL_SECS);
-      
-      // Start countdown interval (1 second)
-      countdownIntervalRef.current = setInterval(() => {
-        setCountdown(prev => {
-          if (prev <= 1) {
-            return AUTO_SAVE_INTERVAL_SECS; // Reset to 5 when it reaches 0
-          }
-          return prev - 1;
-        });
-      }, 1000);
-
-      // Start auto-submit interval (AUTO_SAVE_INTERVAL_SECS seconds)
-      console.log('Starting auto-submit interval for canvas');
-      autoSubmitIntervalRef.current = setInterval(async () => {
-        const currentDeltas = [...pendingDeltasRef.current]; // Use ref to get current state
-        const newDeltasCount = currentDeltas.length - lastSubmittedIndexRef.current;
-        
-        console.log(`Auto-submit check: ${currentDeltas.length} total deltas, ${lastSubmittedIndexRef.current} already submitted, ${newDeltasCount} new`);
-        
-        if (newDeltasCount <= 0) return;
-
-        // Get only the new deltas since last submission
-        const newDeltas = currentDeltas.slice(lastSubmittedIndexRef.current);
-
-        try {
-          setIsSubmitting(true);
-          if (onCanvasUpdate) {
-            await onCanvasUpdate(newDeltas);
-            // Update the index of successfully submitted deltas
-            lastSubmittedIndexRef.current = currentDeltas.length;
-            console.log(`Submitted ${newDeltas.length} new canvas deltas`);
-          } else {
-            console.warn("onCanvasUpdate callback not provided");
-          }
-        } catch (error) {
-          console.error("Failed to submit new deltas:", error);
-          // Don't update lastSubmittedIndexRef on failure - will retry next interval
-        } finally {
-          setIsSubmitting(false);
-        }
-      }, AUTO_SAVE_INTERVAL_SECS * 1000);
-    } else {
-      // Clear intervals when can't draw or round is finished
-      if (autoSubmitIntervalRef.current) {
-        console.log('Clearing auto-submit interval for canvas');
-        clearInterval(autoSubmitIntervalRef.current);
-        autoSubmitIntervalRef.current = null;
-      }
-      if (countdownIntervalRef.current) {
-        clearInterval(countdownIntervalRef.current);
-        countdownIntervalRef.current = null;
+    if (!canDraw || roundFinished) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+
+      // Leave text inputs to their native undo
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA")) return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redoStroke();
+      } else {
+        undoStroke();
       }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [canDraw, roundFinished, undoStroke, redoStroke]);
+
+
+
+  // Submit queued deltas every AUTO_SAVE_INTERVAL_SECS seconds with countdown
+  useEffect(() => {
+    if (!canDraw || roundFinished) {
       setCountdown(AUTO_SAVE_INTERVAL_SECS);
-      setIsSubmitting(false);
+      setQueueStatus(null);
+      return;
     }
 
+    // Each round gets its own queue, deltas left over from an earlier round can't be submitted anymore.
+    // Unsynced deltas are kept per round and team, so a reload picks up where the artist left off.
+    const queue = createSubmissionQueue({
+      storageKey: `pictionary:unsynced-deltas:${gameAddress}:${currentRound}:${userTeam}`,
+      submit: async (deltas, firstSequence) => {
+        if (!onCanvasUpdateRef.current) {
+          console.warn("onCanvasUpdate callback not provided");
+          return;
+        }
+        await onCanvasUpdateRef.current(deltas, firstSequence);
+      },
+      fetchSequence: () =>
+        getCanvasLength(aptos, AccountAddress.fromString(gameAddress), Math.max(0, currentRound - 1), userTeam ?? 0),
+      onStatusChange: setQueueStatus,
+    });
+    submissionQueueRef.current = queue;
+    setQueueStatus(queue.getStatus());
+
+    // Reset countdown and start intervals
+    setCountdown(AUTO_SAVE_INTERVAL_SECS);
+
+    // Start countdown interval (1 second)
+    countdownIntervalRef.current = setInterval(() => {
+      setCountdown(prev => {
+        if (prev <= 1) {
+          return AUTO_SAVE_INTERVAL_SECS; // Reset when it reaches 0
+        }
+        return prev - 1;
+      });
+    }, 1000);
+
+    // Start auto-submit interval (AUTO_SAVE_INTERVAL_SECS seconds)
+    autoSubmitIntervalRef.current = setInterval(() => {
+      queue.flush();
+    }, AUTO_SAVE_INTERVAL_SECS * 1000);
+
     // Cleanup on effect re-run or unmount
     return () => {
       if (autoSubmitIntervalRef.current) {
@@ -321,19 +632,19 @@ export function GameCanvas({
         clearInterval(countdownIntervalRef.current);
         countdownIntervalRef.current = null;
       }
+      queue.dispose();
+      if (submissionQueueRef.current === queue) {
+        submissionQueueRef.current = null;
+      }
     };
-  }, [canDraw, roundFinished]);
-
-  // Keep ref in sync with state and reset submission tracking when deltas are cleared
-  useEffect(() => {
-    pendingDeltasRef.current = pendingDeltas;
-    if (pendingDeltas.length === 0) {
-      lastSubmittedIndexRef.current = 0;
-    }
-  }, [pendingDeltas]);
+  }, [canDraw, roundFinished, gameAddress, currentRound, userTeam]);
 
+  const isSubmitting = (queueStatus?.inFlight ?? 0) > 0;
+  // Deltas that aren't confirmed on chain, shown as unsynced when they are stuck
+  const unsyncedCount = (queueStatus?.pending ?? 0) + (queueStatus?.inFlight ?? 0);
+  const showUnsynced = canDraw && unsyncedCount > 0 && (!isOnline || !!queueStatus?.lastError);
   // Calculate pending changes count for display
-  const pendingChangesCount = Math.max(0, pendingDeltas.length - lastSubmittedIndexRef.current);
+  const pendingChangesCount = queueStatus?.pending ?? 0;
 
   return (
     <div className="flex flex-col items-center space-y-6">
@@ -342,11 +653,17 @@ export function GameCanvas({
         <canvas
           ref={canvasRef}
           className={`block ${canDraw ? "cursor-crosshair" : "cursor-default"}`}
-          style={{ maxWidth: "100%", maxHeight: "60vh", pointerEvents: canDraw ? "auto" : "none" }}
-          onMouseDown={canDraw ? handleMouseDown : undefined}
-          onMouseMove={canDraw ? handleMouseMove : undefined}
-          onMouseUp={canDraw ? handleMouseUp : undefined}
-          onMouseLeave={canDraw ? () => setIsDrawing(false) : undefined}
+          style={{
+            maxWidth: "100%",
+            maxHeight: "60vh",
+            pointerEvents: canDraw ? "auto" : "none",
+            // Keep touches on the canvas from scrolling or zooming the page while drawing
+            touchAction: canDraw ? "none" : "auto",
+          }}
+          onPointerDown={canDraw ? handlePointerDown : undefined}
+          onPointerMove={canDraw ? handlePointerMove : undefined}
+          onPointerUp={canDraw ? handlePointerUp : undefined}
+          onPointerCancel={canDraw ? handlePointerUp : undefined}
         />
         
         {!canDraw && userTeam !== null && gameStarted && !roundFinished && (
@@ -357,7 +674,18 @@ export function GameCanvas({
           </div>
         )}
         
-        {!canDraw && userTeam === null && (
+        {showUnsynced && (
+          <div className="absolute top-4 right-4 artist-card px-4 py-2 paint-splatter">
+            <p className="text-sm font-bold text-studio-red flex items-center gap-2">
+              <CloudOff size={16} />
+              <span>
+                {unsyncedCount} unsynced changes, {isOnline ? "retrying" : "will sync when back online"}
+              </span>
+            </p>
+          </div>
+        )}
+
+        {!canDraw && team === null && (
           <div className="absolute inset-0 bg-black bg-opacity-60 flex items-center justify-center">
             <div className="artist-card px-6 py-4 text-center bounce-in">
               <div className="w-12 h-12 bg-studio-purple rounded-full paint-blob flex items-center justify-center mx-auto mb-3">
@@ -384,7 +712,7 @@ export function GameCanvas({
             >
               <div
                 className="w-6 h-6 rounded-full border-2 border-white shadow-lg paint-blob"
-                style={{ backgroundColor: COLORS[selectedColor].hex }}
+                style={{ backgroundColor: getPaletteHex(palette, selectedColor) }}
               />
               <Palette size={20} className="text-studio-purple" />
               <span className="font-bold">Colors ✨</span>
@@ -398,12 +726,12 @@ export function GameCanvas({
                   </div>
                   <h3 className="font-playful text-lg text-studio-blue">Artist's Palette 🎨</h3>
                 </div>
-                <div className="grid grid-cols-6 gap-3">
-                  {COLORS.map((color, index) => (
+                <div className="grid grid-cols-8 gap-2 max-h-64 overflow-y-auto p-1">
+                  {palette.map((color, index) => (
                     <button
-                      key={color.value}
-                      className={`w-12 h-12 paint-blob transition-all duration-200 hover:scale-110 shadow-lg ${
-                        selectedColor === color.value
+                      key={index}
+                      className={`w-9 h-9 paint-blob transition-all duration-200 hover:scale-110 shadow-lg ${
+                        selectedColor === index
                           ? "ring-4 ring-studio-blue ring-opacity-50 scale-110"
                           : "hover:shadow-xl"
                       }`}
@@ -412,7 +740,8 @@ export function GameCanvas({
                         '--blob-rotation': `${index * 30}deg`
                       } as React.CSSProperties}
                       onClick={() => {
-                        setSelectedColor(color.value);
+                        setSelectedColor(index);
+                        setIsErasing(false);
                         setShowColorPalette(false);
                       }}
                       title={`${color.name} Paint 🎨`}
@@ -428,21 +757,48 @@ export function GameCanvas({
             )}
           </div>
 
-          {/* Brush Size - Hidden for now */}
-          {false && (
-            <div className="flex items-center gap-2">
-              <label className="text-sm">Size:</label>
-              <input
-                type="range"
-                min="1"
-                max="20"
-                value={brushSize}
-                onChange={(e) => setBrushSize(Number(e.target.value))}
-                className="w-20"
-              />
-              <span className="text-sm w-6">{brushSize}</span>
-            </div>
-          )}
+          {/* Eraser Toggle */}
+          <Button
+            variant="outline"
+            onClick={() => setIsErasing(!isErasing)}
+            className={`bg-white hover:bg-gray-50 text-gray-800 hover:text-gray-900 font-semibold px-4 py-3 flex items-center gap-2 border-2 shadow-lg rounded-2xl transition-all duration-300 ${
+              isErasing ? "border-studio-blue ring-4 ring-studio-blue ring-opacity-50" : "border-gray-300"
+            }`}
+            title="Erase parts of your drawing"
+          >
+            <Eraser size={20} className="text-studio-pink" />
+            <span className="font-bold">Eraser</span>
+          </Button>
+
+          {/* Drawing Tools */}
+          <div className="flex items-center gap-2">
+            {DRAWING_TOOLS.map(({ tool: drawingTool, label, Icon }) => (
+              <Button
+                key={drawingTool}
+                variant="outline"
+                size="sm"
+                onClick={() => setTool(drawingTool)}
+                className={tool === drawingTool ? "border-studio-blue ring-2 ring-studio-blue ring-opacity-50" : ""}
+                title={label}
+              >
+                <Icon size={16} />
+              </Button>
+            ))}
+          </div>
+
+          {/* Brush Size - stored with every stroke so guessers see the artist's size */}
+          <div className="flex items-center gap-2">
+            <label className="text-sm">Size:</label>
+            <input
+              type="range"
+              min="1"
+              max="20"
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+              className="w-20"
+            />
+            <span className="text-sm w-6">{brushSize}</span>
+          </div>
 
           {/* Magic Auto-save Status */}
           <div className="artist-card px-4 py-2 paint-splatter">
@@ -451,7 +807,20 @@ export function GameCanvas({
                 <div className="w-6 h-6 bg-studio-green rounded-full paint-blob flex items-center justify-center animate-spin">
                   <span className="text-white text-xs">✨</span>
                 </div>
-                <span className="font-bold text-studio-green">Saving masterpiece... 🎨</span>
+                <span className="font-bold text-studio-green">
+                  {queueStatus && queueStatus.failedAttempts > 0
+                    ? `Retrying save (attempt ${queueStatus.failedAttempts + 1})... 🎨`
+                    : "Saving masterpiece... 🎨"}
+                </span>
+              </div>
+            ) : queueStatus?.lastError ? (
+              <div className="flex items-center gap-3" title={queueStatus.lastError}>
+                <div className="w-6 h-6 bg-studio-red rounded-full paint-blob flex items-center justify-center">
+                  <Clock size={14} className="text-white" />
+                </div>
+                <span className="text-studio-red">
+                  Save failed, trying again in {countdown}s ({pendingChangesCount} brushstrokes)
+                </span>
               </div>
             ) : (
               <div className="flex items-center gap-3">
@@ -465,16 +834,38 @@ export function GameCanvas({
             )}
           </div>
 
-          {/* Clear Button - Hidden for now */}
-          {/* <Button
+          {/* Undo / Redo Buttons */}
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={undoStroke}
+              disabled={historySize === 0}
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 size={16} />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={redoStroke}
+              disabled={redoSize === 0}
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 size={16} />
+            </Button>
+          </div>
+
+          {/* Clear Button */}
+          <Button
             variant="outline"
             size="sm"
             onClick={clearCanvas}
             className="flex items-center gap-2"
           >
-            <Eraser size={16} />
+            <Trash2 size={16} />
             Clear
-          </Button> */}
+          </Button>
         </div>
       )}
     </div>
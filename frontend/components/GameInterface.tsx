@@ -1,35 +1,64 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { AccountAddress } from "@aptos-labs/ts-sdk";
 import { useAuthStore } from "@/store/auth";
 import { GameCanvas } from "@/components/GameCanvas";
 import { GameSidebar } from "@/components/GameSidebar";
 import { GameStatus } from "@/components/GameStatus";
+import { TeamEnrollment } from "@/components/TeamEnrollment";
 import { buildStartGamePayload, buildNextRoundPayload, buildSubmitCanvasDeltaPayload } from "@/entry-functions/gameActions";
 import { aptos } from "@/utils/aptos";
 import { getGame, getCurrentRound } from "@/view-functions/gameView";
 import { GameState, RoundState, CanvasDelta } from "@/utils/surf";
 import { useAnsMultiplePrimaryNames, getDisplayName as getDisplayNameHelper } from "@/hooks/useAns";
 import { calculateCurrentScores } from "@/utils/gameLogic";
+import { playerTeam } from "@/utils/lobby";
+import { teamColor } from "@/utils/teams";
+import { resolvePalette } from "@/utils/palette";
+import { createIndexerEventSource, GameEventSource } from "@/utils/gameEvents";
+import { applyGameEvent, LiveGame } from "@/utils/liveGame";
+import { useGameEvents } from "@/hooks/useGameEvents";
+import { useToast } from "@/components/ui/use-toast";
 
 interface GameInterfaceProps {
   gameAddress: AccountAddress;
+  // Live game events, defaults to following the module's events through the indexer
+  eventSource?: GameEventSource;
 }
 
+// Game state follows live events, reloading now and then in case an event was missed
+const FALLBACK_POLLING_INTERVAL_SECS = 15;
 
 
-export function GameInterface({ gameAddress }: GameInterfaceProps) {
+
+export function GameInterface({ gameAddress, eventSource }: GameInterfaceProps) {
   const account = useAuthStore(state => state.activeAccount);
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [roundState, setRoundState] = useState<RoundState | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Team whose canvas a spectator watches, players always see their own team's canvas
+  const [watchedTeam, setWatchedTeam] = useState(0);
   const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Latest game and round, events arriving before the next render build on the ones before them
+  const liveGameRef = useRef<LiveGame | null>(null);
+  liveGameRef.current = gameState ? { game: gameState, round: roundState } : null;
+  const { toast } = useToast();
+
+  const gameEventSource = useMemo(
+    () => eventSource ?? createIndexerEventSource(aptos, gameAddress),
+    [eventSource, gameAddress]
+  );
 
   // Get all unique addresses from game state for ANS resolution
   const allAddresses = gameState 
-    ? [...gameState.team0Players, ...gameState.team1Players, gameState.creator]
+    ? [...gameState.teams.flatMap(team => team.players), gameState.creator]
     : [];
 
+  // Colors the artists draw with, shared by the canvas and the delta payloads
+  // Keyed on the colors rather than the array, which is new after every reload of the game state
+  const paletteKey = gameState?.palette.join(",") ?? "";
+  const palette = useMemo(() => resolvePalette(gameState?.palette ?? []), [paletteKey]);
+
   // Use React Query to resolve ANS names for all addresses
   const ansQueries = useAnsMultiplePrimaryNames(allAddresses);
 
@@ -69,10 +98,10 @@ export function GameInterface({ gameAddress }: GameInterfaceProps) {
     // Initial load
     loadGameState(true);
 
-    // Set up polling for real-time updates (every 3 seconds)
+    // Fall back to polling in case live events are missed
     pollingIntervalRef.current = setInterval(() => {
       loadGameState(false);
-    }, 3000);
+    }, FALLBACK_POLLING_INTERVAL_SECS * 1000);
 
     return () => {
       if (pollingIntervalRef.current) {
@@ -82,6 +111,36 @@ export function GameInterface({ gameAddress }: GameInterfaceProps) {
     };
   }, [account, gameAddress]);
 
+  // Follow guesses, rounds and game changes as they arrive, reloading only when an event doesn't carry enough to go on
+  useGameEvents(gameEventSource, (event) => {
+    if (!account || event.type === "CanvasUpdated") return;
+
+    // Let the guessing team know when a teammate is close, the guesser gets their own hint from the sidebar
+    // Players of free-for-all games have no teammates, a hint would help their opponents
+    if (
+      event.type === "GuessSubmitted" &&
+      event.close &&
+      !gameState?.freeForAll &&
+      event.team === getUserTeam() &&
+      !event.guesser.equals(account.accountAddress)
+    ) {
+      toast({
+        title: "Getting warm! 🔥",
+        description: `${getDisplayName(event.guesser)} guessed "${event.guess}", that's almost the word.`,
+      });
+    }
+
+    const live = liveGameRef.current;
+    const next = live && applyGameEvent(live, event);
+    if (!next) {
+      loadGameState(false);
+      return;
+    }
+    liveGameRef.current = next;
+    setGameState(next.game);
+    setRoundState(next.round);
+  });
+
   // Helper function to get display name using React Query results
   const getDisplayNameFromQueries = (address: AccountAddress): string => {
     const addressStr = address.toString();
@@ -102,10 +161,7 @@ export function GameInterface({ gameAddress }: GameInterfaceProps) {
   const getUserTeam = (): number | null => {
     if (!account || !gameState) return null;
     
-    const userAddress = account.accountAddress.toString();
-    if (gameState.team0Players.some(addr => addr.toString() === userAddress)) return 0;
-    if (gameState.team1Players.some(addr => addr.toString() === userAddress)) return 1;
-    return null;
+    return playerTeam(gameState, account.accountAddress);
   };
 
   // Calculate if game is over based on current scores (including unprocessed rounds)
@@ -125,12 +181,8 @@ export function GameInterface({ gameAddress }: GameInterfaceProps) {
     const userTeam = getUserTeam();
     if (userTeam === null) return false;
     
-    const userAddress = account.accountAddress.toString();
-    if (userTeam === 0) {
-      return gameState.team0Players[gameState.currentTeam0Artist].toString() === userAddress;
-    } else {
-      return gameState.team1Players[gameState.currentTeam1Artist].toString() === userAddress;
-    }
+    const team = gameState.teams[userTeam];
+    return team.players[team.currentArtist].equals(account.accountAddress);
   };
 
   const handleStartGame = async () => {
@@ -185,7 +237,7 @@ export function GameInterface({ gameAddress }: GameInterfaceProps) {
     }
   };
 
-  const handleCanvasUpdate = async (deltas: CanvasDelta[]) => {
+  const handleCanvasUpdate = async (deltas: CanvasDelta[], firstSequence: number) => {
     if (!account || !gameState) {
       throw new Error("Not connected or no game state");
     }
@@ -197,11 +249,12 @@ export function GameInterface({ gameAddress }: GameInterfaceProps) {
 
     const positions = deltas.map(d => d.position);
     const colors = deltas.map(d => d.color);
+    const brushSizes = deltas.map(d => d.brushSize);
 
-    console.log("Submitting canvas update:", { positions, colors, userTeam, gameAddress: gameAddress.toString() });
+    console.log("Submitting canvas update:", { positions, colors, brushSizes, userTeam, gameAddress: gameAddress.toString() });
 
     try {
-      const payload = buildSubmitCanvasDeltaPayload(gameAddress, userTeam, positions, colors);
+      const payload = buildSubmitCanvasDeltaPayload(gameAddress, userTeam, firstSequence, positions, colors, brushSizes, palette);
       
       const transaction = await aptos.transaction.build.simple({
         sender: account.accountAddress,
@@ -299,6 +352,7 @@ export function GameInterface({ gameAddress }: GameInterfaceProps) {
         getDisplayName={getDisplayName}
         gameAddress={gameAddress}
         onRefreshGameState={() => loadGameState(false)}
+        eventSource={gameEventSource}
       />
 
       {/* Main Canvas Area */}
@@ -308,24 +362,56 @@ export function GameInterface({ gameAddress }: GameInterfaceProps) {
           roundState={roundState}
           userTeam={getUserTeam()}
           isCurrentArtist={isCurrentArtist()}
+          getDisplayName={getDisplayName}
           onStartGame={handleStartGame}
           onNextRound={handleNextRound}
         />
         
         <div className="flex-1 flex items-center justify-center p-8">
-          <div className="canvas-container fun-shadow">
-            <GameCanvas
-              gameAddress={gameAddress.toString()}
-              width={gameState.canvasWidth}
-              height={gameState.canvasHeight}
-              canDraw={isCurrentArtist() && gameState.started && !isGameOver() && roundState !== null && !roundState.finished}
+          {gameState.openEnrollment && !gameState.started ? (
+            <TeamEnrollment
+              gameAddress={gameAddress}
+              gameState={gameState}
               userTeam={getUserTeam()}
-              currentRound={gameState.currentRound}
-              gameStarted={gameState.started}
-              roundFinished={roundState?.finished ?? false}
-              onCanvasUpdate={handleCanvasUpdate}
+              getDisplayName={getDisplayName}
+              onRefreshGameState={() => loadGameState(false)}
             />
-          </div>
+          ) : (
+            <div className="flex flex-col items-center gap-3">
+              {getUserTeam() === null && gameState.started && !gameState.freeForAll && (
+                <div className="artist-card px-4 py-2 flex flex-wrap items-center justify-center gap-2">
+                  <span className="text-sm font-bold text-gray-600">Watching:</span>
+                  {gameState.teams.map((team, index) => (
+                    <button
+                      key={index}
+                      onClick={() => setWatchedTeam(index)}
+                      className={`font-bouncy text-sm px-3 py-1 rounded-full transition-all duration-200 ${
+                        watchedTeam === index ? `bg-${teamColor(index)} text-white` : `text-${teamColor(index)} bg-white/70`
+                      }`}
+                    >
+                      {team.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="canvas-container fun-shadow">
+                <GameCanvas
+                  gameAddress={gameAddress.toString()}
+                  width={gameState.canvasWidth}
+                  height={gameState.canvasHeight}
+                  canDraw={isCurrentArtist() && gameState.started && !isGameOver() && roundState !== null && roundState.wordChosen && !roundState.finished}
+                  userTeam={getUserTeam()}
+                  team={getUserTeam() ?? (gameState.started ? watchedTeam : null)}
+                  currentRound={gameState.currentRound}
+                  gameStarted={gameState.started}
+                  roundFinished={roundState?.finished ?? false}
+                  palette={palette}
+                  eventSource={gameEventSource}
+                  onCanvasUpdate={handleCanvasUpdate}
+                />
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { Button } from "@/components/ui/button";
+import { RefreshCw } from "lucide-react";
+import { aptos } from "@/utils/aptos";
+import { Lobby, LobbyGame, LobbyGameStatus, loadLobby } from "@/utils/lobby";
+import { teamColor } from "@/utils/teams";
+
+interface GameLobbyProps {
+  player: AccountAddress;
+}
+
+const STATUS_LABELS: Record<LobbyGameStatus, { label: string; className: string }> = {
+  not_started: { label: "Not started", className: "bg-yellow-100 text-yellow-800" },
+  in_progress: { label: "In progress", className: "bg-green-100 text-green-800" },
+  finished: { label: "Finished", className: "bg-gray-200 text-gray-700" },
+};
+
+const formatAddress = (address: AccountAddress) => {
+  const value = address.toString();
+  return `${value.slice(0, 6)}...${value.slice(-4)}`;
+};
+
+function LobbyGameCard({ game, onOpen }: { game: LobbyGame; onOpen: () => void }) {
+  const status = STATUS_LABELS[game.status];
+  // Winners of free-for-all games are players rather than teams
+  const winnerName = game.winner === null
+    ? null
+    : game.freeForAll ? formatAddress(game.players[game.winner]) : game.teamNames[game.winner];
+
+  return (
+    <button
+      onClick={onOpen}
+      className="w-full text-left bg-white p-4 rounded-xl border-2 border-gray-200 hover:border-studio-blue hover:shadow-lg transition-all duration-200 paint-splatter"
+    >
+      <div className="flex justify-between items-center mb-2">
+        <span className="font-bold text-gray-800">
+          {game.freeForAll ? `Free-for-all · ${game.players.length} players` : game.teamNames.join(" vs ")}
+        </span>
+        <span className={`text-xs font-bold px-2 py-1 rounded-full ${status.className}`}>{status.label}</span>
+      </div>
+      <div className="flex justify-between items-center text-sm">
+        <span className="font-medium">
+          {game.freeForAll ? (
+            <span className="text-studio-blue">Top score {Math.max(...game.scores)}</span>
+          ) : (
+            game.scores.map((score, team) => (
+              <span key={team}>
+                {team > 0 && " - "}
+                <span className={`text-${teamColor(team)}`}>{score}</span>
+              </span>
+            ))
+          )}
+          <span className="text-gray-500"> (first to {game.targetScore})</span>
+        </span>
+        <span className="text-gray-500">
+          {game.status === "finished" && winnerName !== null
+            ? `🏆 ${winnerName}`
+            : game.status === "in_progress"
+              ? `Round ${game.currentRound}`
+              : formatAddress(game.gameAddress)}
+        </span>
+      </div>
+      {game.playerTeam !== null && (
+        <p className="text-xs font-bold text-studio-purple mt-2">
+          {game.freeForAll ? "You're playing" : `You play for ${game.teamNames[game.playerTeam]}`}
+        </p>
+      )}
+    </button>
+  );
+}
+
+export function GameLobby({ player }: GameLobbyProps) {
+  const navigate = useNavigate();
+  const [lobby, setLobby] = useState<Lobby | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshLobby = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setLobby(await loadLobby(aptos, player));
+    } catch (error) {
+      console.error("Failed to load the lobby:", error);
+      setError("Couldn't load games. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [player]);
+
+  useEffect(() => {
+    refreshLobby();
+  }, [refreshLobby]);
+
+  const openGame = (game: LobbyGame) => navigate(`/${game.gameAddress.toString()}`);
+
+  const renderGames = (games: LobbyGame[], emptyMessage: string) =>
+    games.length === 0 ? (
+      <p className="text-sm text-gray-600 text-center italic">{emptyMessage}</p>
+    ) : (
+      <div className="space-y-3">
+        {games.map(game => (
+          <LobbyGameCard key={game.gameAddress.toString()} game={game} onOpen={() => openGame(game)} />
+        ))}
+      </div>
+    );
+
+  return (
+    <div className="flex-1 p-8 max-w-screen-lg mx-auto w-full space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="font-bubbly text-4xl text-studio-blue drop-shadow-sm">Game Lobby 🎮</h1>
+        <Button
+          variant="outline"
+          onClick={refreshLobby}
+          disabled={isLoading}
+          className="flex items-center gap-2"
+        >
+          <RefreshCw size={16} className={isLoading ? "animate-spin" : ""} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && <p className="text-center text-studio-red font-medium">{error}</p>}
+
+      {!lobby ? (
+        !error && <p className="text-center text-gray-600 italic">Looking for games... 🎨</p>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="artist-card p-4">
+            <h2 className="font-playful text-2xl text-studio-purple mb-4">My Games 🖌️</h2>
+            {renderGames(lobby.myGames, "You haven't created or joined any games yet.")}
+          </div>
+          <div className="artist-card p-4">
+            <h2 className="font-playful text-2xl text-studio-green mb-4">Open Games 👀</h2>
+            {renderGames(lobby.openGames, "No other games are running right now.")}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,46 +3,82 @@ import { AccountAddress } from "@aptos-labs/ts-sdk";
 import { useAuthStore } from "@/store/auth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Send } from "lucide-react";
-import { buildMakeGuessPayload } from "@/entry-functions/gameActions";
-import { getCurrentWordForArtist, getRoundHistory, getCurrentRound, RoundResult } from "@/view-functions/gameView";
+import { Send, Download, Archive, Film } from "lucide-react";
+import { buildChooseWordPayload, buildMakeGuessPayload } from "@/entry-functions/gameActions";
+import {
+  getCurrentWordForArtist,
+  getRoundHistory,
+  getWordCandidates,
+  RoundResult,
+} from "@/view-functions/gameView";
 import { aptos } from "@/utils/aptos";
-import { RoundState } from "@/utils/surf";
+import { RoundState, TeamState } from "@/utils/surf";
 import { useToast } from "@/components/ui/use-toast";
-import { calculateCurrentScores } from "@/utils/gameLogic";
+import { calculateCurrentScores, hasGuessed, wordChooserTeam } from "@/utils/gameLogic";
+import { SCORING_RULES, ScoringMode, potentialPoints } from "@/utils/scoring";
+import { DIFFICULTY_EMOJIS, DIFFICULTY_LABELS, TaggedWord } from "@/utils/wordPacks";
+import { resolvePalette } from "@/utils/palette";
+import { teamColor } from "@/utils/teams";
+import { playerScoreIndex } from "@/utils/lobby";
+import { RoundReplay } from "@/components/RoundReplay";
+import { normalizeGuess } from "@/utils/guess";
+import { GameEventSource, getTransactionGameEvents } from "@/utils/gameEvents";
+import { GuessFeed } from "@/components/GuessFeed";
+import { useGuessFeed } from "@/hooks/useGuessFeed";
+import { ExportFormat, downloadBlob, exportFileName, exportRoundCanvas, exportRoundsZip } from "@/utils/canvasExport";
 
 interface GameSidebarProps {
   gameState: {
-    team0Players: AccountAddress[];
-    team1Players: AccountAddress[];
-    team0Name: string;
-    team1Name: string;
-    team0Score: number;
-    team1Score: number;
+    teams: TeamState[];
+    scores: number[];
+    freeForAll: boolean;
     targetScore: number;
     currentRound: number;
     finished: boolean;
     winner: number | null;
-    currentTeam0Artist: number;
-    currentTeam1Artist: number;
     started: boolean;
+    canvasWidth: number;
+    canvasHeight: number;
+    palette: number[];
+    wordChoice: boolean;
+    scoringMode: ScoringMode;
   };
   roundState: RoundState | null;
   userTeam: number | null;
   getDisplayName?: (address: AccountAddress) => string;
   gameAddress: AccountAddress;
   onRefreshGameState?: () => Promise<void>;
+  // Live game events, feeds the guess feed
+  eventSource?: GameEventSource;
 }
 
-export function GameSidebar({ gameState, roundState, userTeam, getDisplayName, gameAddress, onRefreshGameState }: GameSidebarProps) {
+export function GameSidebar({ gameState, roundState, userTeam, getDisplayName, gameAddress, onRefreshGameState, eventSource }: GameSidebarProps) {
   const account = useAuthStore(state => state.activeAccount);
   const [guess, setGuess] = useState("");
   const [roundResults, setRoundResults] = useState<RoundResult[]>([]);
   const [currentWordForArtist, setCurrentWordForArtist] = useState<string>("");
+  const [wordCandidates, setWordCandidates] = useState<TaggedWord[]>([]); // Words the artist picks from
+  const [isChoosingWord, setIsChoosingWord] = useState(false);
   const [isSubmittingGuess, setIsSubmittingGuess] = useState(false);
+  const [exporting, setExporting] = useState<string | null>(null); // Key of the export in progress
+  const [replayRound, setReplayRound] = useState<RoundResult | null>(null); // Round shown in the replay viewer
+  const [now, setNow] = useState(() => Date.now() / 1000); // Ticks while guesses are worth a speed bonus
   const { toast } = useToast();
 
+  const scoringRules = SCORING_RULES[gameState.scoringMode];
   const currentScores = calculateCurrentScores(gameState, roundState);
+  const teamNames = gameState.teams.map((team) => team.name);
+  const teamArtist = (team: TeamState) => team.players[team.currentArtist];
+  // The user's score and guess times, their team's or in free-for-all games their own
+  const userScoreIndex = account ? playerScoreIndex(gameState, account.accountAddress) : null;
+
+  // Guesses of the current round, round numbers are 0-based in the feed like in the contract
+  const guesses = useGuessFeed(
+    aptos,
+    gameAddress,
+    gameState.started && gameState.currentRound > 0 ? gameState.currentRound - 1 : null,
+    eventSource
+  );
 
   // Load round history from blockchain
   useEffect(() => {
@@ -62,18 +98,26 @@ export function GameSidebar({ gameState, roundState, userTeam, getDisplayName, g
     if (gameState.started) {
       loadRoundHistory();
     }
-  }, [gameAddress, gameState.started, gameState.currentRound, roundState?.startTime, roundState?.durationSeconds, roundState?.finished]);
+  }, [gameAddress, gameState.started, gameState.currentRound, roundState?.startTime, roundState?.durationSeconds, roundState?.finished, roundState?.processed]);
+
+  const isCurrentArtist = (): boolean => {
+    if (!account || !gameState) return false;
+    
+    return gameState.teams.some((team) => teamArtist(team)?.equals(account.accountAddress));
+  };
 
   // Load current word for artist
+  // Only the artists look for it, the round only holds its salted hash so guessers' clients never hold the word
+  const userIsArtist = isCurrentArtist();
   useEffect(() => {
     const loadCurrentWord = async () => {
-      if (!account || !gameState.started || gameState.finished) {
+      if (!account || !userIsArtist || !gameState.started || gameState.finished) {
         setCurrentWordForArtist("");
         return;
       }
 
       try {
-        const word = await getCurrentWordForArtist(aptos, gameAddress, account.accountAddress);
+        const word = await getCurrentWordForArtist(aptos, gameAddress);
         setCurrentWordForArtist(word);
       } catch (error) {
         console.error("Failed to load current word for artist:", error);
@@ -82,18 +126,65 @@ export function GameSidebar({ gameState, roundState, userTeam, getDisplayName, g
     };
 
     loadCurrentWord();
-  }, [account, gameAddress, gameState.started, gameState.finished, gameState.currentRound]);
+  }, [account, userIsArtist, gameAddress, gameState.started, gameState.finished, gameState.currentRound, roundState?.wordChosen]);
+
+  // Artists take turns picking the word for all teams in games where artists choose their words
+  const waitingForWord = gameState.started && !gameState.finished && roundState !== null && !roundState.wordChosen && !roundState.finished;
+  const chooserTeam = roundState ? wordChooserTeam(roundState.roundNumber, gameState.teams.length) : 0;
+  const chooser = teamArtist(gameState.teams[chooserTeam]);
+  const userIsWordChooser = waitingForWord && userIsArtist && userTeam === chooserTeam;
+
+  useEffect(() => {
+    const loadWordCandidates = async () => {
+      if (!account || !userIsWordChooser) {
+        setWordCandidates([]);
+        return;
+      }
+
+      setWordCandidates(await getWordCandidates(aptos, gameAddress, account.accountAddress));
+    };
+
+    loadWordCandidates();
+  }, [account, userIsWordChooser, gameAddress, gameState.currentRound]);
+
+  const handleChooseWord = async (choice: number) => {
+    if (!account || isChoosingWord) return;
+
+    setIsChoosingWord(true);
+    try {
+      const transaction = await aptos.transaction.build.simple({
+        sender: account.accountAddress,
+        data: buildChooseWordPayload(gameAddress, choice),
+      });
+      const result = await aptos.signAndSubmitTransaction({
+        signer: account,
+        transaction,
+      });
+      await aptos.waitForTransaction({ transactionHash: result.hash });
+
+      if (onRefreshGameState) {
+        await onRefreshGameState();
+      }
+    } catch (error) {
+      console.error("Failed to choose word:", error);
+      toast({
+        title: "Error",
+        description: "Failed to choose the word. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsChoosingWord(false);
+    }
+  };
 
   const handleSubmitGuess = async () => {
-    if (!guess.trim() || !account || isSubmittingGuess) return;
+    // The contract compares guesses to the word as is, so "Cat " has to be submitted as "cat"
+    const submittedGuess = normalizeGuess(guess);
+    if (!submittedGuess || !account || isSubmittingGuess) return;
 
     setIsSubmittingGuess(true);
-    const submittedGuess = guess.trim();
     
     try {
-      // Get the current round state before submitting the guess
-      const preGuessRoundState = await getCurrentRound(aptos, gameAddress);
-      
       const payload = buildMakeGuessPayload(gameAddress, submittedGuess);
       
       const transaction = await aptos.transaction.build.simple({
@@ -107,58 +198,50 @@ export function GameSidebar({ gameState, roundState, userTeam, getDisplayName, g
       });
       
       // Wait for transaction confirmation
-      await aptos.waitForTransaction({
+      const committedTransaction = await aptos.waitForTransaction({
         transactionHash: result.hash,
       });
 
+      // The contract judges the guess in the same transaction, flagging wrong guesses that are close to the word
+      // No event means the round was already over and the guess wasn't judged at all
+      const guessEvent = getTransactionGameEvents(committedTransaction).find(
+        event => event.type === "GuessSubmitted"
+      );
+
       // Clear the guess input immediately
       setGuess("");
-      
-      // Wait a moment for blockchain state to update, then check result
-      setTimeout(async () => {
-        try {
-          // Get the updated round state
-          const postGuessRoundState = await getCurrentRound(aptos, gameAddress);
-          
-          // Determine if the guess was correct by checking if team's guessed status changed
-          let wasCorrect = false;
-          if (userTeam !== null) {
-            if (userTeam === 0) {
-              wasCorrect = !preGuessRoundState.team0Guessed && postGuessRoundState.team0Guessed;
-            } else if (userTeam === 1) {
-              wasCorrect = !preGuessRoundState.team1Guessed && postGuessRoundState.team1Guessed;
-            }
-          }
-          
-          // Show appropriate toast feedback
-          if (wasCorrect) {
-            toast({
-              title: "Correct! 🎉",
-              description: `Great job! "${submittedGuess}" was the right answer!`,
-              variant: "default",
-            });
-          } else {
-            toast({
-              title: "Incorrect guess",
-              description: `"${submittedGuess}" wasn't the word. Keep trying!`,
-              variant: "destructive",
-            });
-          }
-          
-          // Refresh the game state instead of reloading the page
-          if (onRefreshGameState) {
-            await onRefreshGameState();
-          }
-        } catch (error) {
-          console.error("Failed to check guess result:", error);
-          // Fallback to just refreshing game state
-          if (onRefreshGameState) {
-            await onRefreshGameState();
-          }
-        } finally {
-          setIsSubmittingGuess(false);
-        }
-      }, 2000); // Wait 2 seconds for blockchain state to update
+
+      // Show appropriate toast feedback
+      if (guessEvent?.type !== "GuessSubmitted") {
+        toast({
+          title: "Round over",
+          description: "Time ran out before your guess arrived.",
+          variant: "destructive",
+        });
+      } else if (guessEvent.correct) {
+        toast({
+          title: "Correct! 🎉",
+          description: `Great job! "${submittedGuess}" was the right answer!`,
+          variant: "default",
+        });
+      } else if (guessEvent.close) {
+        toast({
+          title: "So close! 🔥",
+          description: `"${submittedGuess}" is almost the word. Keep trying!`,
+          variant: "default",
+        });
+      } else {
+        toast({
+          title: "Incorrect guess",
+          description: `"${submittedGuess}" wasn't the word. Keep trying!`,
+          variant: "destructive",
+        });
+      }
+
+      // Refresh the game state instead of reloading the page
+      if (onRefreshGameState) {
+        await onRefreshGameState();
+      }
     } catch (error) {
       console.error("Failed to submit guess:", error);
       toast({
@@ -166,10 +249,58 @@ export function GameSidebar({ gameState, roundState, userTeam, getDisplayName, g
         description: "Failed to submit guess. Please try again.",
         variant: "destructive",
       });
+    } finally {
       setIsSubmittingGuess(false);
     }
   };
 
+  // Run one export at a time, reporting failures with a toast
+  const runExport = async (key: string, exportFile: () => Promise<void>) => {
+    if (exporting) return;
+
+    setExporting(key);
+    try {
+      await exportFile();
+    } catch (error) {
+      console.error("Failed to export drawing:", error);
+      toast({
+        title: "Export failed",
+        description: "Couldn't export the drawing. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const exportOptions = () => ({
+    width: gameState.canvasWidth,
+    height: gameState.canvasHeight,
+    palette: resolvePalette(gameState.palette),
+  });
+
+  // Round numbers are 0-based here, round history numbers them from 1 for display
+  const handleExportRound = (roundNumber: number, team: number, format: ExportFormat) => {
+    const teamName = teamNames[team];
+    runExport(`${roundNumber}-${team}-${format}`, async () => {
+      const blob = await exportRoundCanvas(aptos, gameAddress, roundNumber, team, format, exportOptions());
+      downloadBlob(blob, exportFileName(roundNumber, teamName, format));
+    });
+  };
+
+  const handleExportAllRounds = () => {
+    runExport("all", async () => {
+      const blob = await exportRoundsZip(
+        aptos,
+        gameAddress,
+        roundResults.map((result) => result.roundNumber - 1),
+        teamNames,
+        exportOptions(),
+      );
+      downloadBlob(blob, "pictionary-drawings.zip");
+    });
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter") {
       handleSubmitGuess();
@@ -189,22 +320,37 @@ export function GameSidebar({ gameState, roundState, userTeam, getDisplayName, g
     return getDisplayName ? getDisplayName(player) : formatAddress(player);
   };
 
-  const isCurrentArtist = (): boolean => {
-    if (!account || !gameState) return false;
-    
-    const userAddress = account.accountAddress.toString();
-    const team0Artist = gameState.team0Players[gameState.currentTeam0Artist];
-    const team1Artist = gameState.team1Players[gameState.currentTeam1Artist];
-    
-    return team0Artist?.toString() === userAddress || team1Artist?.toString() === userAddress;
-  };
+  // Names of the scores in score order, the teams' or in free-for-all games the players'
+  const scoreNames = gameState.freeForAll ? gameState.teams[0].players.map(getPlayerDisplayName) : teamNames;
+
+  // Players of free-for-all games ranked by score, ties keep the player order like the winner in the contract
+  const leaderboard = gameState.freeForAll
+    ? gameState.teams[0].players
+      .map((player, index) => ({ player, index, score: currentScores.scores[index] ?? 0 }))
+      .sort((a, b) => b.score - a.score)
+    : [];
 
-  const hasUserTeamGuessed = (): boolean => {
-    if (!roundState || userTeam === null) return false;
+  const hasUserGuessed = (): boolean => {
+    if (!roundState || userScoreIndex === null) return false;
     
-    return userTeam === 0 ? roundState.team0Guessed : roundState.team1Guessed;
+    return hasGuessed(roundState, userScoreIndex);
   };
 
+  // Points the user's team would get by guessing the word right now, they shrink as the round goes on in time bonus games
+  const guessingOpen = gameState.started && !gameState.finished && roundState !== null && roundState.wordChosen && !roundState.finished;
+  const speedBonusActive = guessingOpen && gameState.scoringMode === "time_bonus";
+  useEffect(() => {
+    if (!speedBonusActive) return;
+
+    setNow(Date.now() / 1000);
+    const interval = setInterval(() => setNow(Date.now() / 1000), 1000);
+    return () => clearInterval(interval);
+  }, [speedBonusActive]);
+
+  const userPotentialPoints = guessingOpen && userScoreIndex !== null && roundState
+    ? potentialPoints(roundState, userScoreIndex, now, scoringRules)
+    : null;
+
   return (
     <div className="w-80 bg-gradient-to-b from-purple-50 to-blue-50 h-screen max-h-screen relative overflow-y-auto scrollbar-hide">
       {/* Studio Background Splotches */}
@@ -239,111 +385,110 @@ export function GameSidebar({ gameState, roundState, userTeam, getDisplayName, g
         </div>
       </div>
 
-      {/* Artist Teams */}
-      <div className="artist-card m-3 p-4 relative z-10">
-        <div className="flex items-center gap-2 mb-4">
-          <div className="w-8 h-8 bg-studio-green rounded-full paint-blob flex items-center justify-center">
-            <span className="text-white text-sm">👥</span>
-          </div>
-          <h4 className="font-bubbly text-lg text-studio-green polka-dots">Art Teams 🎨</h4>
-        </div>
-        
-        {/* Team 1 */}
-        <div className={`mb-4 artist-card p-4 paint-splatter transition-all duration-300 ${userTeam === 0 ? "ring-4 ring-studio-blue ring-opacity-50 scale-105" : ""}`}>
-          <div className="flex justify-between items-center mb-3">
-            <div className="flex items-center gap-2">
-              <div className="w-6 h-6 bg-studio-blue rounded-full paint-blob flex items-center justify-center">
-                <span className="text-white text-xs font-bold">1</span>
-              </div>
-              <span className="font-bouncy text-studio-blue">{gameState.team0Name}</span>
-            </div>
-            <div className="w-10 h-10 bg-studio-blue rounded-full paint-blob flex items-center justify-center fun-shadow">
-              <span className="text-white font-bold">{currentScores.team0Score}</span>
+      {/* Artist Teams, or a leaderboard of the players in free-for-all games */}
+      {gameState.freeForAll ? (
+        <div className="artist-card m-3 p-4 relative z-10">
+          <div className="flex items-center gap-2 mb-4">
+            <div className="w-8 h-8 bg-studio-yellow rounded-full paint-blob flex items-center justify-center">
+              <span className="text-white text-sm">🏆</span>
             </div>
+            <h4 className="font-bubbly text-lg text-studio-orange polka-dots">Leaderboard 🎨</h4>
           </div>
+
           <div className="space-y-2">
-            {gameState.team0Players.map((player, index) => {
+            {leaderboard.map(({ player, index, score }, rank) => {
               const isCurrentUser = account && account.accountAddress.toString() === player.toString();
               return (
-                <div key={player.toString()} className="flex items-center gap-2">
-                  <div className="w-4 h-4 bg-studio-yellow rounded-full paint-blob flex items-center justify-center">
-                    <span className="text-xs">👤</span>
+                <div key={player.toString()} className={`flex items-center gap-2 p-2 rounded-xl ${isCurrentUser ? "bg-white fun-shadow" : "bg-white/60"}`}>
+                  <div className={`w-6 h-6 ${rank === 0 ? "bg-studio-yellow" : "bg-studio-purple"} rounded-full paint-blob flex items-center justify-center`}>
+                    <span className="text-white text-xs font-bold">{rank + 1}</span>
                   </div>
-                  <span className="text-sm font-medium text-gray-700 flex-1">
+                  <span className="text-sm font-medium text-gray-700 flex-1 truncate">
                     {getPlayerDisplayName(player)}
                     {isCurrentUser && (
-                      <span className="ml-2 text-xs font-bold text-studio-blue bg-blue-50 px-2 py-1 rounded-full">
-                        (you)
-                      </span>
+                      <span className="ml-2 text-xs font-bold text-studio-purple">(you)</span>
                     )}
                   </span>
-                  {index === gameState.currentTeam0Artist && (
-                    <div className="w-6 h-6 bg-studio-orange rounded-full paint-blob flex items-center justify-center animate-bounce">
+                  {index === gameState.teams[0].currentArtist && (
+                    <div className="w-6 h-6 bg-studio-orange rounded-full paint-blob flex items-center justify-center animate-bounce" title="Drawing this round">
                       <span className="text-white text-xs">🎨</span>
                     </div>
                   )}
+                  {roundState && hasGuessed(roundState, index) && (
+                    <div className="w-5 h-5 bg-green-500 rounded-full paint-blob flex items-center justify-center" title="Guessed the word">
+                      <span className="text-white text-xs">✓</span>
+                    </div>
+                  )}
+                  <span className="w-8 text-right font-bold text-gray-800">{score}</span>
                 </div>
               );
             })}
           </div>
-          {roundState?.team0Guessed && (
-            <div className="mt-3 flex items-center gap-2 p-2 bg-green-100 rounded-lg">
-              <div className="w-5 h-5 bg-green-500 rounded-full paint-blob flex items-center justify-center">
-                <span className="text-white text-xs">✓</span>
-              </div>
-              <span className="text-green-700 font-bold text-sm">Solved the mystery! 🕵️</span>
-            </div>
-          )}
         </div>
-
-        {/* Team 2 */}
-        <div className={`artist-card p-4 paint-splatter transition-all duration-300 ${userTeam === 1 ? "ring-4 ring-studio-pink ring-opacity-50 scale-105" : ""}`}>
-          <div className="flex justify-between items-center mb-3">
-            <div className="flex items-center gap-2">
-              <div className="w-6 h-6 bg-studio-pink rounded-full paint-blob flex items-center justify-center">
-                <span className="text-white text-xs font-bold">2</span>
-              </div>
-              <span className="font-bouncy text-studio-pink">{gameState.team1Name}</span>
-            </div>
-            <div className="w-10 h-10 bg-studio-pink rounded-full paint-blob flex items-center justify-center fun-shadow">
-              <span className="text-white font-bold">{currentScores.team1Score}</span>
+      ) : (
+        <div className="artist-card m-3 p-4 relative z-10">
+          <div className="flex items-center gap-2 mb-4">
+            <div className="w-8 h-8 bg-studio-green rounded-full paint-blob flex items-center justify-center">
+              <span className="text-white text-sm">👥</span>
             </div>
+            <h4 className="font-bubbly text-lg text-studio-green polka-dots">Art Teams 🎨</h4>
           </div>
-          <div className="space-y-2">
-            {gameState.team1Players.map((player, index) => {
-              const isCurrentUser = account && account.accountAddress.toString() === player.toString();
+          
+          <div className="space-y-4">
+            {gameState.teams.map((team, teamIndex) => {
+              const color = teamColor(teamIndex);
               return (
-                <div key={player.toString()} className="flex items-center gap-2">
-                  <div className="w-4 h-4 bg-studio-yellow rounded-full paint-blob flex items-center justify-center">
-                    <span className="text-xs">👤</span>
+                <div key={teamIndex} className={`artist-card p-4 paint-splatter transition-all duration-300 ${userTeam === teamIndex ? "ring-4 ring-opacity-50 scale-105" : ""}`}>
+                  <div className="flex justify-between items-center mb-3">
+                    <div className="flex items-center gap-2">
+                      <div className={`w-6 h-6 bg-${color} rounded-full paint-blob flex items-center justify-center`}>
+                        <span className="text-white text-xs font-bold">{teamIndex + 1}</span>
+                      </div>
+                      <span className={`font-bouncy text-${color}`}>{team.name}</span>
+                    </div>
+                    <div className={`w-10 h-10 bg-${color} rounded-full paint-blob flex items-center justify-center fun-shadow`}>
+                      <span className="text-white font-bold">{currentScores.scores[teamIndex]}</span>
+                    </div>
                   </div>
-                  <span className="text-sm font-medium text-gray-700 flex-1">
-                    {getPlayerDisplayName(player)}
-                    {isCurrentUser && (
-                      <span className="ml-2 text-xs font-bold text-studio-pink bg-pink-50 px-2 py-1 rounded-full">
-                        (you)
-                      </span>
-                    )}
-                  </span>
-                  {index === gameState.currentTeam1Artist && (
-                    <div className="w-6 h-6 bg-studio-orange rounded-full paint-blob flex items-center justify-center animate-bounce">
-                      <span className="text-white text-xs">🎨</span>
+                  <div className="space-y-2">
+                    {team.players.map((player, index) => {
+                      const isCurrentUser = account && account.accountAddress.toString() === player.toString();
+                      return (
+                        <div key={player.toString()} className="flex items-center gap-2">
+                          <div className="w-4 h-4 bg-studio-yellow rounded-full paint-blob flex items-center justify-center">
+                            <span className="text-xs">👤</span>
+                          </div>
+                          <span className="text-sm font-medium text-gray-700 flex-1">
+                            {getPlayerDisplayName(player)}
+                            {isCurrentUser && (
+                              <span className={`ml-2 text-xs font-bold text-${color} bg-white px-2 py-1 rounded-full`}>
+                                (you)
+                              </span>
+                            )}
+                          </span>
+                          {index === team.currentArtist && (
+                            <div className="w-6 h-6 bg-studio-orange rounded-full paint-blob flex items-center justify-center animate-bounce">
+                              <span className="text-white text-xs">🎨</span>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {roundState && hasGuessed(roundState, teamIndex) && (
+                    <div className="mt-3 flex items-center gap-2 p-2 bg-green-100 rounded-lg">
+                      <div className="w-5 h-5 bg-green-500 rounded-full paint-blob flex items-center justify-center">
+                        <span className="text-white text-xs">✓</span>
+                      </div>
+                      <span className="text-green-700 font-bold text-sm">Solved the mystery! 🕵️</span>
                     </div>
                   )}
                 </div>
               );
             })}
           </div>
-          {roundState?.team1Guessed && (
-            <div className="mt-3 flex items-center gap-2 p-2 bg-green-100 rounded-lg">
-              <div className="w-5 h-5 bg-green-500 rounded-full paint-blob flex items-center justify-center">
-                <span className="text-white text-xs">✓</span>
-              </div>
-              <span className="text-green-700 font-bold text-sm">Solved the mystery! 🕵️</span>
-            </div>
-          )}
         </div>
-      </div>
+      )}
 
       {/* Magic Word Reveal */}
       {roundState?.finished && roundState.word && (
@@ -360,6 +505,46 @@ export function GameSidebar({ gameState, roundState, userTeam, getDisplayName, g
         </div>
       )}
 
+      {/* Word Choice */}
+      {waitingForWord && (
+        <div className="artist-card m-3 p-4 relative z-10 paint-splatter">
+          <div className="flex items-center gap-2 mb-3">
+            <div className="w-8 h-8 bg-studio-yellow rounded-full paint-blob flex items-center justify-center">
+              <span className="text-white text-sm">🃏</span>
+            </div>
+            <h4 className="font-playful text-lg text-studio-purple">
+              {userIsWordChooser ? "Pick a word to draw!" : "Picking a word..."}
+            </h4>
+          </div>
+          {userIsWordChooser ? (
+            <div className="space-y-2">
+              {wordCandidates.map((candidate, index) => (
+                <Button
+                  key={candidate.word}
+                  variant="outline"
+                  onClick={() => handleChooseWord(index)}
+                  disabled={isChoosingWord}
+                  className="w-full flex justify-between"
+                >
+                  <span className="font-bold">{candidate.word}</span>
+                  <span className="text-xs text-gray-600">
+                    {DIFFICULTY_LABELS[candidate.difficulty]} · x{scoringRules.difficultyMultipliers[candidate.difficulty]} points
+                  </span>
+                </Button>
+              ))}
+              <p className="text-xs text-center text-gray-600 font-medium">
+                {gameState.freeForAll ? "The clock starts once you pick! 🤫" : "Every team draws it, the clock starts once you pick! 🤫"}
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              {chooser ? getPlayerDisplayName(chooser) : "The artist"} is choosing this round's word. Harder words are
+              worth more points!
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Artist's Secret Word */}
       {isCurrentArtist() && currentWordForArtist && gameState.started && !gameState.finished && roundState && !roundState.finished && (
         <div className="artist-card m-3 p-4 relative z-10 paint-splatter">
@@ -372,6 +557,14 @@ export function GameSidebar({ gameState, roundState, userTeam, getDisplayName, g
           <div className="text-2xl font-playful text-center py-4 bg-gradient-to-r from-studio-blue to-studio-purple text-black rounded-2xl fun-shadow animate-pulse">
             {currentWordForArtist} 🖌️
           </div>
+          <p className="text-xs text-center text-gray-600 mt-2 font-medium">
+            {DIFFICULTY_LABELS[roundState.difficulty]} word · x{scoringRules.difficultyMultipliers[roundState.difficulty]} points
+          </p>
+          {userPotentialPoints !== null && !gameState.freeForAll && !hasUserGuessed() && (
+            <p className="text-sm text-center text-studio-purple mt-2 font-bold">
+              {speedBonusActive ? "⚡ " : ""}Your team gets {userPotentialPoints} points if they guess it now
+            </p>
+          )}
           <p className="text-xs text-center text-gray-600 mt-2 font-medium">
             Shh! 🤫 Only you can see this!
           </p>
@@ -379,7 +572,7 @@ export function GameSidebar({ gameState, roundState, userTeam, getDisplayName, g
       )}
 
       {/* Magic Guessing Interface */}
-      {userTeam !== null && !gameState.finished && !isCurrentArtist() && gameState.started && !hasUserTeamGuessed() && !roundState?.finished && (
+      {userTeam !== null && !gameState.finished && !isCurrentArtist() && gameState.started && !hasUserGuessed() && roundState?.wordChosen && !roundState.finished && (
         <div className="artist-card m-3 p-4 relative z-10 paint-splatter">
           <div className="flex items-center gap-2 mb-3">
             <div className="w-8 h-8 bg-studio-green rounded-full paint-blob flex items-center justify-center">
@@ -409,14 +602,19 @@ export function GameSidebar({ gameState, roundState, userTeam, getDisplayName, g
               )}
             </Button>
           </div>
+          {userPotentialPoints !== null && (
+            <p className="text-sm text-center text-studio-purple mt-2 font-bold">
+              {speedBonusActive ? "⚡ " : ""}Guess it now for {userPotentialPoints} points!
+            </p>
+          )}
           <p className="text-xs text-center text-gray-600 mt-2 font-medium">
-            🕵️ Study the artwork and make your guess!
+            🕵️ Study the artwork and make your guess! {DIFFICULTY_LABELS[roundState.difficulty]} word, x{scoringRules.difficultyMultipliers[roundState.difficulty]} points
           </p>
         </div>
       )}
 
       {/* Already Solved Message */}
-      {userTeam !== null && !gameState.finished && !isCurrentArtist() && gameState.started && hasUserTeamGuessed() && (
+      {userTeam !== null && !gameState.finished && !isCurrentArtist() && gameState.started && hasUserGuessed() && (
         <div className="artist-card m-3 p-4 relative z-10 bounce-in">
           <div className="flex items-center gap-2 mb-3">
             <div className="w-8 h-8 bg-green-500 rounded-full paint-blob flex items-center justify-center animate-bounce">
@@ -425,9 +623,11 @@ export function GameSidebar({ gameState, roundState, userTeam, getDisplayName, g
             <h4 className="font-playful text-lg text-green-600">Mystery Solved!</h4>
           </div>
           <div className="text-center p-3 bg-green-100 rounded-2xl">
-            <p className="text-green-700 font-bold mb-1">Your team cracked the code</p>
+            <p className="text-green-700 font-bold mb-1">
+              {gameState.freeForAll ? "You cracked the code" : "Your team cracked the code"}
+            </p>
             <p className="text-sm text-green-600">
-              Sit back and watch other teams figure it out! ✨
+              {gameState.freeForAll ? "Sit back and watch the others figure it out! ✨" : "Sit back and watch other teams figure it out! ✨"}
             </p>
           </div>
         </div>
@@ -441,6 +641,28 @@ export function GameSidebar({ gameState, roundState, userTeam, getDisplayName, g
         </div>
       )}
 
+      {/* Guess Feed */}
+      {gameState.started && roundState && (
+        <div className="artist-card m-3 p-4 relative z-10">
+          <div className="flex items-center gap-2 mb-3">
+            <div className="w-8 h-8 bg-studio-pink rounded-full paint-blob flex items-center justify-center">
+              <span className="text-white text-sm">💬</span>
+            </div>
+            <h4 className="font-bubbly text-lg text-studio-pink">Guess Feed</h4>
+          </div>
+          <GuessFeed
+            guesses={guesses}
+            teamNames={teamNames}
+            // Free-for-all players guess for themselves, close guess hints would help their opponents
+            userTeam={gameState.freeForAll ? null : userTeam}
+            roundStartTime={roundState.startTime}
+            roundFinished={roundState.finished}
+            revealedWord={roundState.word}
+            getDisplayName={getPlayerDisplayName}
+          />
+        </div>
+      )}
+
       {/* Remove duplicate next round button - it's already in GameStatus */}
 
       {/* Round History */}
@@ -449,7 +671,20 @@ export function GameSidebar({ gameState, roundState, userTeam, getDisplayName, g
           <div className="w-8 h-8 bg-studio-purple rounded-full paint-blob flex items-center justify-center">
             <span className="text-white text-sm">📜</span>
           </div>
-          <h4 className="font-playful text-lg text-studio-purple">Art History</h4>
+          <h4 className="font-playful text-lg text-studio-purple flex-1">Art History</h4>
+          {roundResults.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExportAllRounds}
+              disabled={exporting !== null}
+              title="Download all drawings as a zip"
+              className="flex items-center gap-1"
+            >
+              <Archive size={14} />
+              {exporting === "all" ? "Zipping..." : "All"}
+            </Button>
+          )}
         </div>
         <div className="space-y-3">
           {roundResults.length === 0 ? (
@@ -458,12 +693,52 @@ export function GameSidebar({ gameState, roundState, userTeam, getDisplayName, g
             roundResults.slice().reverse().map((result) => (
               <div key={result.roundNumber} className="bg-white p-3 rounded-xl border-2 border-gray-200 paint-splatter">
                 <div className="flex justify-between items-center mb-2">
-                  <span className="font-bold text-gray-800">🎭 Round {result.roundNumber}</span>
-                  <span className="text-sm font-medium text-studio-blue bg-blue-50 px-2 py-1 rounded-full">"{result.word}"</span>
+                  <span className="font-bold text-gray-800 flex items-center gap-2">
+                    🎭 Round {result.roundNumber}
+                    <button
+                      onClick={() => setReplayRound(result)}
+                      className="text-gray-600 hover:text-studio-purple"
+                      title="Watch the replay"
+                    >
+                      <Film size={14} />
+                    </button>
+                  </span>
+                  <span
+                    className="text-sm font-medium text-studio-blue bg-blue-50 px-2 py-1 rounded-full"
+                    title={`${DIFFICULTY_LABELS[result.difficulty]} word`}
+                  >
+                    "{result.word}" {DIFFICULTY_EMOJIS[result.difficulty]}
+                  </span>
                 </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-studio-blue font-medium">{gameState.team0Name}: +{result.team0Points} ({result.team0TotalScore})</span>
-                  <span className="text-studio-pink font-medium">{gameState.team1Name}: +{result.team1Points} ({result.team1TotalScore})</span>
+                {result.points && result.totalScores ? (
+                  <div className="flex flex-wrap justify-between gap-x-3 text-sm">
+                    {scoreNames.map((name, index) => (
+                      <span key={index} className={`text-${teamColor(index)} font-medium`}>
+                        {name}: +{result.points?.[index]} ({result.totalScores?.[index]})
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  // The contract scores the round with the next transaction, e.g. a guess or starting the next round
+                  <p className="text-sm text-gray-600 italic">⏳ Waiting for the round to be scored...</p>
+                )}
+                <div className="flex flex-wrap justify-between gap-x-3 mt-2">
+                  {teamNames.map((teamName, team) => (
+                    <div key={team} className="flex items-center gap-1">
+                      <Download size={12} className={`text-${teamColor(team)}`} />
+                      {(["png", "svg"] as const).map((format) => (
+                        <button
+                          key={format}
+                          onClick={() => handleExportRound(result.roundNumber - 1, team, format)}
+                          disabled={exporting !== null}
+                          className="text-xs font-bold text-gray-600 hover:text-studio-purple disabled:opacity-50 uppercase"
+                          title={`Download ${teamName}'s drawing as ${format.toUpperCase()}`}
+                        >
+                          {exporting === `${result.roundNumber - 1}-${team}-${format}` ? "..." : format}
+                        </button>
+                      ))}
+                    </div>
+                  ))}
                 </div>
               </div>
             ))
@@ -471,6 +746,22 @@ export function GameSidebar({ gameState, roundState, userTeam, getDisplayName, g
         </div>
       </div>
 
+      {replayRound && (
+        <RoundReplay
+          open={replayRound !== null}
+          onClose={() => setReplayRound(null)}
+          gameAddress={gameAddress}
+          roundNumber={replayRound.roundNumber - 1}
+          word={replayRound.word}
+          startTime={replayRound.startTime}
+          durationSeconds={replayRound.durationSeconds}
+          teamNames={teamNames}
+          width={gameState.canvasWidth}
+          height={gameState.canvasHeight}
+          palette={resolvePalette(gameState.palette)}
+        />
+      )}
+
       {/* Game Over Celebration */}
       {gameState.finished && gameState.winner !== null && (
         <div className="artist-card m-3 p-4 relative z-10 bounce-in paint-splatter">
@@ -482,10 +773,12 @@ export function GameSidebar({ gameState, roundState, userTeam, getDisplayName, g
               🎉 Art Champions! 🎉
             </h3>
             <p className="font-bold text-lg text-gray-800 mb-2">
-              {gameState.winner === 0 ? gameState.team0Name : gameState.team1Name} are the winners!
+              {gameState.freeForAll
+                ? `${scoreNames[gameState.winner]} is the winner!`
+                : `${teamNames[gameState.winner]} are the winners!`}
             </p>
             <p className="text-sm text-gray-600">
-              Final Masterpiece Score: {currentScores.team0Score} - {currentScores.team1Score} 🎨
+              Final Masterpiece Score: {currentScores.scores.join(" - ")} 🎨
             </p>
           </div>
         </div>
@@ -4,6 +4,8 @@ import { useAuthStore } from "@/store/auth";
 import { Button } from "@/components/ui/button";
 import { Play, SkipForward, Clock } from "lucide-react";
 import { calculateCurrentScores } from "@/utils/gameLogic";
+import { ScoringMode } from "@/utils/scoring";
+import { DIFFICULTY_LABELS, WordDifficulty } from "@/utils/wordPacks";
 
 interface GameStatusProps {
   gameState: {
@@ -11,23 +13,26 @@ interface GameStatusProps {
     started: boolean;
     finished: boolean;
     currentRound: number;
-    team0Score: number;
-    team1Score: number;
+    teams: { name: string; players: AccountAddress[]; currentArtist: number }[];
+    scores: number[];
+    freeForAll: boolean;
     targetScore: number;
-    team0Name: string;
-    team1Name: string;
+    winner: number | null;
+    scoringMode: ScoringMode;
   };
   roundState: {
     startTime: number;
     durationSeconds: number;
     finished: boolean;
-    team0Guessed: boolean;
-    team1Guessed: boolean;
-    team0GuessTime: number | null;
-    team1GuessTime: number | null;
+    processed: boolean;
+    guessTimes: (number | null)[];
+    wordChosen: boolean;
+    difficulty: WordDifficulty;
+    artist: number | null;
   } | null;
   userTeam: number | null;
   isCurrentArtist: boolean;
+  getDisplayName: (address: AccountAddress) => string;
   onStartGame: () => void;
   onNextRound: () => void;
 }
@@ -37,6 +42,7 @@ export function GameStatus({
   roundState,
   userTeam,
   isCurrentArtist,
+  getDisplayName,
   onStartGame,
   onNextRound,
 }: GameStatusProps) {
@@ -86,7 +92,17 @@ export function GameStatus({
 
     // Check if game is actually over based on calculated scores
     if (gameState.finished || currentScores.gameOver) {
-      const winnerName = currentScores.winner === 0 ? gameState.team0Name : gameState.team1Name;
+      // Free-for-all games are won by a player rather than a team
+      if (gameState.freeForAll) {
+        const winner = currentScores.winner !== null ? gameState.teams[0].players[currentScores.winner] : null;
+        return {
+          text: `${winner ? getDisplayName(winner) : ""} is the art champion!`,
+          emoji: "🏆",
+          color: "studio-yellow"
+        };
+      }
+
+      const winnerName = currentScores.winner !== null ? gameState.teams[currentScores.winner].name : "";
       return { 
         text: `${winnerName} are the art champions!`, 
         emoji: "🏆", 
@@ -110,6 +126,14 @@ export function GameStatus({
       };
     }
 
+    if (!roundState.wordChosen) {
+      return {
+        text: gameState.freeForAll ? "The artist is picking a word..." : "The artists are picking a word...",
+        emoji: "🤔",
+        color: "studio-purple"
+      };
+    }
+
     if (userTeam === null) {
       return { 
         text: "You're enjoying the art show!", 
@@ -158,6 +182,7 @@ export function GameStatus({
               <p className="text-sm font-bold text-gray-600 flex items-center gap-1">
                 <span className="w-4 h-4 bg-studio-blue rounded-full paint-blob inline-block"></span>
                 Round {gameState.currentRound} - Art in Progress!
+                {roundState.wordChosen && ` ${DIFFICULTY_LABELS[roundState.difficulty]} word`}
               </p>
             )}
           </div>
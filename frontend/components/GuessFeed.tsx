@@ -0,0 +1,115 @@
+import { useEffect, useRef } from "react";
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { FeedGuess, groupGuessesByTeam, isGuessMasked } from "@/utils/guessFeed";
+import { teamColor } from "@/utils/teams";
+
+interface GuessFeedProps {
+  guesses: FeedGuess[];
+  teamNames: string[];
+  userTeam: number | null;
+  roundStartTime: number;
+  roundFinished: boolean;
+  // The round's word once it's revealed, empty while the round is in progress
+  revealedWord: string;
+  getDisplayName: (address: AccountAddress) => string;
+}
+
+const formatGuessTime = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, "0")}`;
+};
+
+// One team's guesses, kept scrolled to the newest guess like a chat
+function TeamGuesses({
+  guesses,
+  teamName,
+  color,
+  showHints,
+  masked,
+  revealedWord,
+  roundStartTime,
+  getDisplayName,
+}: {
+  guesses: FeedGuess[];
+  teamName: string;
+  color: string;
+  showHints: boolean;
+  masked: (guess: FeedGuess) => boolean;
+  revealedWord: string;
+  roundStartTime: number;
+  getDisplayName: (address: AccountAddress) => string;
+}) {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [guesses.length]);
+
+  return (
+    <div>
+      <p className={`font-bouncy text-sm text-${color} mb-1`}>{teamName}</p>
+      <div ref={listRef} className="max-h-40 overflow-y-auto space-y-1 pr-1">
+        {guesses.length === 0 ? (
+          <p className="text-xs text-gray-500 italic">No guesses yet</p>
+        ) : (
+          guesses.map((guess, index) => (
+            <div
+              key={index}
+              className={`text-sm rounded-lg px-2 py-1 ${guess.correct ? "bg-green-100" : "bg-white/70"}`}
+            >
+              <div className="flex justify-between gap-2 text-xs text-gray-500">
+                <span className="font-bold truncate">{getDisplayName(guess.guesser)}</span>
+                <span>{formatGuessTime(guess.timestamp - roundStartTime)}</span>
+              </div>
+              {masked(guess) ? (
+                <p className="font-medium text-green-700">🤐 Guessed the word!</p>
+              ) : guess.correct ? (
+                // The contract leaves the text out of correct guesses, show the word once it's revealed
+                <p className="font-medium break-words text-green-700">
+                  {guess.guess || revealedWord || "🎉 Guessed the word!"} ✓
+                </p>
+              ) : (
+                <p className="font-medium break-words text-gray-800">
+                  {guess.guess}
+                  {showHints && guess.close && <span title="Almost the word"> 🔥</span>}
+                </p>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function GuessFeed({
+  guesses,
+  teamNames,
+  userTeam,
+  roundStartTime,
+  roundFinished,
+  revealedWord,
+  getDisplayName,
+}: GuessFeedProps) {
+  const guessesByTeam = groupGuessesByTeam(guesses, teamNames.length);
+
+  return (
+    <div className="space-y-3">
+      {teamNames.map((teamName, team) => (
+        <TeamGuesses
+          key={team}
+          guesses={guessesByTeam[team]}
+          teamName={teamName}
+          color={teamColor(team)}
+          // Close guess hints are for the guessing team, they'd help the other team too
+          showHints={team === userTeam || roundFinished}
+          masked={guess => isGuessMasked(guess, userTeam, roundFinished)}
+          revealedWord={revealedWord}
+          roundStartTime={roundStartTime}
+          getDisplayName={getDisplayName}
+        />
+      ))}
+    </div>
+  );
+}
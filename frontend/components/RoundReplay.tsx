@@ -0,0 +1,259 @@
+import { useEffect, useRef, useState } from "react";
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Play, Pause, RotateCcw } from "lucide-react";
+import { aptos } from "@/utils/aptos";
+import { fetchRoundEvents } from "@/utils/gameEvents";
+import { RoundReplay as Replay, buildRoundReplay, countVisibleDeltas, getReplayDeltas } from "@/utils/replay";
+import { decodeStrokes } from "@/utils/strokes";
+import { BACKGROUND_COLOR, renderStroke } from "@/utils/canvasRender";
+import { Palette } from "@/utils/palette";
+import { defaultTeamName, teamColor } from "@/utils/teams";
+
+interface RoundReplayProps {
+  open: boolean;
+  onClose: () => void;
+  gameAddress: AccountAddress;
+  roundNumber: number; // 0-based like in the contract
+  word: string;
+  startTime: number;
+  durationSeconds: number;
+  teamNames: string[];
+  width: number;
+  height: number;
+  palette: Palette;
+}
+
+const PLAYBACK_SPEEDS = [1, 2, 4, 8];
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, "0")}`;
+};
+
+// One team's canvas, repainted whenever more or fewer of its deltas are visible
+function ReplayCanvas({
+  replay,
+  team,
+  time,
+  width,
+  height,
+  palette,
+}: {
+  replay: Replay;
+  team: number;
+  time: number;
+  width: number;
+  height: number;
+  palette: Palette;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const visibleCount = countVisibleDeltas(replay, team, time);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+
+    ctx.fillStyle = BACKGROUND_COLOR;
+    ctx.fillRect(0, 0, width, height);
+    decodeStrokes(getReplayDeltas(replay, team, visibleCount)).forEach(stroke => renderStroke(ctx, stroke, palette));
+  }, [replay, team, visibleCount, width, height, palette]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className="w-full h-auto border-2 border-gray-300 rounded-xl bg-white"
+    />
+  );
+}
+
+export function RoundReplay({
+  open,
+  onClose,
+  gameAddress,
+  roundNumber,
+  word,
+  startTime,
+  durationSeconds,
+  teamNames,
+  width,
+  height,
+  palette,
+}: RoundReplayProps) {
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(PLAYBACK_SPEEDS[1]);
+
+  // Load the round's events whenever the replay is opened
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setReplay(null);
+    setError(null);
+    setTime(0);
+    setIsPlaying(false);
+
+    fetchRoundEvents(aptos, gameAddress, roundNumber)
+      .then(events => {
+        if (cancelled) return;
+        setReplay(buildRoundReplay(events, startTime, durationSeconds, teamNames.length));
+        setIsPlaying(true);
+      })
+      .catch(error => {
+        console.error("Failed to load round replay:", error);
+        if (!cancelled) setError("Couldn't load this round's drawings. Please try again.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, gameAddress, roundNumber, startTime, durationSeconds, teamNames.length]);
+
+  // Advance the replay every animation frame while playing
+  useEffect(() => {
+    if (!isPlaying || !replay) return;
+
+    let frame: number;
+    let lastFrameTime = performance.now();
+
+    const tick = (now: number) => {
+      const elapsed = ((now - lastFrameTime) / 1000) * speed;
+      lastFrameTime = now;
+
+      setTime(prev => Math.min(prev + elapsed, replay.duration));
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, replay, speed]);
+
+  // Stop once the replay reaches its end
+  useEffect(() => {
+    if (replay && time >= replay.duration) setIsPlaying(false);
+  }, [replay, time]);
+
+  const togglePlaying = () => {
+    if (!replay) return;
+
+    // Start over when playing a replay that has reached its end
+    if (!isPlaying && time >= replay.duration) setTime(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto artist-card border-0 p-0">
+        <div className="studio-header rounded-t-2xl p-6">
+          <DialogHeader>
+            <DialogTitle className="font-bubbly text-3xl text-white drop-shadow-lg">
+              🎬 Round {roundNumber + 1} Replay
+            </DialogTitle>
+            <DialogDescription className="text-white/90 text-lg font-medium">
+              The word was "{word}"
+            </DialogDescription>
+          </DialogHeader>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error ? (
+            <p className="text-center text-studio-red font-medium">{error}</p>
+          ) : !replay ? (
+            <p className="text-center text-gray-600 italic">Loading the drawings... 🎨</p>
+          ) : (
+            <>
+              {/* The teams' drawings side by side */}
+              <div className={`grid gap-4 ${teamNames.length > 2 ? "grid-cols-2 md:grid-cols-3" : "grid-cols-2"}`}>
+                {teamNames.map((teamName, team) => (
+                  <div key={team} className="space-y-2">
+                    <p className={`font-bouncy text-center text-${teamColor(team)}`}>{teamName}</p>
+                    <ReplayCanvas
+                      replay={replay}
+                      team={team}
+                      time={time}
+                      width={width}
+                      height={height}
+                      palette={palette}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {/* Timeline with guess markers */}
+              <div className="relative pt-6">
+                {replay.guesses.map((guess, index) => (
+                  <button
+                    key={index}
+                    className={`absolute top-0 -translate-x-1/2 w-4 h-4 rounded-full border-2 border-white shadow bg-${
+                      teamColor(guess.team)
+                    } ${guess.correct ? "ring-2 ring-studio-green" : ""}`}
+                    style={{ left: `${(guess.time / Math.max(replay.duration, 1)) * 100}%` }}
+                    title={`${teamNames[guess.team] ?? defaultTeamName(guess.team)} guessed "${guess.guess || word}" at ${formatTime(guess.time)}${guess.correct ? " ✓" : ""}`}
+                    onClick={() => setTime(guess.time)}
+                  />
+                ))}
+                <input
+                  type="range"
+                  min={0}
+                  max={replay.duration}
+                  step={0.1}
+                  value={time}
+                  onChange={(e) => {
+                    setIsPlaying(false);
+                    setTime(Number(e.target.value));
+                  }}
+                  className="w-full"
+                />
+              </div>
+
+              {/* Playback controls */}
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={togglePlaying} title={isPlaying ? "Pause" : "Play"}>
+                    {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setTime(0)}
+                    title="Back to the start"
+                  >
+                    <RotateCcw size={16} />
+                  </Button>
+                  <span className="text-sm font-medium text-gray-700">
+                    {formatTime(time)} / {formatTime(replay.duration)}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1">
+                  {PLAYBACK_SPEEDS.map(playbackSpeed => (
+                    <Button
+                      key={playbackSpeed}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSpeed(playbackSpeed)}
+                      className={speed === playbackSpeed ? "border-studio-blue ring-2 ring-studio-blue ring-opacity-50" : ""}
+                    >
+                      {playbackSpeed}x
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { useAuthStore } from "@/store/auth";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { Copy, Lock, LockOpen, UserPlus } from "lucide-react";
+import { buildJoinTeamPayload, buildSetTeamsLockedPayload } from "@/entry-functions/enrollment";
+import { aptos } from "@/utils/aptos";
+import { MAX_TEAM_SIZE, MIN_TEAM_SIZE, teamColor } from "@/utils/teams";
+
+interface TeamEnrollmentProps {
+  gameAddress: AccountAddress;
+  gameState: {
+    creator: AccountAddress;
+    teams: { name: string; players: AccountAddress[] }[];
+    teamsLocked: boolean;
+  };
+  userTeam: number | null;
+  getDisplayName: (address: AccountAddress) => string;
+  onRefreshGameState: () => Promise<void>;
+}
+
+/**
+ * Pre-game lobby of a game players join from an invite link
+ * Players pick their own team until the creator locks the teams or starts the game
+ */
+export function TeamEnrollment({
+  gameAddress,
+  gameState,
+  userTeam,
+  getDisplayName,
+  onRefreshGameState,
+}: TeamEnrollmentProps) {
+  const account = useAuthStore(state => state.activeAccount);
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const inviteLink = `${window.location.origin}/${gameAddress.toString()}`;
+  const isCreator = account?.accountAddress.equals(gameState.creator) ?? false;
+  const teams = gameState.teams;
+  const teamsReady = teams.every(team => team.players.length >= MIN_TEAM_SIZE);
+
+  const copyInviteLink = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      toast({ title: "Invite link copied! 🔗", description: "Share it with your friends so they can pick a team." });
+    } catch (error) {
+      console.error("Failed to copy invite link:", error);
+      toast({ title: "Error", description: "Couldn't copy the link, copy it by hand instead.", variant: "destructive" });
+    }
+  };
+
+  // Submit an enrollment transaction and reload the game once it's confirmed
+  const submit = async (data: ReturnType<typeof buildJoinTeamPayload | typeof buildSetTeamsLockedPayload>, failure: string) => {
+    if (!account) {
+      alert("Please connect your wallet");
+      return;
+    }
+    if (isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      const transaction = await aptos.transaction.build.simple({
+        sender: account.accountAddress,
+        data,
+      });
+      const result = await aptos.signAndSubmitTransaction({
+        signer: account,
+        transaction,
+      });
+      await aptos.waitForTransaction({ transactionHash: result.hash });
+
+      await onRefreshGameState();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({ title: "Error", description: `${failure}. Please try again.`, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const joinTeam = (team: number) => submit(buildJoinTeamPayload(gameAddress, team), "Failed to join the team");
+
+  const toggleTeamsLocked = () =>
+    submit(
+      buildSetTeamsLockedPayload(gameAddress, !gameState.teamsLocked),
+      gameState.teamsLocked ? "Failed to unlock the teams" : "Failed to lock the teams"
+    );
+
+  return (
+    <div className="artist-card p-6 w-full max-w-2xl space-y-6 bounce-in">
+      <div className="text-center">
+        <h2 className="font-playful text-2xl text-studio-purple mb-1">Pick Your Team! 🎨</h2>
+        <p className="text-sm text-gray-600">
+          {gameState.teamsLocked
+            ? "The teams are locked, waiting for the game to start."
+            : "Share the invite link, everyone who opens it can join a team."}
+        </p>
+      </div>
+
+      {/* Invite link */}
+      <div className="flex items-center gap-2">
+        <input
+          readOnly
+          value={inviteLink}
+          onFocus={e => e.target.select()}
+          className="flex-1 px-3 py-2 border-2 border-gray-300 rounded-xl text-sm bg-gray-50 text-gray-700"
+        />
+        <Button variant="outline" onClick={copyInviteLink} className="flex items-center gap-2">
+          <Copy size={16} />
+          Copy
+        </Button>
+      </div>
+
+      {/* Teams */}
+      <div className={`grid gap-4 ${teams.length > 2 ? "grid-cols-2 md:grid-cols-3" : "grid-cols-2"}`}>
+        {teams.map((team, index) => {
+          const isFull = team.players.length >= MAX_TEAM_SIZE;
+          const color = teamColor(index);
+
+          return (
+            <div key={index} className={`rounded-xl border-2 border-${color} p-4 space-y-3`}>
+              <div className="flex items-center justify-between">
+                <h3 className={`font-bouncy text-lg text-${color}`}>{team.name}</h3>
+                <span className="text-xs font-bold text-gray-500">
+                  {team.players.length}/{MAX_TEAM_SIZE}
+                </span>
+              </div>
+              <ul className="space-y-1 min-h-[4rem]">
+                {team.players.map(player => (
+                  <li key={player.toString()} className="text-sm text-gray-700 truncate">
+                    {getDisplayName(player)}
+                    {player.equals(gameState.creator) && " 👑"}
+                    {account?.accountAddress.equals(player) && " (you)"}
+                  </li>
+                ))}
+              </ul>
+              {account && userTeam !== index && (
+                <Button
+                  onClick={() => joinTeam(index)}
+                  disabled={isSubmitting || gameState.teamsLocked || isFull}
+                  className={`w-full bg-${color} text-white font-bold flex items-center justify-center gap-2`}
+                >
+                  <UserPlus size={16} />
+                  {isFull ? "Team full" : userTeam === null ? "Join" : "Switch"}
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Creator controls */}
+      <div className="flex items-center justify-between gap-4">
+        <p className={`text-sm font-medium ${teamsReady ? "text-studio-green" : "text-gray-600"}`}>
+          {teamsReady
+            ? "All teams are ready, the creator can start the game!"
+            : `Each team needs at least ${MIN_TEAM_SIZE} players to start.`}
+        </p>
+        {isCreator && (
+          <Button
+            variant="outline"
+            onClick={toggleTeamsLocked}
+            disabled={isSubmitting}
+            className="flex items-center gap-2 shrink-0"
+          >
+            {gameState.teamsLocked ? <LockOpen size={16} /> : <Lock size={16} />}
+            {gameState.teamsLocked ? "Unlock teams" : "Lock teams"}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
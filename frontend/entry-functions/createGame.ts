@@ -1,34 +1,160 @@
 import { AccountAddress } from "@aptos-labs/ts-sdk";
 import { MODULE_ADDRESS } from "@/constants";
+import { MAX_PALETTE_SIZE } from "@/utils/palette";
+import { DEFAULT_CLOSE_GUESS_DISTANCE, MAX_CLOSE_GUESS_DISTANCE } from "@/utils/guess";
+import { TaggedWord, difficultyValue, validateWordList } from "@/utils/wordPacks";
+import { SCORING_MODES, ScoringMode } from "@/utils/scoring";
+import { MAX_TEAMS, MIN_FREE_FOR_ALL_PLAYERS, MIN_TEAMS } from "@/utils/teams";
 
 export type CreateGameArguments = {
-  team0Players: AccountAddress[];
-  team1Players: AccountAddress[];
-  team0Name: string;
-  team1Name: string;
+  // Players of each team in team order, MIN_TEAMS to MAX_TEAMS teams
+  teamPlayers: AccountAddress[][];
+  // Name of each team in team order, empty names are replaced with "Team 1", "Team 2" and so on
+  teamNames: string[];
   targetScore: number;
   canvasWidth: number;
   canvasHeight: number;
   roundDuration: number;
+  // Custom palette as 0xRRGGBB colors, empty or omitted for the default palette
+  palette?: number[];
+  // Wrong guesses within this edit distance of the word are flagged as close, 0 disables close guesses
+  closeGuessDistance?: number;
+  // Custom word list in normalized form, empty or omitted to draw words from the global word list
+  words?: TaggedWord[];
+  // Artists choose each round's word from a few candidates instead of getting a random one
+  wordChoice?: boolean;
+  // Classic scoring when omitted, time bonus games also reward guessing fast
+  scoringMode?: ScoringMode;
+};
+
+// Games players join from an invite link start out with only the creator, on team 0
+export type CreateOpenGameArguments = Omit<CreateGameArguments, "teamPlayers">;
+
+// Everyone plays for themselves in free-for-all games, taking turns drawing in the order the players are listed
+export type CreateFreeForAllGameArguments = Omit<CreateGameArguments, "teamPlayers" | "teamNames"> & {
+  players: AccountAddress[];
+};
+
+const checkTeamCount = (teamCount: number) => {
+  if (teamCount < MIN_TEAMS || teamCount > MAX_TEAMS) {
+    throw new Error(`A game needs between ${MIN_TEAMS} and ${MAX_TEAMS} teams`);
+  }
+};
+
+const checkPalette = (palette: number[] = []): number[] => {
+  if (palette.length > MAX_PALETTE_SIZE) {
+    throw new Error(`A palette can have at most ${MAX_PALETTE_SIZE} colors`);
+  }
+  return palette;
+};
+
+const checkCloseGuessDistance = (distance: number = DEFAULT_CLOSE_GUESS_DISTANCE): number => {
+  if (!Number.isInteger(distance) || distance < 0 || distance > MAX_CLOSE_GUESS_DISTANCE) {
+    throw new Error(`The close guess distance must be between 0 and ${MAX_CLOSE_GUESS_DISTANCE}`);
+  }
+  return distance;
+};
+
+const checkWords = (words: TaggedWord[] = []): TaggedWord[] => {
+  const problem = validateWordList(words);
+  if (problem) {
+    throw new Error(problem);
+  }
+  return words;
 };
 
 /**
  * Build payload for creating a new Pictionary game using native Aptos SDK
  * Returns the transaction payload to be used with keyless accounts
+ * Move function: create_game(creator: &signer, team_players: vector<vector<address>>, team_names: vector<String>, ..., words: vector<String>, word_difficulties: vector<u8>, word_choice: bool, scoring_mode: u8)
  */
 export const buildCreateGamePayload = (args: CreateGameArguments) => {
+  checkTeamCount(args.teamNames.length);
+  if (args.teamPlayers.length !== args.teamNames.length) {
+    throw new Error("Every team needs a name and a list of players");
+  }
+  const palette = checkPalette(args.palette);
+  const closeGuessDistance = checkCloseGuessDistance(args.closeGuessDistance);
+  const words = checkWords(args.words);
+
   return {
     function: `${MODULE_ADDRESS}::pictionary::create_game` as const,
     functionArguments: [
       // Note: Do NOT include the signer parameter - it's handled automatically by the SDK
-      args.team0Players.map((addr) => addr.toString()),
-      args.team1Players.map((addr) => addr.toString()),
-      args.team0Name,
-      args.team1Name,
+      args.teamPlayers.map((players) => players.map((addr) => addr.toString())),
+      args.teamNames,
+      args.targetScore.toString(),
+      args.canvasWidth.toString(),
+      args.canvasHeight.toString(),
+      args.roundDuration.toString(),
+      palette.map((color) => color.toString()),
+      closeGuessDistance.toString(),
+      words.map(({ word }) => word),
+      words.map(({ difficulty }) => difficultyValue(difficulty).toString()),
+      args.wordChoice ?? false,
+      SCORING_MODES.indexOf(args.scoringMode ?? "classic").toString(),
+    ],
+    typeArguments: [],
+  };
+};
+
+/**
+ * Build payload for creating a game whose players join teams themselves, e.g. from an invite link
+ * Move function: create_open_game(creator: &signer, team_names: vector<String>, ..., word_choice: bool, scoring_mode: u8)
+ */
+export const buildCreateOpenGamePayload = (args: CreateOpenGameArguments) => {
+  checkTeamCount(args.teamNames.length);
+  const palette = checkPalette(args.palette);
+  const closeGuessDistance = checkCloseGuessDistance(args.closeGuessDistance);
+  const words = checkWords(args.words);
+
+  return {
+    function: `${MODULE_ADDRESS}::pictionary::create_open_game` as const,
+    functionArguments: [
+      // Note: Do NOT include the signer parameter - it's handled automatically by the SDK
+      args.teamNames,
+      args.targetScore.toString(),
+      args.canvasWidth.toString(),
+      args.canvasHeight.toString(),
+      args.roundDuration.toString(),
+      palette.map((color) => color.toString()),
+      closeGuessDistance.toString(),
+      words.map(({ word }) => word),
+      words.map(({ difficulty }) => difficultyValue(difficulty).toString()),
+      args.wordChoice ?? false,
+      SCORING_MODES.indexOf(args.scoringMode ?? "classic").toString(),
+    ],
+    typeArguments: [],
+  };
+};
+
+/**
+ * Build payload for creating a free-for-all game, scores are kept per player instead of per team
+ * Move function: create_free_for_all_game(creator: &signer, players: vector<address>, ..., word_choice: bool, scoring_mode: u8)
+ */
+export const buildCreateFreeForAllGamePayload = (args: CreateFreeForAllGameArguments) => {
+  if (args.players.length < MIN_FREE_FOR_ALL_PLAYERS) {
+    throw new Error(`A free-for-all game needs at least ${MIN_FREE_FOR_ALL_PLAYERS} players`);
+  }
+  const palette = checkPalette(args.palette);
+  const closeGuessDistance = checkCloseGuessDistance(args.closeGuessDistance);
+  const words = checkWords(args.words);
+
+  return {
+    function: `${MODULE_ADDRESS}::pictionary::create_free_for_all_game` as const,
+    functionArguments: [
+      // Note: Do NOT include the signer parameter - it's handled automatically by the SDK
+      args.players.map((addr) => addr.toString()),
       args.targetScore.toString(),
       args.canvasWidth.toString(),
       args.canvasHeight.toString(),
       args.roundDuration.toString(),
+      palette.map((color) => color.toString()),
+      closeGuessDistance.toString(),
+      words.map(({ word }) => word),
+      words.map(({ difficulty }) => difficultyValue(difficulty).toString()),
+      args.wordChoice ?? false,
+      SCORING_MODES.indexOf(args.scoringMode ?? "classic").toString(),
     ],
     typeArguments: [],
   };
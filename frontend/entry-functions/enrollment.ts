@@ -0,0 +1,34 @@
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { MODULE_ADDRESS } from "@/constants";
+
+/**
+ * Build payload for joining (or switching to) a team of a game players join from an invite link
+ * Move function: join_team(player: &signer, game_address: address, team: u64)
+ */
+export const buildJoinTeamPayload = (gameAddress: AccountAddress, team: number) => {
+  return {
+    function: `${MODULE_ADDRESS}::pictionary::join_team` as const,
+    functionArguments: [
+      // Note: Do NOT include the signer parameter - it's handled automatically by the SDK
+      gameAddress.toString(),
+      team.toString(),
+    ],
+    typeArguments: [],
+  };
+};
+
+/**
+ * Build payload for locking or unlocking the teams before the game starts (creator only)
+ * Move function: set_teams_locked(creator: &signer, game_address: address, locked: bool)
+ */
+export const buildSetTeamsLockedPayload = (gameAddress: AccountAddress, locked: boolean) => {
+  return {
+    function: `${MODULE_ADDRESS}::pictionary::set_teams_locked` as const,
+    functionArguments: [
+      // Note: Do NOT include the signer parameter - it's handled automatically by the SDK
+      gameAddress.toString(),
+      locked,
+    ],
+    typeArguments: [],
+  };
+};
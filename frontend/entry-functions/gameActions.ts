@@ -1,5 +1,6 @@
 import { AccountAddress } from "@aptos-labs/ts-sdk";
 import { MODULE_ADDRESS } from "@/constants";
+import { Palette, isValidColorIndex } from "@/utils/palette";
 
 /**
  * Build payload for starting a game (creator only)
@@ -18,22 +19,50 @@ export const buildStartGamePayload = (gameAddress: AccountAddress) => {
 
 /**
  * Build payload for submitting canvas drawing deltas
- * Move function: submit_canvas_delta(artist: &signer, game_address: address, team: u64, positions: vector<u16>, colors: vector<u8>)
+ * Move function: submit_canvas_delta(artist: &signer, game_address: address, team: u64, first_sequence: u32, positions: vector<u32>, colors: vector<u8>, brush_sizes: vector<u8>)
+ * The contract rejects the deltas unless the team's canvas log currently holds exactly `firstSequence` deltas
  */
 export const buildSubmitCanvasDeltaPayload = (
   gameAddress: AccountAddress,
   team: number,
+  firstSequence: number,
   positions: number[],
   colors: number[],
+  brushSizes: number[],
+  palette: Palette,
 ) => {
+  // The contract rejects colors outside the game's palette, fail before paying for the transaction
+  const invalidColor = colors.find((color) => !isValidColorIndex(palette, color));
+  if (invalidColor !== undefined) {
+    throw new Error(`Color index ${invalidColor} is outside the game's palette`);
+  }
+
   return {
     function: `${MODULE_ADDRESS}::pictionary::submit_canvas_delta` as const,
     functionArguments: [
       // Note: Do NOT include the signer parameter - it's handled automatically by the SDK
       gameAddress.toString(),
       team.toString(),
+      firstSequence.toString(),
       positions.map((p) => p.toString()),
       colors.map((c) => c.toString()),
+      brushSizes.map((b) => b.toString()),
+    ],
+    typeArguments: [],
+  };
+};
+
+/**
+ * Build payload for choosing the round's word from its candidates, in games where artists choose their words
+ * Move function: choose_word(artist: &signer, game_address: address, choice: u64)
+ */
+export const buildChooseWordPayload = (gameAddress: AccountAddress, choice: number) => {
+  return {
+    function: `${MODULE_ADDRESS}::pictionary::choose_word` as const,
+    functionArguments: [
+      // Note: Do NOT include the signer parameter - it's handled automatically by the SDK
+      gameAddress.toString(),
+      choice.toString(),
     ],
     typeArguments: [],
   };
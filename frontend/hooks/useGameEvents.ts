@@ -0,0 +1,17 @@
+import { useEffect, useRef } from "react";
+import { GameEventListener, GameEventSource } from "@/utils/gameEvents";
+
+/**
+ * Hook to listen to a game's live events for as long as the component is mounted
+ * The listener may change between renders without resubscribing
+ */
+export function useGameEvents(source: GameEventSource | null | undefined, listener: GameEventListener) {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    if (!source) return;
+
+    return source.subscribe((event) => listenerRef.current(event));
+  }, [source]);
+}
@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import { AccountAddress, Aptos } from "@aptos-labs/ts-sdk";
+import { GameEventSource, fetchRoundEvents } from "@/utils/gameEvents";
+import { FeedGuess, mergeGuesses } from "@/utils/guessFeed";
+import { useGameEvents } from "@/hooks/useGameEvents";
+
+/**
+ * Hook to follow the guesses of a round: the ones already made and new ones as they come in
+ * Round numbers are 0-based like in the contract, null while no round has started
+ */
+export function useGuessFeed(
+  aptos: Aptos,
+  gameAddress: AccountAddress,
+  roundNumber: number | null,
+  eventSource: GameEventSource | null | undefined,
+): FeedGuess[] {
+  const [guesses, setGuesses] = useState<FeedGuess[]>([]);
+
+  // Start over with the round's past guesses whenever the round changes
+  useEffect(() => {
+    setGuesses([]);
+    if (roundNumber === null) return;
+
+    let cancelled = false;
+    fetchRoundEvents(aptos, gameAddress, roundNumber, ["GuessSubmitted"])
+      .then((events) => {
+        if (cancelled) return;
+        const pastGuesses = events.flatMap((event) => (event.type === "GuessSubmitted" ? [event] : []));
+        setGuesses((feed) => mergeGuesses(feed, pastGuesses));
+      })
+      .catch((error) => console.error("Failed to load the round's guesses:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [aptos, gameAddress, roundNumber]);
+
+  useGameEvents(eventSource, (event) => {
+    if (event.type !== "GuessSubmitted" || event.roundNumber !== roundNumber) return;
+    setGuesses((feed) => mergeGuesses(feed, [event]));
+  });
+
+  return guesses;
+}
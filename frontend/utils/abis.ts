@@ -10,7 +10,16 @@ export const PICTIONARY_ABI = {
   friends: [],
   exposed_functions: [
     {
-      name: "create_game",
+      name: "choose_word",
+      visibility: "public",
+      is_entry: true,
+      is_view: false,
+      generic_type_params: [],
+      params: ["&signer", "address", "u64"],
+      return: [],
+    },
+    {
+      name: "create_free_for_all_game",
       visibility: "public",
       is_entry: true,
       is_view: false,
@@ -18,13 +27,48 @@ export const PICTIONARY_ABI = {
       params: [
         "&signer",
         "vector<address>",
-        "vector<address>",
-        "0x1::string::String",
-        "0x1::string::String",
         "u64",
         "u16",
         "u16",
         "u64",
+        "vector<u32>",
+        "u64",
+        "vector<0x1::string::String>",
+        "vector<u8>",
+        "bool",
+        "u8",
+      ],
+      return: [],
+    },
+    {
+      name: "create_free_for_all_game_inner",
+      visibility: "public",
+      is_entry: false,
+      is_view: false,
+      generic_type_params: [],
+      params: ["&signer", "vector<address>", "u64", "u16", "u16", "u64", "vector<u32>"],
+      return: ["address"],
+    },
+    {
+      name: "create_game",
+      visibility: "public",
+      is_entry: true,
+      is_view: false,
+      generic_type_params: [],
+      params: [
+        "&signer",
+        "vector<vector<address>>",
+        "vector<0x1::string::String>",
+        "u64",
+        "u16",
+        "u16",
+        "u64",
+        "vector<u32>",
+        "u64",
+        "vector<0x1::string::String>",
+        "vector<u8>",
+        "bool",
+        "u8",
       ],
       return: [],
     },
@@ -34,16 +78,55 @@ export const PICTIONARY_ABI = {
       is_entry: false,
       is_view: false,
       generic_type_params: [],
+      params: ["&signer", "vector<vector<address>>", "vector<0x1::string::String>", "u64", "u16", "u16", "u64"],
+      return: ["address"],
+    },
+    {
+      name: "create_open_game",
+      visibility: "public",
+      is_entry: true,
+      is_view: false,
+      generic_type_params: [],
       params: [
         "&signer",
-        "vector<address>",
-        "vector<address>",
-        "0x1::string::String",
-        "0x1::string::String",
+        "vector<0x1::string::String>",
         "u64",
         "u16",
         "u16",
         "u64",
+        "vector<u32>",
+        "u64",
+        "vector<0x1::string::String>",
+        "vector<u8>",
+        "bool",
+        "u8",
+      ],
+      return: [],
+    },
+    {
+      name: "create_open_game_inner",
+      visibility: "public",
+      is_entry: false,
+      is_view: false,
+      generic_type_params: [],
+      params: ["&signer", "vector<0x1::string::String>", "u64", "u16", "u16", "u64", "vector<u32>"],
+      return: ["address"],
+    },
+    {
+      name: "create_game_with_palette_inner",
+      visibility: "public",
+      is_entry: false,
+      is_view: false,
+      generic_type_params: [],
+      params: [
+        "&signer",
+        "vector<vector<address>>",
+        "vector<0x1::string::String>",
+        "u64",
+        "u16",
+        "u16",
+        "u64",
+        "vector<u32>",
       ],
       return: ["address"],
     },
@@ -55,9 +138,27 @@ export const PICTIONARY_ABI = {
       generic_type_params: [],
       params: ["address", "u64", "u64"],
       return: [
-        "0x1::ordered_map::OrderedMap<u16, 0xb30fbc1c6be05c14a607a2ba45fe91ab70feb34ad8d1c65a72a918384bb545cd::pictionary::Color>",
+        "0x1::ordered_map::OrderedMap<u32, 0xb30fbc1c6be05c14a607a2ba45fe91ab70feb34ad8d1c65a72a918384bb545cd::pictionary::CanvasDelta>",
       ],
     },
+    {
+      name: "get_canvas_length",
+      visibility: "public",
+      is_entry: false,
+      is_view: true,
+      generic_type_params: [],
+      params: ["address", "u64", "u64"],
+      return: ["u32"],
+    },
+    {
+      name: "get_close_guess_distance",
+      visibility: "public",
+      is_entry: false,
+      is_view: true,
+      generic_type_params: [],
+      params: ["address"],
+      return: ["u64"],
+    },
     {
       name: "get_current_round",
       visibility: "public",
@@ -70,21 +171,55 @@ export const PICTIONARY_ABI = {
         "0x1::string::String",
         "u64",
         "u64",
+        "vector<0x1::option::Option<u64>>",
         "bool",
-        "bool",
-        "bool",
-        "0x1::option::Option<u64>",
         "0x1::option::Option<u64>",
       ],
     },
     {
-      name: "get_current_word_for_artist",
+      name: "get_current_round_processed",
       visibility: "public",
       is_entry: false,
       is_view: true,
       generic_type_params: [],
-      params: ["address", "address"],
-      return: ["0x1::string::String"],
+      params: ["address"],
+      return: ["bool"],
+    },
+    {
+      name: "get_current_word_commitment",
+      visibility: "public",
+      is_entry: false,
+      is_view: true,
+      generic_type_params: [],
+      params: ["address"],
+      return: ["vector<u8>", "vector<u8>"],
+    },
+    {
+      name: "get_current_word_status",
+      visibility: "public",
+      is_entry: false,
+      is_view: true,
+      generic_type_params: [],
+      params: ["address"],
+      return: ["bool", "u8"],
+    },
+    {
+      name: "get_enrollment",
+      visibility: "public",
+      is_entry: false,
+      is_view: true,
+      generic_type_params: [],
+      params: ["address"],
+      return: ["bool", "bool"],
+    },
+    {
+      name: "get_free_for_all",
+      visibility: "public",
+      is_entry: false,
+      is_view: true,
+      generic_type_params: [],
+      params: ["address"],
+      return: ["bool"],
     },
     {
       name: "get_game",
@@ -95,14 +230,10 @@ export const PICTIONARY_ABI = {
       params: ["address"],
       return: [
         "address",
-        "vector<address>",
-        "vector<address>",
-        "0x1::string::String",
-        "0x1::string::String",
-        "u64",
-        "u64",
-        "u64",
-        "u64",
+        "vector<vector<address>>",
+        "vector<0x1::string::String>",
+        "vector<u64>",
+        "vector<u64>",
         "u64",
         "u64",
         "bool",
@@ -113,6 +244,33 @@ export const PICTIONARY_ABI = {
         "u64",
       ],
     },
+    {
+      name: "get_game_summaries",
+      visibility: "public",
+      is_entry: false,
+      is_view: true,
+      generic_type_params: [],
+      params: ["vector<address>"],
+      return: ["vector<0xb30fbc1c6be05c14a607a2ba45fe91ab70feb34ad8d1c65a72a918384bb545cd::pictionary::GameSummary>"],
+    },
+    {
+      name: "get_game_settings",
+      visibility: "public",
+      is_entry: false,
+      is_view: true,
+      generic_type_params: [],
+      params: ["address"],
+      return: ["vector<u32>", "bool", "bool", "u64", "bool", "u8", "bool"],
+    },
+    {
+      name: "get_palette",
+      visibility: "public",
+      is_entry: false,
+      is_view: true,
+      generic_type_params: [],
+      params: ["address"],
+      return: ["vector<u32>"],
+    },
     {
       name: "get_round_history",
       visibility: "public",
@@ -122,6 +280,60 @@ export const PICTIONARY_ABI = {
       params: ["address"],
       return: ["vector<0xb30fbc1c6be05c14a607a2ba45fe91ab70feb34ad8d1c65a72a918384bb545cd::pictionary::RoundSummary>"],
     },
+    {
+      name: "get_scoring_mode",
+      visibility: "public",
+      is_entry: false,
+      is_view: true,
+      generic_type_params: [],
+      params: ["address"],
+      return: ["u8"],
+    },
+    {
+      name: "get_word_candidates",
+      visibility: "public",
+      is_entry: false,
+      is_view: true,
+      generic_type_params: [],
+      params: ["address", "address"],
+      return: ["vector<0xb30fbc1c6be05c14a607a2ba45fe91ab70feb34ad8d1c65a72a918384bb545cd::pictionary::WordCandidate>"],
+    },
+    {
+      name: "get_word_choice",
+      visibility: "public",
+      is_entry: false,
+      is_view: true,
+      generic_type_params: [],
+      params: ["address"],
+      return: ["bool"],
+    },
+    {
+      name: "get_words",
+      visibility: "public",
+      is_entry: false,
+      is_view: true,
+      generic_type_params: [],
+      params: ["address"],
+      return: ["vector<0x1::string::String>", "vector<u8>"],
+    },
+    {
+      name: "is_close_guess",
+      visibility: "public",
+      is_entry: false,
+      is_view: false,
+      generic_type_params: [],
+      params: ["&0x1::string::String", "&0x1::string::String", "u64"],
+      return: ["bool"],
+    },
+    {
+      name: "join_team",
+      visibility: "public",
+      is_entry: true,
+      is_view: false,
+      generic_type_params: [],
+      params: ["&signer", "address", "u64"],
+      return: [],
+    },
     {
       name: "make_guess",
       visibility: "public",
@@ -140,6 +352,15 @@ export const PICTIONARY_ABI = {
       params: ["&signer", "address"],
       return: [],
     },
+    {
+      name: "set_teams_locked",
+      visibility: "public",
+      is_entry: true,
+      is_view: false,
+      generic_type_params: [],
+      params: ["&signer", "address", "bool"],
+      return: [],
+    },
     {
       name: "start_game",
       visibility: "private",
@@ -155,7 +376,7 @@ export const PICTIONARY_ABI = {
       is_entry: true,
       is_view: false,
       generic_type_params: [],
-      params: ["&signer", "address", "u64", "vector<u16>", "vector<u8>"],
+      params: ["&signer", "address", "u64", "u32", "vector<u32>", "vector<u8>", "vector<u8>"],
       return: [],
     },
     {
@@ -164,7 +385,7 @@ export const PICTIONARY_ABI = {
       is_entry: true,
       is_view: false,
       generic_type_params: [],
-      params: ["&signer", "vector<0x1::string::String>"],
+      params: ["&signer", "vector<0x1::string::String>", "vector<u8>"],
       return: [],
     },
   ],
@@ -177,8 +398,12 @@ export const PICTIONARY_ABI = {
       generic_type_params: [],
       fields: [
         {
-          name: "pixels",
-          type: "0x1::ordered_map::OrderedMap<u16, 0xb30fbc1c6be05c14a607a2ba45fe91ab70feb34ad8d1c65a72a918384bb545cd::pictionary::Color>",
+          name: "deltas",
+          type: "0x1::ordered_map::OrderedMap<u32, 0xb30fbc1c6be05c14a607a2ba45fe91ab70feb34ad8d1c65a72a918384bb545cd::pictionary::CanvasDelta>",
+        },
+        {
+          name: "next_sequence",
+          type: "u32",
         },
         {
           name: "width",
@@ -203,11 +428,15 @@ export const PICTIONARY_ABI = {
       fields: [
         {
           name: "position",
-          type: "u16",
+          type: "u32",
         },
         {
           name: "color",
-          type: "0xb30fbc1c6be05c14a607a2ba45fe91ab70feb34ad8d1c65a72a918384bb545cd::pictionary::Color",
+          type: "u8",
+        },
+        {
+          name: "brush_size",
+          type: "u8",
         },
       ],
     },
@@ -234,6 +463,10 @@ export const PICTIONARY_ABI = {
           name: "artist",
           type: "address",
         },
+        {
+          name: "first_sequence",
+          type: "u32",
+        },
         {
           name: "deltas",
           type: "vector<0xb30fbc1c6be05c14a607a2ba45fe91ab70feb34ad8d1c65a72a918384bb545cd::pictionary::CanvasDelta>",
@@ -244,14 +477,6 @@ export const PICTIONARY_ABI = {
         },
       ],
     },
-    {
-      name: "Color",
-      is_native: false,
-      is_event: false,
-      abilities: ["copy", "drop", "store"],
-      generic_type_params: [],
-      fields: [],
-    },
     {
       name: "Game",
       is_native: false,
@@ -264,28 +489,8 @@ export const PICTIONARY_ABI = {
           type: "address",
         },
         {
-          name: "team0_players",
-          type: "vector<address>",
-        },
-        {
-          name: "team1_players",
-          type: "vector<address>",
-        },
-        {
-          name: "team0_name",
-          type: "0x1::string::String",
-        },
-        {
-          name: "team1_name",
-          type: "0x1::string::String",
-        },
-        {
-          name: "current_team0_artist",
-          type: "u64",
-        },
-        {
-          name: "current_team1_artist",
-          type: "u64",
+          name: "teams",
+          type: "vector<0xb30fbc1c6be05c14a607a2ba45fe91ab70feb34ad8d1c65a72a918384bb545cd::pictionary::Team>",
         },
         {
           name: "target_score",
@@ -319,6 +524,42 @@ export const PICTIONARY_ABI = {
           name: "round_duration",
           type: "u64",
         },
+        {
+          name: "palette",
+          type: "vector<u32>",
+        },
+        {
+          name: "open_enrollment",
+          type: "bool",
+        },
+        {
+          name: "teams_locked",
+          type: "bool",
+        },
+        {
+          name: "close_guess_distance",
+          type: "u64",
+        },
+        {
+          name: "words",
+          type: "vector<0x1::string::String>",
+        },
+        {
+          name: "word_difficulties",
+          type: "vector<u8>",
+        },
+        {
+          name: "word_choice",
+          type: "bool",
+        },
+        {
+          name: "scoring_mode",
+          type: "u8",
+        },
+        {
+          name: "free_for_all",
+          type: "bool",
+        },
         {
           name: "extend_ref",
           type: "0x1::object::ExtendRef",
@@ -341,12 +582,8 @@ export const PICTIONARY_ABI = {
           type: "address",
         },
         {
-          name: "team0_players",
-          type: "vector<address>",
-        },
-        {
-          name: "team1_players",
-          type: "vector<address>",
+          name: "team_players",
+          type: "vector<vector<address>>",
         },
         {
           name: "target_score",
@@ -370,13 +607,62 @@ export const PICTIONARY_ABI = {
           type: "u64",
         },
         {
-          name: "final_team0_score",
+          name: "final_scores",
+          type: "vector<u64>",
+        },
+      ],
+    },
+    {
+      name: "GameSummary",
+      is_native: false,
+      is_event: false,
+      abilities: ["copy", "drop"],
+      generic_type_params: [],
+      fields: [
+        {
+          name: "game_address",
+          type: "address",
+        },
+        {
+          name: "creator",
+          type: "address",
+        },
+        {
+          name: "team_names",
+          type: "vector<0x1::string::String>",
+        },
+        {
+          name: "team_players",
+          type: "vector<vector<address>>",
+        },
+        {
+          name: "scores",
+          type: "vector<u64>",
+        },
+        {
+          name: "target_score",
           type: "u64",
         },
         {
-          name: "final_team1_score",
+          name: "current_round",
           type: "u64",
         },
+        {
+          name: "started",
+          type: "bool",
+        },
+        {
+          name: "finished",
+          type: "bool",
+        },
+        {
+          name: "winner",
+          type: "0x1::option::Option<u64>",
+        },
+        {
+          name: "free_for_all",
+          type: "bool",
+        },
       ],
     },
     {
@@ -402,6 +688,14 @@ export const PICTIONARY_ABI = {
           name: "guess",
           type: "0x1::string::String",
         },
+        {
+          name: "correct",
+          type: "bool",
+        },
+        {
+          name: "close",
+          type: "bool",
+        },
         {
           name: "round_number",
           type: "u64",
@@ -412,6 +706,27 @@ export const PICTIONARY_ABI = {
         },
       ],
     },
+    {
+      name: "PlayerJoined",
+      is_native: false,
+      is_event: true,
+      abilities: ["drop", "store"],
+      generic_type_params: [],
+      fields: [
+        {
+          name: "game_address",
+          type: "address",
+        },
+        {
+          name: "player",
+          type: "address",
+        },
+        {
+          name: "team",
+          type: "u64",
+        },
+      ],
+    },
     {
       name: "Round",
       is_native: false,
@@ -424,39 +739,43 @@ export const PICTIONARY_ABI = {
           type: "u64",
         },
         {
-          name: "word",
-          type: "0x1::string::String",
+          name: "word_hash",
+          type: "vector<u8>",
         },
         {
-          name: "start_time",
-          type: "u64",
+          name: "salt",
+          type: "vector<u8>",
         },
         {
-          name: "duration_seconds",
-          type: "u64",
+          name: "word",
+          type: "0x1::string::String",
         },
         {
-          name: "team0_canvas",
-          type: "0xb30fbc1c6be05c14a607a2ba45fe91ab70feb34ad8d1c65a72a918384bb545cd::pictionary::Canvas",
+          name: "difficulty",
+          type: "u8",
         },
         {
-          name: "team1_canvas",
-          type: "0xb30fbc1c6be05c14a607a2ba45fe91ab70feb34ad8d1c65a72a918384bb545cd::pictionary::Canvas",
+          name: "word_candidates",
+          type: "vector<0xb30fbc1c6be05c14a607a2ba45fe91ab70feb34ad8d1c65a72a918384bb545cd::pictionary::WordCandidate>",
         },
         {
-          name: "team0_guessed",
-          type: "bool",
+          name: "start_time",
+          type: "u64",
         },
         {
-          name: "team1_guessed",
-          type: "bool",
+          name: "duration_seconds",
+          type: "u64",
         },
         {
-          name: "team0_guess_time",
-          type: "0x1::option::Option<u64>",
+          name: "canvases",
+          type: "vector<0xb30fbc1c6be05c14a607a2ba45fe91ab70feb34ad8d1c65a72a918384bb545cd::pictionary::Canvas>",
+        },
+        {
+          name: "guess_times",
+          type: "vector<0x1::option::Option<u64>>",
         },
         {
-          name: "team1_guess_time",
+          name: "artist",
           type: "0x1::option::Option<u64>",
         },
         {
@@ -485,20 +804,16 @@ export const PICTIONARY_ABI = {
           type: "0x1::string::String",
         },
         {
-          name: "team0_points_earned",
-          type: "u64",
+          name: "difficulty",
+          type: "u8",
         },
         {
-          name: "team1_points_earned",
-          type: "u64",
+          name: "points_earned",
+          type: "vector<u64>",
         },
         {
-          name: "team0_total_score",
-          type: "u64",
-        },
-        {
-          name: "team1_total_score",
-          type: "u64",
+          name: "total_scores",
+          type: "vector<u64>",
         },
       ],
     },
@@ -518,16 +833,12 @@ export const PICTIONARY_ABI = {
           type: "u64",
         },
         {
-          name: "word",
-          type: "0x1::string::String",
+          name: "word_hash",
+          type: "vector<u8>",
         },
         {
-          name: "team0_artist",
-          type: "address",
-        },
-        {
-          name: "team1_artist",
-          type: "address",
+          name: "artists",
+          type: "vector<address>",
         },
         {
           name: "start_time",
@@ -550,6 +861,10 @@ export const PICTIONARY_ABI = {
           name: "word",
           type: "0x1::string::String",
         },
+        {
+          name: "difficulty",
+          type: "u8",
+        },
         {
           name: "start_time",
           type: "u64",
@@ -559,20 +874,79 @@ export const PICTIONARY_ABI = {
           type: "u64",
         },
         {
-          name: "team0_guessed",
-          type: "bool",
+          name: "guess_times",
+          type: "vector<0x1::option::Option<u64>>",
         },
         {
-          name: "team1_guessed",
-          type: "bool",
+          name: "artist",
+          type: "0x1::option::Option<u64>",
+        },
+      ],
+    },
+    {
+      name: "Team",
+      is_native: false,
+      is_event: false,
+      abilities: ["copy", "drop", "store"],
+      generic_type_params: [],
+      fields: [
+        {
+          name: "name",
+          type: "0x1::string::String",
         },
         {
-          name: "team0_guess_time",
-          type: "0x1::option::Option<u64>",
+          name: "players",
+          type: "vector<address>",
         },
         {
-          name: "team1_guess_time",
-          type: "0x1::option::Option<u64>",
+          name: "current_artist",
+          type: "u64",
+        },
+      ],
+    },
+    {
+      name: "WordCandidate",
+      is_native: false,
+      is_event: false,
+      abilities: ["copy", "drop", "store"],
+      generic_type_params: [],
+      fields: [
+        {
+          name: "word_hash",
+          type: "vector<u8>",
+        },
+        {
+          name: "difficulty",
+          type: "u8",
+        },
+      ],
+    },
+    {
+      name: "WordChosen",
+      is_native: false,
+      is_event: true,
+      abilities: ["drop", "store"],
+      generic_type_params: [],
+      fields: [
+        {
+          name: "game_address",
+          type: "address",
+        },
+        {
+          name: "round_number",
+          type: "u64",
+        },
+        {
+          name: "word_hash",
+          type: "vector<u8>",
+        },
+        {
+          name: "difficulty",
+          type: "u8",
+        },
+        {
+          name: "start_time",
+          type: "u64",
         },
       ],
     },
@@ -587,6 +961,10 @@ export const PICTIONARY_ABI = {
           name: "words",
           type: "vector<0x1::string::String>",
         },
+        {
+          name: "difficulties",
+          type: "vector<u8>",
+        },
         {
           name: "extend_ref",
           type: "0x1::object::ExtendRef",
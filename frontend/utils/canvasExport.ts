@@ -0,0 +1,88 @@
+import { AccountAddress, Aptos } from "@aptos-labs/ts-sdk";
+import { getCanvas } from "@/view-functions/gameView";
+import { decodeCanvas } from "@/utils/strokes";
+import { Palette } from "@/utils/palette";
+import { renderStrokesToPng, renderStrokesToSvg } from "@/utils/canvasRender";
+import { ZipEntry, createZip } from "@/utils/zip";
+
+export type ExportFormat = "png" | "svg";
+
+export interface CanvasExportOptions {
+  width: number;
+  height: number;
+  palette: Palette;
+}
+
+/**
+ * File name for an exported drawing, e.g. "round-3-red-team.png"
+ * Round numbers are 0-based like in the contract, file names count rounds from 1
+ */
+export const exportFileName = (roundNumber: number, teamName: string, format: ExportFormat): string => {
+  const slug = teamName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `round-${roundNumber + 1}-${slug || "team"}.${format}`;
+};
+
+/**
+ * Export a team's drawing for a round, as stored on chain
+ */
+export const exportRoundCanvas = async (
+  aptos: Aptos,
+  gameAddress: AccountAddress,
+  roundNumber: number,
+  team: number,
+  format: ExportFormat,
+  { width, height, palette }: CanvasExportOptions,
+): Promise<Blob> => {
+  const strokes = decodeCanvas(await getCanvas(aptos, gameAddress, roundNumber, team));
+
+  if (format === "svg") {
+    return new Blob([renderStrokesToSvg(strokes, width, height, palette)], { type: "image/svg+xml" });
+  }
+  return renderStrokesToPng(strokes, width, height, palette);
+};
+
+/**
+ * Export every team's drawing for the given rounds as PNG and SVG files in a zip archive
+ */
+export const exportRoundsZip = async (
+  aptos: Aptos,
+  gameAddress: AccountAddress,
+  roundNumbers: number[],
+  teamNames: string[],
+  options: CanvasExportOptions,
+): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+
+  for (const roundNumber of roundNumbers) {
+    for (let team = 0; team < teamNames.length; team++) {
+      // Fetch each canvas once and render both formats from it
+      const strokes = decodeCanvas(await getCanvas(aptos, gameAddress, roundNumber, team));
+      const png = await renderStrokesToPng(strokes, options.width, options.height, options.palette);
+      const svg = renderStrokesToSvg(strokes, options.width, options.height, options.palette);
+
+      entries.push(
+        { name: exportFileName(roundNumber, teamNames[team], "png"), data: new Uint8Array(await png.arrayBuffer()) },
+        { name: exportFileName(roundNumber, teamNames[team], "svg"), data: new TextEncoder().encode(svg) },
+      );
+    }
+  }
+
+  return createZip(entries);
+};
+
+/**
+ * Save a blob through the browser's download prompt
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
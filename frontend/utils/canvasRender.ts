@@ -0,0 +1,129 @@
+import { Stroke, fromStrokePoint } from "@/utils/strokes";
+import { Palette, getPaletteHex } from "@/utils/palette";
+
+/**
+ * Stroke rendering
+ *
+ * Strokes are drawn the same way on the live canvas and in exports, so a downloaded drawing looks exactly like it
+ * did during the round.
+ */
+
+export const BACKGROUND_COLOR = "#FFFFFF";
+
+// Eraser strokes paint the background back in, whatever color they were drawn with
+const strokeHex = (stroke: Stroke, palette: Palette): string =>
+  stroke.erase ? BACKGROUND_COLOR : getPaletteHex(palette, stroke.color);
+
+// Pressure sensitive strokes vary in width from point to point
+const sizeAt = (stroke: Stroke, index: number): number => stroke.points[index].size ?? stroke.brushSize;
+
+/**
+ * Draw a whole stroke segment by segment (or a dot for single point strokes)
+ */
+export const renderStroke = (ctx: CanvasRenderingContext2D, stroke: Stroke, palette: Palette) => {
+  const points = stroke.points.map((point) => fromStrokePoint(point));
+  if (points.length === 0) return;
+
+  const hex = strokeHex(stroke, palette);
+  ctx.fillStyle = hex;
+  ctx.strokeStyle = hex;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+
+  // Fill strokes are pairs of span end pixels, painted pixel-exact
+  if (stroke.fill) {
+    for (let i = 0; i + 1 < stroke.points.length; i += 2) {
+      const [start, end] = [stroke.points[i], stroke.points[i + 1]];
+      ctx.fillRect(start.x, start.y, end.x - start.x + 1, 1);
+    }
+    return;
+  }
+
+  if (points.length === 1) {
+    ctx.beginPath();
+    ctx.arc(points[0].x, points[0].y, sizeAt(stroke, 0) / 2, 0, 2 * Math.PI);
+    ctx.fill();
+    return;
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    ctx.lineWidth = sizeAt(stroke, i);
+    ctx.beginPath();
+    ctx.moveTo(points[i - 1].x, points[i - 1].y);
+    ctx.lineTo(points[i].x, points[i].y);
+    ctx.stroke();
+  }
+};
+
+/**
+ * Render strokes onto a new canvas of the given size and encode it as a PNG
+ */
+export const renderStrokesToPng = (
+  strokes: Stroke[],
+  width: number,
+  height: number,
+  palette: Palette,
+): Promise<Blob> => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return Promise.reject(new Error("Canvas 2D context is not available"));
+
+  ctx.fillStyle = BACKGROUND_COLOR;
+  ctx.fillRect(0, 0, width, height);
+  strokes.forEach((stroke) => renderStroke(ctx, stroke, palette));
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode canvas as PNG"))), "image/png");
+  });
+};
+
+// Convert one stroke to SVG elements, mirroring renderStroke
+const strokeToSvg = (stroke: Stroke, palette: Palette): string => {
+  const points = stroke.points.map((point) => fromStrokePoint(point));
+  if (points.length === 0) return "";
+
+  const hex = strokeHex(stroke, palette);
+
+  if (stroke.fill) {
+    const spans: string[] = [];
+    for (let i = 0; i + 1 < stroke.points.length; i += 2) {
+      const [start, end] = [stroke.points[i], stroke.points[i + 1]];
+      spans.push(`M${start.x} ${start.y}h${end.x - start.x + 1}v1h${start.x - end.x - 1}z`);
+    }
+    return `<path d="${spans.join("")}" fill="${hex}"/>`;
+  }
+
+  if (points.length === 1) {
+    return `<circle cx="${points[0].x}" cy="${points[0].y}" r="${sizeAt(stroke, 0) / 2}" fill="${hex}"/>`;
+  }
+
+  const lineStyle = `fill="none" stroke="${hex}" stroke-linecap="round" stroke-linejoin="round"`;
+
+  // Strokes of a constant width are a single polyline, pressure sensitive ones are drawn segment by segment
+  if (stroke.points.every((point) => point.size === undefined)) {
+    const polyline = points.map((point) => `${point.x},${point.y}`).join(" ");
+    return `<polyline points="${polyline}" stroke-width="${stroke.brushSize}" ${lineStyle}/>`;
+  }
+
+  const segments = points
+    .slice(1)
+    .map(
+      (point, i) =>
+        `<line x1="${points[i].x}" y1="${points[i].y}" x2="${point.x}" y2="${point.y}" stroke-width="${sizeAt(stroke, i + 1)}"/>`,
+    );
+  return `<g ${lineStyle}>${segments.join("")}</g>`;
+};
+
+/**
+ * Render strokes as an SVG document of the given size
+ */
+export const renderStrokesToSvg = (strokes: Stroke[], width: number, height: number, palette: Palette): string =>
+  [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="${width}" height="${height}" fill="${BACKGROUND_COLOR}"/>`,
+    ...strokes.map((stroke) => strokeToSvg(stroke, palette)).filter((element) => element !== ""),
+    "</svg>",
+  ].join("\n");
@@ -0,0 +1,454 @@
+import { AccountAddress, Aptos, CommittedTransactionResponse, isUserTransactionResponse } from "@aptos-labs/ts-sdk";
+import { MODULE_ADDRESS } from "@/constants";
+import {
+  CanvasDelta,
+  CanvasUpdatedEvent,
+  GameCreatedEvent,
+  GameFinishedEvent,
+  GuessSubmittedEvent,
+  PlayerJoinedEvent,
+  RoundFinishedEvent,
+  RoundStartedEvent,
+  WordChosenEvent,
+  parseCanvasDelta,
+} from "@/utils/surf";
+import { WordDifficulty, toWordDifficulty } from "@/utils/wordPacks";
+
+// How often the indexer is asked for new events
+const INDEXER_POLL_INTERVAL_MS = 1000;
+// Page size when fetching past events, the indexer caps how many rows a query returns
+const INDEXER_PAGE_SIZE = 100;
+
+// Module events the game UI reacts to
+const GAME_EVENT_TYPES = [
+  "PlayerJoined",
+  "CanvasUpdated",
+  "GuessSubmitted",
+  "RoundStarted",
+  "WordChosen",
+  "RoundFinished",
+  "GameFinished",
+] as const;
+
+export type GameEventType = (typeof GAME_EVENT_TYPES)[number];
+
+// UI-friendly game events, round numbers are 0-based like in the contract
+export type GameEvent =
+  | {
+      type: "PlayerJoined";
+      player: AccountAddress;
+      team: number;
+    }
+  | {
+      type: "CanvasUpdated";
+      team: number;
+      roundNumber: number;
+      artist: AccountAddress;
+      // Sequence number of the first delta in the team's canvas log
+      firstSequence: number;
+      deltas: CanvasDelta[];
+      timestamp: number;
+    }
+  | {
+      type: "GuessSubmitted";
+      guesser: AccountAddress;
+      team: number;
+      guess: string;
+      correct: boolean;
+      // Wrong but within the game's close guess distance of the word
+      close: boolean;
+      roundNumber: number;
+      timestamp: number;
+    }
+  | {
+      type: "RoundStarted";
+      roundNumber: number;
+      startTime: number;
+    }
+  | {
+      type: "WordChosen";
+      roundNumber: number;
+      difficulty: WordDifficulty;
+      // The round's timer restarts once the word is chosen
+      startTime: number;
+    }
+  | {
+      type: "RoundFinished";
+      roundNumber: number;
+      word: string;
+      difficulty: WordDifficulty;
+      // In team order
+      pointsEarned: number[];
+      totalScores: number[];
+    }
+  | {
+      type: "GameFinished";
+      winner: number;
+      finalScores: number[];
+    };
+
+export type GameEventListener = (event: GameEvent) => void;
+
+/**
+ * A source of live events for a single game
+ * Sources only start listening for events once they have a subscriber
+ */
+export interface GameEventSource {
+  // Returns a function that removes the listener again
+  subscribe: (listener: GameEventListener) => () => void;
+}
+
+/**
+ * Convert a raw module event to a game event, returns null for events the UI doesn't handle
+ */
+export const parseGameEvent = (type: GameEventType, data: unknown): GameEvent | null => {
+  switch (type) {
+    case "PlayerJoined": {
+      const event = data as PlayerJoinedEvent;
+      return { type, player: AccountAddress.from(event.player), team: Number(event.team) };
+    }
+    case "CanvasUpdated": {
+      const event = data as CanvasUpdatedEvent;
+      return {
+        type,
+        team: Number(event.team),
+        roundNumber: Number(event.round_number),
+        artist: AccountAddress.from(event.artist),
+        firstSequence: Number(event.first_sequence),
+        deltas: (event.deltas as unknown[]).map(parseCanvasDelta),
+        timestamp: Number(event.timestamp),
+      };
+    }
+    case "GuessSubmitted": {
+      const event = data as GuessSubmittedEvent;
+      return {
+        type,
+        guesser: AccountAddress.from(event.guesser),
+        team: Number(event.team),
+        guess: event.guess,
+        correct: event.correct,
+        close: event.close,
+        roundNumber: Number(event.round_number),
+        timestamp: Number(event.timestamp),
+      };
+    }
+    case "RoundStarted": {
+      const event = data as RoundStartedEvent;
+      return { type, roundNumber: Number(event.round_number), startTime: Number(event.start_time) };
+    }
+    case "WordChosen": {
+      const event = data as WordChosenEvent;
+      return {
+        type,
+        roundNumber: Number(event.round_number),
+        difficulty: toWordDifficulty(event.difficulty),
+        startTime: Number(event.start_time),
+      };
+    }
+    case "RoundFinished": {
+      const event = data as RoundFinishedEvent;
+      return {
+        type,
+        roundNumber: Number(event.round_number),
+        word: event.word,
+        difficulty: toWordDifficulty(event.difficulty),
+        pointsEarned: event.points_earned.map(Number),
+        totalScores: event.total_scores.map(Number),
+      };
+    }
+    case "GameFinished": {
+      const event = data as GameFinishedEvent;
+      return {
+        type,
+        winner: Number(event.winner),
+        finalScores: event.final_scores.map(Number),
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Get the game events a committed transaction emitted, e.g. to check how a guess was judged
+ */
+export const getTransactionGameEvents = (transaction: CommittedTransactionResponse): GameEvent[] => {
+  if (!isUserTransactionResponse(transaction)) return [];
+
+  const typePrefix = `${MODULE_ADDRESS}::pictionary::`;
+  return transaction.events.flatMap((event) => {
+    if (!event.type.startsWith(typePrefix)) return [];
+    const gameEvent = parseGameEvent(event.type.slice(typePrefix.length) as GameEventType, event.data);
+    return gameEvent ? [gameEvent] : [];
+  });
+};
+
+// Keeps track of listeners and starts / stops the underlying source as they come and go
+const createListenerSet = (start: () => void, stop: () => void) => {
+  const listeners = new Set<GameEventListener>();
+
+  return {
+    subscribe: (listener: GameEventListener) => {
+      listeners.add(listener);
+      if (listeners.size === 1) start();
+
+      return () => {
+        if (!listeners.delete(listener)) return;
+        if (listeners.size === 0) stop();
+      };
+    },
+    emit: (event: GameEvent) => {
+      listeners.forEach((listener) => {
+        try {
+          listener(event);
+        } catch (error) {
+          console.error("Game event listener failed:", error);
+        }
+      });
+    },
+  };
+};
+
+interface IndexedEvent {
+  indexed_type: string;
+  data: unknown;
+  transaction_version: number | string;
+  event_index: number | string;
+}
+
+// Position of the last event a source delivered, transactions can emit several events for the same game
+interface EventCursor {
+  transactionVersion: string;
+  eventIndex: string;
+}
+
+const EVENTS_QUERY = `
+  query GameEvents($types: [String!], $gameAddress: jsonb, $afterVersion: bigint, $afterIndex: bigint, $limit: Int) {
+    events(
+      where: {
+        indexed_type: { _in: $types }
+        data: { _contains: $gameAddress }
+        _or: [
+          { transaction_version: { _gt: $afterVersion } }
+          { transaction_version: { _eq: $afterVersion }, event_index: { _gt: $afterIndex } }
+        ]
+      }
+      order_by: [{ transaction_version: asc }, { event_index: asc }]
+      limit: $limit
+    ) {
+      indexed_type
+      data
+      transaction_version
+      event_index
+    }
+  }
+`;
+
+/**
+ * Create an event source that follows the module's events for a game through the indexer
+ * Only events emitted after the source starts are delivered, callers load the current state themselves
+ */
+export const createIndexerEventSource = (aptos: Aptos, gameAddress: AccountAddress): GameEventSource => {
+  const typePrefix = `${MODULE_ADDRESS}::pictionary::`;
+  const types = GAME_EVENT_TYPES.map((type) => `${typePrefix}${type}`);
+
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  let cursor: EventCursor | null = null;
+  // Bumped on every start and stop so a poll that is still in flight from an earlier run stops itself
+  let generation = 0;
+
+  const poll = async (pollGeneration: number) => {
+    try {
+      // Start after whatever the indexer has processed so far, every event of the next transaction on is new
+      if (cursor === null) {
+        const lastVersion = await aptos.getIndexerLastSuccessVersion();
+        if (pollGeneration !== generation) return;
+        cursor = { transactionVersion: (lastVersion + 1n).toString(), eventIndex: "-1" };
+      }
+
+      // Page through everything since the last poll, e.g. after the tab was in the background
+      for (;;) {
+        const { events }: { events: IndexedEvent[] } = await aptos.queryIndexer({
+          query: {
+            query: EVENTS_QUERY,
+            variables: {
+              types,
+              gameAddress: { game_address: gameAddress.toStringLong() },
+              afterVersion: cursor.transactionVersion,
+              afterIndex: cursor.eventIndex,
+              limit: INDEXER_PAGE_SIZE,
+            },
+          },
+        });
+
+        for (const indexedEvent of events) {
+          if (pollGeneration !== generation) return;
+
+          cursor = {
+            transactionVersion: indexedEvent.transaction_version.toString(),
+            eventIndex: indexedEvent.event_index.toString(),
+          };
+          const event = parseGameEvent(
+            indexedEvent.indexed_type.slice(typePrefix.length) as GameEventType,
+            indexedEvent.data,
+          );
+          if (event) listeners.emit(event);
+        }
+
+        if (events.length < INDEXER_PAGE_SIZE || pollGeneration !== generation) break;
+      }
+    } catch (error) {
+      // Keep polling - the indexer may be briefly unavailable
+      console.error("Failed to fetch game events:", error);
+    }
+
+    if (pollGeneration === generation) {
+      timeout = setTimeout(() => poll(pollGeneration), INDEXER_POLL_INTERVAL_MS);
+    }
+  };
+
+  const listeners = createListenerSet(
+    () => {
+      generation += 1;
+      poll(generation);
+    },
+    () => {
+      generation += 1;
+      cursor = null;
+      if (timeout) {
+        clearTimeout(timeout);
+        timeout = null;
+      }
+    },
+  );
+
+  return { subscribe: listeners.subscribe };
+};
+
+const ROUND_EVENTS_QUERY = `
+  query RoundEvents($types: [String!], $filter: jsonb, $limit: Int, $offset: Int) {
+    events(
+      where: { indexed_type: { _in: $types }, data: { _contains: $filter } }
+      order_by: [{ transaction_version: asc }, { event_index: asc }]
+      limit: $limit
+      offset: $offset
+    ) {
+      indexed_type
+      data
+      transaction_version
+      event_index
+    }
+  }
+`;
+
+/**
+ * Fetch a round's canvas updates and guesses (or only the given event types) from the indexer, in the order they happened
+ * Round numbers are 0-based like in the contract
+ */
+export const fetchRoundEvents = async (
+  aptos: Aptos,
+  gameAddress: AccountAddress,
+  roundNumber: number,
+  eventTypes: GameEventType[] = ["CanvasUpdated", "GuessSubmitted"],
+): Promise<GameEvent[]> => {
+  const typePrefix = `${MODULE_ADDRESS}::pictionary::`;
+  const types = eventTypes.map((type) => `${typePrefix}${type}`);
+  // u64 fields are stored as strings in the indexed event data
+  const filter = { game_address: gameAddress.toStringLong(), round_number: roundNumber.toString() };
+
+  const events: GameEvent[] = [];
+  for (let offset = 0; ; offset += INDEXER_PAGE_SIZE) {
+    const page = await aptos.queryIndexer<{ events: IndexedEvent[] }>({
+      query: { query: ROUND_EVENTS_QUERY, variables: { types, filter, limit: INDEXER_PAGE_SIZE, offset } },
+    });
+
+    for (const indexedEvent of page.events) {
+      const event = parseGameEvent(
+        indexedEvent.indexed_type.slice(typePrefix.length) as GameEventType,
+        indexedEvent.data,
+      );
+      if (event) events.push(event);
+    }
+
+    if (page.events.length < INDEXER_PAGE_SIZE) return events;
+  }
+};
+
+// A game as announced by its GameCreated event
+export interface CreatedGame {
+  gameAddress: AccountAddress;
+  creator: AccountAddress;
+  // Players of each team in team order, empty for games players join from an invite link
+  teamPlayers: AccountAddress[][];
+  targetScore: number;
+}
+
+// Newest events matching a filter, used for GameCreated and PlayerJoined events
+const CREATED_GAMES_QUERY = `
+  query CreatedGames($where: events_bool_exp, $limit: Int) {
+    events(where: $where, order_by: [{ transaction_version: desc }, { event_index: desc }], limit: $limit) {
+      data
+    }
+  }
+`;
+
+/**
+ * Fetch the most recently created games from the indexer, newest first
+ * With a player, only games they created or play in are returned
+ */
+export const fetchCreatedGames = async (
+  aptos: Aptos,
+  { player, limit = INDEXER_PAGE_SIZE }: { player?: AccountAddress; limit?: number } = {},
+): Promise<CreatedGame[]> => {
+  const address = player?.toStringLong();
+  const where = {
+    indexed_type: { _eq: `${MODULE_ADDRESS}::pictionary::GameCreated` },
+    ...(address && {
+      _or: [{ data: { _contains: { creator: address } } }, { data: { _contains: { team_players: [[address]] } } }],
+    }),
+  };
+
+  const { events } = await aptos.queryIndexer<{ events: { data: GameCreatedEvent }[] }>({
+    query: { query: CREATED_GAMES_QUERY, variables: { where, limit } },
+  });
+
+  return events.map(({ data }) => ({
+    gameAddress: AccountAddress.from(data.game_address),
+    creator: AccountAddress.from(data.creator),
+    teamPlayers: data.team_players.map((players) => players.map((address) => AccountAddress.from(address))),
+    targetScore: Number(data.target_score),
+  }));
+};
+
+/**
+ * Fetch the addresses of games a player joined from an invite link, most recently joined first
+ * Games may repeat when the player switched teams
+ */
+export const fetchJoinedGameAddresses = async (
+  aptos: Aptos,
+  player: AccountAddress,
+  limit: number = INDEXER_PAGE_SIZE,
+): Promise<AccountAddress[]> => {
+  const where = {
+    indexed_type: { _eq: `${MODULE_ADDRESS}::pictionary::PlayerJoined` },
+    data: { _contains: { player: player.toStringLong() } },
+  };
+
+  const { events } = await aptos.queryIndexer<{ events: { data: PlayerJoinedEvent }[] }>({
+    query: { query: CREATED_GAMES_QUERY, variables: { where, limit } },
+  });
+
+  return events.map(({ data }) => AccountAddress.from(data.game_address));
+};
+
+/**
+ * Create an event source whose events are pushed by hand, e.g. in tests or local development
+ */
+export const createMockEventSource = (): GameEventSource & { emit: (event: GameEvent) => void } => {
+  const listeners = createListenerSet(
+    () => {},
+    () => {},
+  );
+
+  return { subscribe: listeners.subscribe, emit: listeners.emit };
+};
@@ -1,75 +1,81 @@
 /**
  * Game logic utilities for calculating scores and game state
+ * The scoring rules themselves live in utils/scoring.ts
  */
 
+import { RoundOutcome, SCORING_RULES, ScoringMode, gameWinner, isGameOver, roundPoints } from "@/utils/scoring";
+
 interface GameState {
-  team0Score: number;
-  team1Score: number;
+  // Processed scores from the contract, in team order or player order in free-for-all games
+  scores: number[];
+  teams: { currentArtist: number }[];
+  freeForAll: boolean;
   targetScore: number;
   started: boolean;
   finished: boolean;
+  winner: number | null;
+  scoringMode: ScoringMode;
 }
 
-interface RoundState {
-  startTime: number;
-  durationSeconds: number;
+interface RoundState extends RoundOutcome {
   finished: boolean;
-  team0Guessed: boolean;
-  team1Guessed: boolean;
-  team0GuessTime: number | null;
-  team1GuessTime: number | null;
+  // The contract already added the round's points to the game's scores
+  processed: boolean;
 }
 
 export interface CalculatedScores {
-  team0Score: number;
-  team1Score: number;
+  scores: number[];
   gameOver: boolean;
   winner: number | null;
 }
 
+/**
+ * Team whose artist chooses the word of a round (0-based round number) in games where artists choose their words
+ * All teams draw the same word, so the artists take turns. Must match word_chooser in the contract
+ */
+export const wordChooserTeam = (roundNumber: number, teamCount: number): number => roundNumber % teamCount;
+
+// Whether the team (or player in free-for-all games) guessed the round's word
+// Rounds that haven't started have no guess times yet
+export const hasGuessed = (round: Pick<RoundOutcome, "guessTimes">, index: number): boolean =>
+  (round.guessTimes[index] ?? null) !== null;
+
+/**
+ * Whether every team guessed the round's word, or every player but the artist (null in team games) in free-for-all games
+ * Must match everyone_guessed in the contract
+ */
+export const everyoneGuessed = (guessTimes: (number | null)[], artist: number | null): boolean =>
+  guessTimes.every((time, index) => time !== null || index === artist);
+
 /**
  * Calculate current scores including points from unprocessed rounds
- * This handles the case where teams have guessed correctly but the round hasn't been processed on-chain yet
+ * This handles the case where the round's time ran out but the round hasn't been processed on-chain yet
  */
 export function calculateCurrentScores(gameState: GameState, roundState: RoundState | null): CalculatedScores {
-  let team0Score = gameState.team0Score; // Start with processed scores from contract
-  let team1Score = gameState.team1Score;
+  const rules = SCORING_RULES[gameState.scoringMode];
+  let scores = gameState.scores; // Start with processed scores from contract
 
   // Add points from current unprocessed round if applicable
-  if (roundState && gameState.started && !gameState.finished) {
+  if (roundState && gameState.started && !gameState.finished && !roundState.processed) {
     // Check if current round has ended but might not be processed yet
     const currentTime = Date.now() / 1000;
     const roundEndTime = roundState.startTime + roundState.durationSeconds;
     const roundTimeExpired = currentTime > roundEndTime;
-    const bothTeamsGuessed = roundState.team0Guessed && roundState.team1Guessed;
+    const allGuessed = everyoneGuessed(roundState.guessTimes, roundState.artist);
 
-    // If round should be finished (time expired or both guessed), calculate potential points
-    if (roundTimeExpired || bothTeamsGuessed || roundState.finished) {
-      if (roundState.team0Guessed && roundState.team1Guessed) {
-        // Both teams guessed - first gets 2 points, second gets 1
-        if (roundState.team0GuessTime !== null && roundState.team1GuessTime !== null) {
-          if (roundState.team0GuessTime <= roundState.team1GuessTime) {
-            team0Score += 2;
-            team1Score += 1;
-          } else {
-            team0Score += 1;
-            team1Score += 2;
-          }
-        }
-      } else if (roundState.team0Guessed) {
-        team0Score += 2;
-      } else if (roundState.team1Guessed) {
-        team1Score += 2;
-      }
+    // If round should be finished (time expired or everyone guessed), calculate potential points
+    if (roundTimeExpired || allGuessed || roundState.finished) {
+      const points = roundPoints(roundState, rules);
+      scores = scores.map((score, index) => score + (points[index] ?? 0));
     }
   }
 
-  // Determine if game is over and who won
-  const gameOver = gameState.finished || team0Score >= gameState.targetScore || team1Score >= gameState.targetScore;
+  // Determine if game is over and who won, a finished game's winner is the one the contract picked
+  const gameOver = gameState.finished || isGameOver(scores, gameState.targetScore);
   let winner: number | null = null;
   if (gameOver) {
-    winner = team0Score >= team1Score ? 0 : 1;
+    winner = gameState.finished && gameState.winner !== null ? gameState.winner : gameWinner(scores);
   }
 
-  return { team0Score, team1Score, gameOver, winner };
+  return { scores, gameOver, winner };
 }
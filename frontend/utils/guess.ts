@@ -0,0 +1,30 @@
+/**
+ * Guess normalization and close guess settings
+ *
+ * The contract compares the salted hash of a guess to the word's, so guesses are normalized before they're submitted.
+ * Words in the word lists are already in normalized form.
+ */
+
+// Close guess distances, must match DEFAULT_CLOSE_GUESS_DISTANCE and MAX_CLOSE_GUESS_DISTANCE in the contract
+export const DEFAULT_CLOSE_GUESS_DISTANCE = 1;
+export const MAX_CLOSE_GUESS_DISTANCE = 3;
+
+/**
+ * Normalize a guess: lowercase, without diacritics or punctuation, and with single spaces between words
+ * e.g. " Crème-Brûlée! " becomes "creme brulee"
+ */
+export const normalizeGuess = (guess: string): string =>
+  guess
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[-_]/g, " ")
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+/**
+ * Label for a close guess distance, as picked when creating a game
+ */
+export const closeGuessDistanceLabel = (distance: number): string =>
+  distance === 0 ? "Off" : distance === 1 ? "1 letter off" : `Up to ${distance} letters off`;
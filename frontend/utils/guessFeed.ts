@@ -0,0 +1,43 @@
+import { GameEvent } from "@/utils/gameEvents";
+
+/**
+ * Guess feed
+ *
+ * The feed lists a round's guesses per team. It's filled from the indexer when a round is opened and kept up to date
+ * with live events, so the same guess may arrive from both and is only listed once.
+ */
+
+export type FeedGuess = Extract<GameEvent, { type: "GuessSubmitted" }>;
+
+// Guesses carry no id, a player can't make the same guess twice in the same second anyway
+const guessKey = (guess: FeedGuess) => `${guess.guesser.toString()}:${guess.timestamp}:${guess.guess}`;
+
+/**
+ * Add guesses to a feed, skipping the ones it already lists and keeping it ordered by time
+ */
+export const mergeGuesses = (feed: FeedGuess[], guesses: FeedGuess[]): FeedGuess[] => {
+  const keys = new Set(feed.map(guessKey));
+  const added = guesses.filter((guess) => {
+    const key = guessKey(guess);
+    if (keys.has(key)) return false;
+    keys.add(key);
+    return true;
+  });
+
+  if (added.length === 0) return feed;
+  // Stable sort keeps guesses made in the same second in the order they arrived
+  return [...feed, ...added].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Split a feed into one list of guesses per team
+ */
+export const groupGuessesByTeam = (feed: FeedGuess[], teamCount: number): FeedGuess[][] =>
+  Array.from({ length: teamCount }, (_, team) => feed.filter((guess) => guess.team === team));
+
+/**
+ * Whether a guess has to be masked for a viewer, so correct guesses don't give the word away to the other team
+ * Spectators count as the other team until the round is over and the word is revealed anyway
+ */
+export const isGuessMasked = (guess: FeedGuess, viewerTeam: number | null, roundFinished: boolean): boolean =>
+  guess.correct && guess.team !== viewerTeam && !roundFinished;
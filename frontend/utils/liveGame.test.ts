@@ -0,0 +1,142 @@
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { describe, expect, it } from "vitest";
+import { applyGameEvent, LiveGame } from "@/utils/liveGame";
+import { GameState, RoundState } from "@/utils/surf";
+
+const ALICE = AccountAddress.from("0xa");
+const BOB = AccountAddress.from("0xb");
+const CAROL = AccountAddress.from("0xc");
+const DAVE = AccountAddress.from("0xd");
+
+const game = (overrides: Partial<GameState> = {}): GameState => ({
+  creator: ALICE,
+  teams: [
+    { name: "Red", players: [ALICE, BOB], currentArtist: 0 },
+    { name: "Blue", players: [CAROL, DAVE], currentArtist: 1 },
+  ],
+  scores: [0, 0],
+  freeForAll: false,
+  targetScore: 10,
+  currentRound: 1,
+  started: true,
+  finished: false,
+  winner: null,
+  canvasWidth: 500,
+  canvasHeight: 500,
+  roundDuration: 30,
+  palette: [],
+  openEnrollment: false,
+  teamsLocked: false,
+  closeGuessDistance: 0,
+  wordChoice: false,
+  scoringMode: "classic",
+  ...overrides,
+});
+
+const round = (overrides: Partial<RoundState> = {}): RoundState => ({
+  roundNumber: 0,
+  word: "",
+  wordChosen: true,
+  difficulty: "easy",
+  startTime: 100,
+  durationSeconds: 30,
+  guessTimes: [null, null],
+  finished: false,
+  processed: false,
+  artist: null,
+  ...overrides,
+});
+
+const live = (gameOverrides: Partial<GameState> = {}, roundOverrides: Partial<RoundState> = {}): LiveGame => ({
+  game: game(gameOverrides),
+  round: round(roundOverrides),
+});
+
+const guessed = (guesser: AccountAddress, team: number, correct: boolean, roundNumber = 0) =>
+  ({
+    type: "GuessSubmitted",
+    guesser,
+    team,
+    guess: "cat",
+    correct,
+    close: false,
+    roundNumber,
+    timestamp: 110,
+  }) as const;
+
+describe("applyGameEvent", () => {
+  it("notes when a team guessed its word", () => {
+    const next = applyGameEvent(live(), guessed(DAVE, 1, true));
+    expect(next?.round?.guessTimes).toEqual([null, 110]);
+    expect(next?.round?.finished).toBe(false);
+  });
+
+  it("finishes the round once every team guessed", () => {
+    const next = applyGameEvent(live({}, { guessTimes: [105, null] }), guessed(DAVE, 1, true));
+    expect(next?.round?.finished).toBe(true);
+  });
+
+  it("keeps a team's first correct guess", () => {
+    const next = applyGameEvent(live({}, { guessTimes: [null, 105] }), guessed(DAVE, 1, true));
+    expect(next?.round?.guessTimes).toEqual([null, 105]);
+  });
+
+  it("leaves the round alone for wrong guesses", () => {
+    const before = live();
+    expect(applyGameEvent(before, guessed(DAVE, 1, false))).toBe(before);
+  });
+
+  it("notes correct guesses per player in free-for-all games", () => {
+    const ffa = live(
+      {
+        freeForAll: true,
+        teams: [{ name: "Everyone", players: [ALICE, BOB, CAROL], currentArtist: 0 }],
+        scores: [0, 0, 0],
+      },
+      { guessTimes: [null, null, null], artist: 0 },
+    );
+    const next = applyGameEvent(ffa, guessed(CAROL, 0, true));
+    expect(next?.round?.guessTimes).toEqual([null, null, 110]);
+    expect(next?.round?.finished).toBe(false);
+  });
+
+  it("notes the chosen word's difficulty and restarts the round's timer", () => {
+    const next = applyGameEvent(live({}, { wordChosen: false }), {
+      type: "WordChosen",
+      roundNumber: 0,
+      difficulty: "hard",
+      startTime: 120,
+    });
+    expect(next?.round).toMatchObject({ wordChosen: true, difficulty: "hard", startTime: 120 });
+  });
+
+  it("scores the round and hands the canvas to the next artists once it's finished", () => {
+    const next = applyGameEvent(live({}, { finished: true }), {
+      type: "RoundFinished",
+      roundNumber: 0,
+      word: "cat",
+      difficulty: "medium",
+      pointsEarned: [2, 0],
+      totalScores: [2, 0],
+    });
+    expect(next?.game.scores).toEqual([2, 0]);
+    expect(next?.game.teams.map((team) => team.currentArtist)).toEqual([1, 0]);
+    expect(next?.round).toMatchObject({ word: "cat", difficulty: "medium", processed: true, finished: true });
+  });
+
+  it("moves players who join a team out of their old one", () => {
+    const next = applyGameEvent(live(), { type: "PlayerJoined", player: BOB, team: 1 });
+    expect(next?.game.teams.map((team) => team.players)).toEqual([[ALICE], [CAROL, DAVE, BOB]]);
+  });
+
+  it("finishes the game", () => {
+    const next = applyGameEvent(live(), { type: "GameFinished", winner: 1, finalScores: [3, 10] });
+    expect(next?.game).toMatchObject({ finished: true, winner: 1, scores: [3, 10] });
+  });
+
+  it("asks for a reload for new rounds and events of other rounds", () => {
+    expect(applyGameEvent(live(), { type: "RoundStarted", roundNumber: 2, startTime: 200 })).toBeNull();
+    expect(applyGameEvent(live(), guessed(DAVE, 1, true, 1))).toBeNull();
+    expect(applyGameEvent({ game: game(), round: null }, guessed(DAVE, 1, true))).toBeNull();
+  });
+});
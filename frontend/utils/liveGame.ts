@@ -0,0 +1,81 @@
+import { GameEvent } from "@/utils/gameEvents";
+import { everyoneGuessed } from "@/utils/gameLogic";
+import { playerScoreIndex } from "@/utils/lobby";
+import { GameState, RoundState } from "@/utils/surf";
+
+// Game and current round as the game UI shows them
+export interface LiveGame {
+  game: GameState;
+  round: RoundState | null;
+}
+
+// Whether an event of the current round can be applied to the round as loaded
+const isCurrentRound = (round: RoundState | null, roundNumber: number): round is RoundState =>
+  round !== null && round.roundNumber === roundNumber;
+
+/**
+ * Apply a live game event to the loaded game and round without fetching them again
+ * Returns null when the event's payload isn't enough to update them, e.g. a new round or an event of a round that
+ * isn't the loaded one, in which case the caller reloads them from chain
+ */
+export const applyGameEvent = (live: LiveGame, event: GameEvent): LiveGame | null => {
+  const { game, round } = live;
+
+  switch (event.type) {
+    case "CanvasUpdated":
+      // Canvases follow their own events
+      return live;
+    case "PlayerJoined":
+      return {
+        game: {
+          ...game,
+          // Joining a team of a game with open enrollment moves the player out of the team they were in
+          teams: game.teams.map((team, index) => {
+            const players = team.players.filter((player) => !player.equals(event.player));
+            return { ...team, players: index === event.team ? [...players, event.player] : players };
+          }),
+        },
+        round,
+      };
+    case "GuessSubmitted": {
+      if (!isCurrentRound(round, event.roundNumber)) return null;
+      if (!event.correct) return live;
+
+      const scoreIndex = game.freeForAll ? playerScoreIndex(game, event.guesser) : event.team;
+      if (scoreIndex === null || round.guessTimes[scoreIndex] !== null) return live;
+
+      const guessTimes = round.guessTimes.map((time, index) => (index === scoreIndex ? event.timestamp : time));
+      return {
+        game,
+        round: { ...round, guessTimes, finished: round.finished || everyoneGuessed(guessTimes, round.artist) },
+      };
+    }
+    case "WordChosen":
+      if (!isCurrentRound(round, event.roundNumber)) return null;
+      return {
+        game,
+        round: {
+          ...round,
+          wordChosen: true,
+          difficulty: event.difficulty,
+          startTime: event.startTime,
+        },
+      };
+    case "RoundFinished":
+      if (!isCurrentRound(round, event.roundNumber)) return null;
+      return {
+        game: {
+          ...game,
+          scores: event.totalScores,
+          // Artists take turns, every team's next artist draws in the next round
+          teams: game.teams.map((team) => ({ ...team, currentArtist: (team.currentArtist + 1) % team.players.length })),
+        },
+        round: { ...round, word: event.word, difficulty: event.difficulty, finished: true, processed: true },
+      };
+    case "GameFinished":
+      return { game: { ...game, finished: true, winner: event.winner, scores: event.finalScores }, round };
+    case "RoundStarted":
+      // The new round's state isn't in the event, e.g. how many players guess in it
+      return null;
+  }
+};
@@ -0,0 +1,104 @@
+import { AccountAddress, Aptos } from "@aptos-labs/ts-sdk";
+import { fetchCreatedGames, fetchJoinedGameAddresses } from "@/utils/gameEvents";
+import { getGameSummaries } from "@/view-functions/gameView";
+import { GameState, GameSummary, TeamState } from "@/utils/surf";
+
+// How many games each lobby list shows at most
+const LOBBY_GAME_LIMIT = 20;
+
+export type LobbyGameStatus = "not_started" | "in_progress" | "finished";
+
+export interface LobbyGame {
+  gameAddress: AccountAddress;
+  creator: AccountAddress;
+  status: LobbyGameStatus;
+  // Team names in team order, and scores in team order or player order in free-for-all games
+  teamNames: string[];
+  scores: number[];
+  freeForAll: boolean;
+  // Players of a free-for-all game in player order, empty in team games
+  players: AccountAddress[];
+  targetScore: number;
+  currentRound: number;
+  winner: number | null;
+  // Team of the player the lobby was loaded for, null if they don't play in the game
+  playerTeam: number | null;
+}
+
+export interface Lobby {
+  // Games the player created or plays in
+  myGames: LobbyGame[];
+  // Other games that haven't finished yet, open to spectators
+  openGames: LobbyGame[];
+}
+
+export const getLobbyGameStatus = (game: Pick<GameState, "started" | "finished">): LobbyGameStatus =>
+  game.finished ? "finished" : game.started ? "in_progress" : "not_started";
+
+// Team the player plays in, null if they don't play in the game
+export const playerTeam = (game: { teams: Pick<TeamState, "players">[] }, player: AccountAddress): number | null => {
+  const team = game.teams.findIndex((team) => team.players.some((address) => address.equals(player)));
+  return team === -1 ? null : team;
+};
+
+// Index of the player's score and guess times, their team's or in free-for-all games their own
+// Null if they don't play in the game
+export const playerScoreIndex = (
+  game: { teams: Pick<TeamState, "players">[]; freeForAll: boolean },
+  player: AccountAddress,
+): number | null => {
+  if (!game.freeForAll) return playerTeam(game, player);
+  const index = game.teams[0].players.findIndex((address) => address.equals(player));
+  return index === -1 ? null : index;
+};
+
+const toLobbyGame = (game: GameSummary, player: AccountAddress): LobbyGame => ({
+  gameAddress: game.gameAddress,
+  creator: game.creator,
+  status: getLobbyGameStatus(game),
+  teamNames: game.teams.map((team) => team.name),
+  scores: game.scores,
+  freeForAll: game.freeForAll,
+  players: game.freeForAll ? game.teams[0].players : [],
+  targetScore: game.targetScore,
+  currentRound: game.currentRound,
+  winner: game.winner,
+  playerTeam: playerTeam(game, player),
+});
+
+// Load the current state of each game in one view call, games that can't be read (e.g. deleted objects) are left out
+const loadGames = async (
+  aptos: Aptos,
+  gameAddresses: AccountAddress[],
+  player: AccountAddress,
+): Promise<LobbyGame[]> => {
+  const games = await getGameSummaries(aptos, gameAddresses);
+  return games.map((game) => toLobbyGame(game, player));
+};
+
+/**
+ * Load the lobby for a player: their own games and recent unfinished games of others
+ */
+export const loadLobby = async (aptos: Aptos, player: AccountAddress): Promise<Lobby> => {
+  const [myCreatedGames, joinedGameAddresses, recentCreatedGames] = await Promise.all([
+    fetchCreatedGames(aptos, { player, limit: LOBBY_GAME_LIMIT }),
+    fetchJoinedGameAddresses(aptos, player, LOBBY_GAME_LIMIT),
+    fetchCreatedGames(aptos, { limit: LOBBY_GAME_LIMIT }),
+  ]);
+
+  // Games joined from an invite link aren't in the player's GameCreated events, merge them in
+  const myAddresses = new Map<string, AccountAddress>();
+  [...myCreatedGames.map((game) => game.gameAddress), ...joinedGameAddresses].forEach((address) =>
+    myAddresses.set(address.toString(), address),
+  );
+  const otherAddresses = recentCreatedGames
+    .map((game) => game.gameAddress)
+    .filter((address) => !myAddresses.has(address.toString()));
+
+  const [myGames, otherGames] = await Promise.all([
+    loadGames(aptos, [...myAddresses.values()].slice(0, LOBBY_GAME_LIMIT), player),
+    loadGames(aptos, otherAddresses, player),
+  ]);
+
+  return { myGames, openGames: otherGames.filter((game) => game.status !== "finished") };
+};
@@ -0,0 +1,89 @@
+/**
+ * Drawing palettes
+ *
+ * Canvas deltas store their color as a u8 index into the game's palette. Games either use DEFAULT_PALETTE or a
+ * custom palette of 0xRRGGBB colors chosen when the game was created, which the contract stores and checks
+ * color indices against.
+ */
+
+export interface PaletteColor {
+  name: string;
+  hex: string;
+}
+
+export type Palette = PaletteColor[];
+
+// Color indices are stored as u8, so a palette can't have more colors than this
+export const MAX_PALETTE_SIZE = 256;
+
+// Must stay in sync with DEFAULT_PALETTE_SIZE in the contract. The first 11 colors keep the indices of the
+// original fixed palette.
+export const DEFAULT_PALETTE: Palette = [
+  { name: "Black", hex: "#000000" },
+  { name: "White", hex: "#FFFFFF" },
+  { name: "Red", hex: "#FF0000" },
+  { name: "Green", hex: "#00FF00" },
+  { name: "Blue", hex: "#0000FF" },
+  { name: "Yellow", hex: "#FFFF00" },
+  { name: "Orange", hex: "#FFA500" },
+  { name: "Purple", hex: "#800080" },
+  { name: "Pink", hex: "#FFC0CB" },
+  { name: "Brown", hex: "#A52A2A" },
+  { name: "Gray", hex: "#808080" },
+  { name: "Dark Gray", hex: "#404040" },
+  { name: "Light Gray", hex: "#C0C0C0" },
+  { name: "Dark Red", hex: "#8B0000" },
+  { name: "Crimson", hex: "#DC143C" },
+  { name: "Coral", hex: "#FF7F50" },
+  { name: "Gold", hex: "#FFD700" },
+  { name: "Beige", hex: "#F5DEB3" },
+  { name: "Olive", hex: "#808000" },
+  { name: "Lime", hex: "#32CD32" },
+  { name: "Dark Green", hex: "#006400" },
+  { name: "Teal", hex: "#008080" },
+  { name: "Cyan", hex: "#00FFFF" },
+  { name: "Sky Blue", hex: "#87CEEB" },
+  { name: "Navy", hex: "#000080" },
+  { name: "Indigo", hex: "#4B0082" },
+  { name: "Violet", hex: "#EE82EE" },
+  { name: "Magenta", hex: "#FF00FF" },
+  { name: "Hot Pink", hex: "#FF69B4" },
+  { name: "Peach", hex: "#FFDAB9" },
+  { name: "Tan", hex: "#D2B48C" },
+  { name: "Chocolate", hex: "#D2691E" },
+];
+
+/**
+ * Convert a 0xRRGGBB color as stored on chain to a CSS hex color
+ */
+export const rgbToHex = (rgb: number): string => `#${(rgb & 0xffffff).toString(16).padStart(6, "0").toUpperCase()}`;
+
+/**
+ * Convert a CSS hex color (#RRGGBB) to a 0xRRGGBB color for the contract
+ */
+export const hexToRgb = (hex: string): number => parseInt(hex.replace(/^#/, ""), 16) & 0xffffff;
+
+/**
+ * Get the palette a game draws with from its custom palette as stored on chain
+ */
+export const resolvePalette = (customPalette: number[]): Palette =>
+  customPalette.length === 0
+    ? DEFAULT_PALETTE
+    : customPalette.map((rgb, index) => ({ name: `Color ${index + 1}`, hex: rgbToHex(rgb) }));
+
+/**
+ * Check whether a color index can be submitted for a palette
+ */
+export const isValidColorIndex = (palette: Palette, index: number): boolean =>
+  Number.isInteger(index) && index >= 0 && index < palette.length;
+
+/**
+ * Get the CSS color for a color index, unknown indices are shown as the first palette color
+ */
+export const getPaletteHex = (palette: Palette, index: number): string => {
+  if (!isValidColorIndex(palette, index)) {
+    console.warn(`Color index ${index} is outside the palette`);
+    return palette[0]?.hex ?? DEFAULT_PALETTE[0].hex;
+  }
+  return palette[index].hex;
+};
@@ -0,0 +1,119 @@
+import { AccountAddress } from "@aptos-labs/ts-sdk";
+import { CanvasDelta } from "@/utils/surf";
+import { GameEvent } from "@/utils/gameEvents";
+
+/**
+ * Round replays
+ *
+ * A replay is rebuilt from a round's CanvasUpdated events. Each event carries a chunk of deltas submitted at once
+ * (every few seconds while the artist draws), so the deltas of a chunk are spread evenly over the time leading up to
+ * its submission to make the timelapse play back smoothly.
+ */
+
+// The artist submits at most this long after drawing, see AUTO_SAVE_INTERVAL_SECS in GameCanvas
+const SUBMISSION_WINDOW_SECS = 3;
+
+interface TimedDelta {
+  // Seconds since the start of the replay
+  time: number;
+  delta: CanvasDelta;
+}
+
+export interface ReplayGuess {
+  // Seconds since the start of the replay
+  time: number;
+  team: number;
+  guess: string;
+  guesser: AccountAddress;
+  correct: boolean;
+}
+
+export interface RoundReplay {
+  // Length of the replay in seconds
+  duration: number;
+  // Canvas deltas of each team, in log order
+  teams: TimedDelta[][];
+  guesses: ReplayGuess[];
+}
+
+/**
+ * Build a replay from a round's events
+ * Times are relative to the round's start, the replay ends with the last event (or the round's end if nothing happened)
+ */
+export const buildRoundReplay = (
+  events: GameEvent[],
+  startTime: number,
+  durationSeconds: number,
+  teamCount: number = 2,
+): RoundReplay => {
+  const teams: TimedDelta[][] = [];
+  let lastTime = 0;
+
+  for (let team = 0; team < teamCount; team++) {
+    const updates = events
+      .flatMap((event) => (event.type === "CanvasUpdated" && event.team === team ? [event] : []))
+      .sort((a, b) => a.firstSequence - b.firstSequence);
+
+    const deltas: TimedDelta[] = [];
+    let previousTime = 0;
+
+    for (const update of updates) {
+      const time = Math.max(0, update.timestamp - startTime);
+      const windowStart = Math.max(previousTime, time - SUBMISSION_WINDOW_SECS);
+
+      update.deltas.forEach((delta, i) => {
+        // Events are ordered, but skip any delta that was already delivered
+        if (update.firstSequence + i < deltas.length) return;
+        deltas.push({ time: windowStart + ((time - windowStart) * (i + 1)) / update.deltas.length, delta });
+      });
+
+      previousTime = time;
+      lastTime = Math.max(lastTime, time);
+    }
+
+    teams.push(deltas);
+  }
+
+  const guesses = events.flatMap((event) =>
+    event.type === "GuessSubmitted"
+      ? [
+          {
+            time: Math.max(0, event.timestamp - startTime),
+            team: event.team,
+            guess: event.guess,
+            guesser: event.guesser,
+            correct: event.correct,
+          },
+        ]
+      : [],
+  );
+  guesses.forEach((guess) => (lastTime = Math.max(lastTime, guess.time)));
+
+  return { duration: lastTime > 0 ? lastTime : durationSeconds, teams, guesses };
+};
+
+/**
+ * Count a team's deltas that are visible at a point in the replay
+ */
+export const countVisibleDeltas = (replay: RoundReplay, team: number, time: number): number => {
+  const deltas = replay.teams[team] ?? [];
+
+  // Binary search for the first delta after the given time
+  let low = 0;
+  let high = deltas.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (deltas[mid].time <= time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+/**
+ * Get a team's first deltas in log order, e.g. the ones visible at a point in the replay
+ */
+export const getReplayDeltas = (replay: RoundReplay, team: number, count: number): CanvasDelta[] =>
+  (replay.teams[team] ?? []).slice(0, count).map(({ delta }) => delta);
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import {
+  CLASSIC_RULES,
+  RoundOutcome,
+  SCORING_RULES,
+  gameWinner,
+  isGameOver,
+  potentialPoints,
+  roundPoints,
+  scoreRounds,
+  speedBonus,
+  toScoringMode,
+} from "@/utils/scoring";
+import { toWordDifficulty } from "@/utils/wordPacks";
+import scoringCases from "@/utils/scoringCases.json";
+
+// Rounds start at 0 and last 30 seconds like the contract's scoring cases
+
+const round = (guessTimes: (number | null)[], overrides: Partial<RoundOutcome> = {}): RoundOutcome => ({
+  guessTimes,
+  difficulty: "easy",
+  artist: null,
+  startTime: 0,
+  durationSeconds: 30,
+  ...overrides,
+});
+
+const TIME_BONUS_RULES = SCORING_RULES.time_bonus;
+
+describe("roundPoints", () => {
+  // Exported from test_scoring_cases in contract/tests/pictionary_tests.move with contract/export-scoring-cases.sh
+  it.each(scoringCases)("$name", ({ scoringMode, difficulty, points, ...outcome }) => {
+    const rules = SCORING_RULES[toScoringMode(scoringMode)];
+    expect(roundPoints({ ...outcome, difficulty: toWordDifficulty(difficulty) }, rules)).toEqual(points);
+  });
+});
+
+describe("speedBonus", () => {
+  const timing = { startTime: 100, durationSeconds: 30 };
+
+  it("gives the full bonus for guessing right when the round starts", () => {
+    expect(speedBonus(timing, 100, TIME_BONUS_RULES)).toBe(3);
+  });
+
+  it("counts guesses timed before the round started as guessing right away", () => {
+    expect(speedBonus(timing, 90, TIME_BONUS_RULES)).toBe(3);
+  });
+
+  it("decays linearly, rounding down", () => {
+    expect(speedBonus(timing, 101, TIME_BONUS_RULES)).toBe(2);
+    expect(speedBonus(timing, 110, TIME_BONUS_RULES)).toBe(2);
+    expect(speedBonus(timing, 111, TIME_BONUS_RULES)).toBe(1);
+    expect(speedBonus(timing, 120, TIME_BONUS_RULES)).toBe(1);
+    expect(speedBonus(timing, 121, TIME_BONUS_RULES)).toBe(0);
+  });
+
+  it("gives nothing once the round is over", () => {
+    expect(speedBonus(timing, 129, TIME_BONUS_RULES)).toBe(0);
+    expect(speedBonus(timing, 130, TIME_BONUS_RULES)).toBe(0);
+    expect(speedBonus(timing, 200, TIME_BONUS_RULES)).toBe(0);
+  });
+
+  it("gives nothing in classic games", () => {
+    expect(speedBonus(timing, 100, CLASSIC_RULES)).toBe(0);
+  });
+});
+
+describe("potentialPoints", () => {
+  it("gives the first guess points while no other team guessed", () => {
+    expect(potentialPoints(round([null, null]), 1, 12.5, CLASSIC_RULES)).toBe(2);
+  });
+
+  it("gives the later guess points once another team guessed", () => {
+    expect(potentialPoints(round([5, null]), 1, 12.5, CLASSIC_RULES)).toBe(1);
+  });
+
+  it("rounds the current time down like guess times on chain", () => {
+    // Guessing in the same second as team 1 still counts as first for team 0
+    expect(potentialPoints(round([null, 12]), 0, 12.9, CLASSIC_RULES)).toBe(2);
+    // At 9.9 seconds the bonus is still the one of second 9
+    expect(potentialPoints(round([null, null]), 0, 9.9, TIME_BONUS_RULES)).toBe(4);
+  });
+
+  it("multiplies the points by the word's difficulty", () => {
+    expect(potentialPoints(round([null, null], { difficulty: "hard" }), 1, 0, CLASSIC_RULES)).toBe(6);
+  });
+});
+
+describe("scoreRounds", () => {
+  // test_tied_final_score_goes_to_team0: team 0 guesses first in the first round, team 1 in the second
+  it("adds up the rounds in order", () => {
+    const scored = scoreRounds([round([0, 0]), round([1, 0])], CLASSIC_RULES);
+    expect(scored).toEqual([
+      { points: [2, 1], totals: [2, 1] },
+      { points: [1, 2], totals: [3, 3] },
+    ]);
+  });
+
+  it("starts from the given scores", () => {
+    expect(scoreRounds([round([0, null])], CLASSIC_RULES, [4, 5])).toEqual([{ points: [2, 0], totals: [6, 5] }]);
+  });
+
+  it("returns no rounds for no rounds", () => {
+    expect(scoreRounds([], CLASSIC_RULES, [1, 2])).toEqual([]);
+  });
+});
+
+describe("gameWinner", () => {
+  // test_tied_final_score_goes_to_team0
+  it("gives a tie to the team listed first", () => {
+    expect(isGameOver([3, 3], 3)).toBe(true);
+    expect(gameWinner([3, 3])).toBe(0);
+    expect(gameWinner([1, 4, 4])).toBe(1);
+  });
+
+  it("picks the team with the highest score", () => {
+    expect(gameWinner([2, 5, 3])).toBe(1);
+  });
+});
+
+describe("isGameOver", () => {
+  it("ends the game once a team reaches the target score", () => {
+    expect(isGameOver([2, 1], 3)).toBe(false);
+    expect(isGameOver([2, 4], 3)).toBe(true);
+  });
+});
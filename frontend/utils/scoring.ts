@@ -0,0 +1,135 @@
+import { WordDifficulty } from "@/utils/wordPacks";
+
+/**
+ * Scoring engine
+ *
+ * Every score the frontend computes goes through these functions, so the sidebar, the scoreboard and the round
+ * history agree with each other and with the contract. The rules of a game come from its scoring mode, each rule
+ * mirrors a constant or branch of round_points, speed_bonus and finish_round in the contract.
+ */
+
+// Scoring modes in the order of the values the contract stores
+// Classic scoring only counts which team guessed first, time bonus scoring also rewards guessing fast
+// Must match SCORING_CLASSIC and SCORING_TIME_BONUS in the contract
+export const SCORING_MODES = ["classic", "time_bonus"] as const;
+
+export type ScoringMode = (typeof SCORING_MODES)[number];
+
+// Bonus points for guessing right when the round starts in time bonus games, must match SPEED_BONUS_POINTS in the contract
+export const SPEED_BONUS_POINTS = 3;
+
+// Scoring mode stored on chain, out of range values are treated as classic
+export const toScoringMode = (value: number | string): ScoringMode => SCORING_MODES[Number(value)] ?? "classic";
+
+export interface ScoringRules {
+  // Points for the first team to guess the word and for every team that guesses it after them
+  firstGuessPoints: number;
+  laterGuessPoints: number;
+  // Bonus for guessing right when the round starts, decaying linearly to 0 by the end of the round
+  speedBonusPoints: number;
+  // Points for a word are multiplied by its difficulty's multiplier, the speed bonus included
+  difficultyMultipliers: Record<WordDifficulty, number>;
+}
+
+export const CLASSIC_RULES: ScoringRules = {
+  firstGuessPoints: 2,
+  laterGuessPoints: 1,
+  speedBonusPoints: 0,
+  difficultyMultipliers: { easy: 1, medium: 2, hard: 3 },
+};
+
+export const SCORING_RULES: Record<ScoringMode, ScoringRules> = {
+  classic: CLASSIC_RULES,
+  time_bonus: { ...CLASSIC_RULES, speedBonusPoints: SPEED_BONUS_POINTS },
+};
+
+// How a round went for the teams, enough to score it
+export interface RoundOutcome {
+  // When each team guessed the word (a unix timestamp in seconds) in team order, null for teams that didn't
+  guessTimes: (number | null)[];
+  difficulty: WordDifficulty;
+  // Player drawing in free-for-all games, who doesn't guess, null in team games
+  artist: number | null;
+  startTime: number;
+  durationSeconds: number;
+}
+
+export interface ScoredRound {
+  points: number[];
+  // Scores of the teams after the round
+  totals: number[];
+}
+
+/**
+ * Bonus points for a correct guess at the given time (a unix timestamp in seconds), 0 once the round is over
+ * Must match speed_bonus in the contract
+ */
+export function speedBonus(
+  round: Pick<RoundOutcome, "startTime" | "durationSeconds">,
+  guessTime: number,
+  rules: ScoringRules,
+): number {
+  const elapsed = Math.max(0, guessTime - round.startTime);
+  if (elapsed >= round.durationSeconds) return 0;
+  return Math.floor((rules.speedBonusPoints * (round.durationSeconds - elapsed)) / round.durationSeconds);
+}
+
+/**
+ * Whether no other team guessed the word before the team did, teams that guessed in the same second are ordered by team
+ * Must match guessed_first in the contract
+ */
+const guessedFirst = (guessTimes: (number | null)[], team: number, guessTime: number): boolean =>
+  guessTimes.every(
+    (time, other) => other === team || time === null || time > guessTime || (time === guessTime && other > team),
+  );
+
+/**
+ * Points each team earns for a round, in team order
+ * The artist of a free-for-all game earns the later guess points for their word if anyone guessed it
+ * Must match round_points in the contract
+ */
+export function roundPoints(round: RoundOutcome, rules: ScoringRules): number[] {
+  const multiplier = rules.difficultyMultipliers[round.difficulty];
+  const points = round.guessTimes.map((guessTime, team) => {
+    if (guessTime === null) return 0;
+    const placementPoints = guessedFirst(round.guessTimes, team, guessTime)
+      ? rules.firstGuessPoints
+      : rules.laterGuessPoints;
+    // The bonus is 0 unless the rules give one
+    return (placementPoints + speedBonus(round, guessTime, rules)) * multiplier;
+  });
+
+  // Artists don't guess, so the free-for-all artist has no points of their own yet
+  if (round.artist !== null && round.guessTimes.some((time) => time !== null)) {
+    points[round.artist] = rules.laterGuessPoints * multiplier;
+  }
+  return points;
+}
+
+/**
+ * Points a team would earn by guessing the word now (a unix timestamp in seconds), given how the round went so far
+ * Guess times are whole seconds on chain, so the current time is rounded down the same way
+ */
+export function potentialPoints(round: RoundOutcome, team: number, now: number, rules: ScoringRules): number {
+  const guessTimes = round.guessTimes.map((time, index) => (index === team ? Math.floor(now) : time));
+  return roundPoints({ ...round, guessTimes }, rules)[team];
+}
+
+/**
+ * Score rounds in order, starting from the given scores (0 for teams without one)
+ */
+export function scoreRounds(rounds: RoundOutcome[], rules: ScoringRules, initialScores: number[] = []): ScoredRound[] {
+  let totals = initialScores;
+  return rounds.map((round) => {
+    const points = roundPoints(round, rules);
+    totals = points.map((teamPoints, team) => (totals[team] ?? 0) + teamPoints);
+    return { points, totals };
+  });
+}
+
+// The game ends once a team reaches the target score, must match finish_round in the contract
+export const isGameOver = (scores: number[], targetScore: number): boolean =>
+  scores.some((score) => score >= targetScore);
+
+// Team with the highest score, ties go to the team listed first like in finish_round in the contract
+export const gameWinner = (scores: number[]): number => scores.indexOf(Math.max(...scores));
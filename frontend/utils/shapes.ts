@@ -0,0 +1,146 @@
+import { StrokePoint } from "@/utils/strokes";
+
+/**
+ * Shape tools
+ *
+ * Shapes are rasterized into stroke points on the artist's side, so they are submitted as regular strokes and
+ * guessers draw them like any other stroke. Line, rectangle and ellipse strokes are brush paths, flood fills are
+ * fill strokes made of horizontal spans.
+ */
+
+// Per-channel color difference still counted as part of the filled area, covers anti-aliased stroke edges
+export const FILL_TOLERANCE = 48;
+
+// Distance in pixels between sampled points along an ellipse
+const ELLIPSE_SAMPLE_SPACING = 4;
+// Ellipses are sampled with at least this many points, so small ones still look round
+const MIN_ELLIPSE_POINTS = 16;
+
+/**
+ * Points of a straight line between two pixels
+ */
+export const lineStroke = (start: StrokePoint, end: StrokePoint): StrokePoint[] =>
+  start.x === end.x && start.y === end.y
+    ? [{ x: start.x, y: start.y }]
+    : [
+        { x: start.x, y: start.y },
+        { x: end.x, y: end.y },
+      ];
+
+/**
+ * Points of the outline of a rectangle spanned by two opposite corners
+ */
+export const rectangleStroke = (start: StrokePoint, end: StrokePoint): StrokePoint[] => {
+  if (start.x === end.x || start.y === end.y) return lineStroke(start, end);
+
+  return [
+    { x: start.x, y: start.y },
+    { x: end.x, y: start.y },
+    { x: end.x, y: end.y },
+    { x: start.x, y: end.y },
+    { x: start.x, y: start.y },
+  ];
+};
+
+/**
+ * Points of the outline of an ellipse inscribed in the rectangle spanned by two opposite corners
+ */
+export const ellipseStroke = (start: StrokePoint, end: StrokePoint): StrokePoint[] => {
+  if (start.x === end.x || start.y === end.y) return lineStroke(start, end);
+
+  const centerX = (start.x + end.x) / 2;
+  const centerY = (start.y + end.y) / 2;
+  const radiusX = Math.abs(end.x - start.x) / 2;
+  const radiusY = Math.abs(end.y - start.y) / 2;
+
+  // Ramanujan's approximation of the circumference, only used to pick the number of samples
+  const circumference =
+    Math.PI * (3 * (radiusX + radiusY) - Math.sqrt((3 * radiusX + radiusY) * (radiusX + 3 * radiusY)));
+  const samples = Math.max(MIN_ELLIPSE_POINTS, Math.ceil(circumference / ELLIPSE_SAMPLE_SPACING));
+
+  const points: StrokePoint[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const angle = (2 * Math.PI * i) / samples;
+    const point = {
+      x: Math.round(centerX + radiusX * Math.cos(angle)),
+      y: Math.round(centerY + radiusY * Math.sin(angle)),
+    };
+
+    // Rounding can land neighbouring samples in the same pixel
+    const lastPoint = points[points.length - 1];
+    if (!lastPoint || lastPoint.x !== point.x || lastPoint.y !== point.y) {
+      points.push(point);
+    }
+  }
+
+  return points;
+};
+
+/**
+ * Flood fill the area around a pixel that has (roughly) the same color
+ * Returns the filled horizontal spans as pairs of start and end points, ready to be used as a fill stroke's points.
+ * Nothing is filled if the area already has the fill color.
+ */
+export const floodFillSpans = (
+  image: ImageData,
+  start: StrokePoint,
+  fillRgb: number,
+  tolerance: number = FILL_TOLERANCE,
+): StrokePoint[] => {
+  const { width, height, data } = image;
+  if (start.x < 0 || start.y < 0 || start.x >= width || start.y >= height) return [];
+
+  const startOffset = (start.y * width + start.x) * 4;
+  const targetR = data[startOffset];
+  const targetG = data[startOffset + 1];
+  const targetB = data[startOffset + 2];
+
+  const fillR = (fillRgb >> 16) & 0xff;
+  const fillG = (fillRgb >> 8) & 0xff;
+  const fillB = fillRgb & 0xff;
+  if (targetR === fillR && targetG === fillG && targetB === fillB) return [];
+
+  const visited = new Uint8Array(width * height);
+  const matches = (x: number, y: number): boolean => {
+    const index = y * width + x;
+    if (visited[index]) return false;
+
+    const offset = index * 4;
+    return (
+      Math.abs(data[offset] - targetR) <= tolerance &&
+      Math.abs(data[offset + 1] - targetG) <= tolerance &&
+      Math.abs(data[offset + 2] - targetB) <= tolerance
+    );
+  };
+
+  const spans: StrokePoint[] = [];
+  const stack: StrokePoint[] = [{ x: start.x, y: start.y }];
+
+  // Scanline fill: grow each seed into a full span, then seed the rows above and below it
+  while (stack.length > 0) {
+    const { x, y } = stack.pop()!;
+    if (!matches(x, y)) continue;
+
+    let left = x;
+    while (left > 0 && matches(left - 1, y)) left--;
+    let right = x;
+    while (right < width - 1 && matches(right + 1, y)) right++;
+
+    visited.fill(1, y * width + left, y * width + right + 1);
+    spans.push({ x: left, y }, { x: right, y });
+
+    for (const nextY of [y - 1, y + 1]) {
+      if (nextY < 0 || nextY >= height) continue;
+
+      // Seed once per run of matching pixels
+      let inRun = false;
+      for (let nextX = left; nextX <= right; nextX++) {
+        const match = matches(nextX, nextY);
+        if (match && !inRun) stack.push({ x: nextX, y: nextY });
+        inRun = match;
+      }
+    }
+  }
+
+  return spans;
+};
@@ -0,0 +1,248 @@
+import { Canvas, CanvasDelta } from "@/utils/surf";
+
+/**
+ * Stroke encoding for canvas deltas
+ *
+ * The contract stores each team's canvas as an append-only log of `CanvasDelta` words, keyed by the
+ * order they were submitted in. Strokes are framed into the `positions` / `colors` / `brush_sizes`
+ * vectors of `submit_canvas_delta` as one header word followed by one word per point:
+ *
+ *   header: position = flags | (pointCount - 1)   color = stroke color   brushSize = stroke brush size
+ *   point:  position = y * POINT_STRIDE + x       color = stroke color   brushSize = point brush size
+ *
+ * Points are stored in canvas pixels at full resolution, the contract rejects points off the canvas. Canvas dimensions are u16 on chain, so both
+ * coordinates of a point fit in a u32 position. Point words carry their own brush size so pressure
+ * sensitive strokes can vary in width, the header carries the stroke's nominal size. Header flags are
+ * ERASE_FLAG (bit 8) and FILL_FLAG (bit 9), bits 10-14 are reserved.
+ *
+ * Fill strokes (e.g. from the bucket tool) are rasterized on the artist's side, their points are pairs
+ * of start and end pixels of horizontal spans to paint.
+ *
+ * Words with bit 15 set are control words rather than stroke headers:
+ *
+ *   control: position = CONTROL_FLAG | (opcode << 8) | argCount
+ *
+ * followed by `argCount` argument words. Decoders skip control words with unknown opcodes.
+ */
+
+// Row stride of a point word, large enough for any u16 canvas width. Must match POINT_STRIDE in the contract
+export const POINT_STRIDE = 0x10000;
+// The point count is stored in the low byte of the header, longer strokes are split
+export const MAX_STROKE_POINTS = 256;
+// The brush size is stored as a u8 on every delta
+export const MAX_BRUSH_SIZE = 255;
+
+// Header flag marking a stroke that erases back to the background
+const ERASE_FLAG = 0x100;
+// Header flag marking a stroke of filled spans instead of a brush path
+const FILL_FLAG = 0x200;
+// Marks a control word instead of a stroke header. Must match CONTROL_FLAG in the contract
+const CONTROL_FLAG = 0x8000;
+// Control opcode discarding everything drawn before it
+const CONTROL_CLEAR = 0;
+// Control opcode retracting the most recent visible stroke
+const CONTROL_UNDO = 1;
+
+// A pixel on the canvas (0 to width - 1 and 0 to height - 1)
+export interface StrokePoint {
+  x: number;
+  y: number;
+  // Brush size at this point (e.g. from stylus pressure), the stroke's brush size if unset
+  size?: number;
+}
+
+export interface Stroke {
+  color: number;
+  brushSize: number;
+  points: StrokePoint[];
+  // Eraser strokes paint the background back, their color is ignored
+  erase: boolean;
+  // Fill strokes paint horizontal spans between pairs of points instead of a brush path
+  fill?: boolean;
+}
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+/**
+ * Round a brush size to one that can be stored on a delta
+ */
+export const clampBrushSize = (size: number): number => clamp(Math.round(size), 1, MAX_BRUSH_SIZE);
+
+/**
+ * Convert canvas coordinates to the stroke point of the pixel they fall in
+ */
+export const toStrokePoint = (x: number, y: number, width: number, height: number): StrokePoint => ({
+  x: clamp(Math.floor(x), 0, width - 1),
+  y: clamp(Math.floor(y), 0, height - 1),
+});
+
+/**
+ * Convert a stroke point back to canvas coordinates (the center of the pixel)
+ */
+export const fromStrokePoint = (point: StrokePoint): { x: number; y: number } => ({
+  x: point.x + 0.5,
+  y: point.y + 0.5,
+});
+
+/**
+ * Split a stroke into the frames it is encoded as
+ * Strokes longer than MAX_STROKE_POINTS are split into consecutive strokes that share their boundary point,
+ * fill strokes are split between spans instead
+ */
+const splitStroke = (stroke: Stroke): Stroke[] => {
+  const frames: Stroke[] = [];
+
+  if (stroke.fill) {
+    // MAX_STROKE_POINTS is even, so spans are never split across frames
+    for (let start = 0; start < stroke.points.length; start += MAX_STROKE_POINTS) {
+      frames.push({ ...stroke, points: stroke.points.slice(start, start + MAX_STROKE_POINTS) });
+    }
+    return frames;
+  }
+
+  for (let start = 0; start < stroke.points.length; start += MAX_STROKE_POINTS - 1) {
+    const points = stroke.points.slice(start, start + MAX_STROKE_POINTS);
+    // The last chunk may consist only of the shared boundary point, which is already encoded
+    if (start > 0 && points.length === 1) break;
+
+    frames.push({ ...stroke, points });
+  }
+
+  return frames;
+};
+
+/**
+ * Encode a stroke into framed canvas deltas
+ */
+export const encodeStroke = (stroke: Stroke): CanvasDelta[] => {
+  const brushSize = clampBrushSize(stroke.brushSize);
+  const flags = (stroke.erase ? ERASE_FLAG : 0) | (stroke.fill ? FILL_FLAG : 0);
+
+  return splitStroke(stroke).flatMap(({ points }) => [
+    { position: flags | (points.length - 1), color: stroke.color, brushSize },
+    ...points.map((point) => ({
+      position: point.y * POINT_STRIDE + point.x,
+      color: stroke.color,
+      brushSize: point.size === undefined ? brushSize : clampBrushSize(point.size),
+    })),
+  ]);
+};
+
+/**
+ * Encode the markers that retract a previously submitted stroke
+ * The stroke must be the most recent visible one, e.g. when undoing strokes in reverse order
+ */
+export const encodeUndoStroke = (stroke: Stroke): CanvasDelta[] =>
+  splitStroke(stroke).map(() => ({ position: CONTROL_FLAG | (CONTROL_UNDO << 8), color: 0, brushSize: 0 }));
+
+/**
+ * Encode a marker that clears the canvas, everything submitted before it is discarded when decoding
+ */
+export const encodeClearCanvas = (): CanvasDelta[] => [
+  { position: CONTROL_FLAG | (CONTROL_CLEAR << 8), color: 0, brushSize: 0 },
+];
+
+/**
+ * Count the deltas of the frame (a stroke header or control word and the words that follow it) starting at an index
+ * Splitting deltas only where frames end keeps every part decodable on its own
+ */
+export const frameLength = (deltas: CanvasDelta[], start: number): number => {
+  const word = deltas[start].position;
+  return 1 + (word & CONTROL_FLAG ? word & 0xff : (word & 0xff) + 1);
+};
+
+/**
+ * Decode framed canvas deltas back into the strokes that are currently visible
+ * A trailing partial stroke (e.g. from a truncated submission) is dropped
+ */
+export const decodeStrokes = (deltas: CanvasDelta[]): Stroke[] => {
+  const strokes: Stroke[] = [];
+
+  let i = 0;
+  while (i < deltas.length) {
+    const header = deltas[i];
+
+    if (header.position & CONTROL_FLAG) {
+      const opcode = (header.position >> 8) & 0x7f;
+      const argCount = header.position & 0xff;
+
+      if (opcode === CONTROL_CLEAR) {
+        strokes.length = 0;
+      } else if (opcode === CONTROL_UNDO) {
+        strokes.pop();
+      } else {
+        console.warn("Skipping unknown canvas control word:", header);
+      }
+
+      i += 1 + argCount;
+      continue;
+    }
+
+    const pointCount = (header.position & 0xff) + 1;
+
+    if (i + pointCount >= deltas.length) {
+      console.warn(`Dropping truncated stroke at delta ${i}`);
+      break;
+    }
+
+    const points = deltas.slice(i + 1, i + 1 + pointCount).map((delta) => {
+      const point: StrokePoint = { x: delta.position % POINT_STRIDE, y: Math.floor(delta.position / POINT_STRIDE) };
+      // Only keep per-point sizes where they differ from the stroke's, e.g. for pressure sensitive strokes
+      if (delta.brushSize !== header.brushSize) {
+        point.size = delta.brushSize;
+      }
+      return point;
+    });
+
+    strokes.push({
+      color: header.color,
+      brushSize: header.brushSize,
+      points,
+      erase: (header.position & ERASE_FLAG) !== 0,
+      fill: (header.position & FILL_FLAG) !== 0,
+    });
+    i += 1 + pointCount;
+  }
+
+  return strokes;
+};
+
+/**
+ * Check whether two strokes draw exactly the same thing
+ */
+const sameStroke = (a: Stroke, b: Stroke): boolean =>
+  a === b ||
+  (a.color === b.color &&
+    a.brushSize === b.brushSize &&
+    a.erase === b.erase &&
+    !a.fill === !b.fill &&
+    a.points.length === b.points.length &&
+    a.points.every(
+      (point, i) => point.x === b.points[i].x && point.y === b.points[i].y && point.size === b.points[i].size,
+    ));
+
+/**
+ * Count the leading strokes two stroke lists have in common
+ * Strokes after the common prefix are all that needs painting when going from one list to the other, unless the first
+ * list has strokes beyond it (e.g. after an undo or clear)
+ */
+export const countCommonStrokes = (a: Stroke[], b: Stroke[]): number => {
+  let count = 0;
+  while (count < a.length && count < b.length && sameStroke(a[count], b[count])) {
+    count += 1;
+  }
+  return count;
+};
+
+/**
+ * Decode the strokes stored in a canvas delta log, in submission order
+ * Deltas that aren't on chain yet (e.g. unsynced ones from the artist) can be passed to decode after the log
+ */
+export const decodeCanvas = (canvas: Canvas, trailingDeltas: CanvasDelta[] = []): Stroke[] => {
+  const deltas = Object.keys(canvas)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .map((sequence) => canvas[sequence]);
+
+  return decodeStrokes([...deltas, ...trailingDeltas]);
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from "vitest";
+import { encodeClearCanvas } from "@/utils/strokes";
+import { createSubmissionQueue } from "@/utils/submissionQueue";
+import { CanvasDelta } from "@/utils/surf";
+
+// Canvas log on chain, rejecting chunks that don't start at its end like submit_canvas_delta does
+const fakeCanvasLog = () => {
+  const log: CanvasDelta[] = [];
+  return {
+    log,
+    submit: vi.fn(async (deltas: CanvasDelta[], firstSequence: number) => {
+      if (firstSequence !== log.length) {
+        throw new Error("Move abort in pictionary: ECANVAS_SEQUENCE_MISMATCH");
+      }
+      log.push(...deltas);
+    }),
+    fetchSequence: vi.fn(async () => log.length),
+  };
+};
+
+// Single delta frames, so every delta can end a chunk
+const clears = (count: number): CanvasDelta[] => Array.from({ length: count }, () => encodeClearCanvas()[0]);
+
+describe("createSubmissionQueue", () => {
+  it("submits queued deltas at the end of the canvas log", async () => {
+    const chain = fakeCanvasLog();
+    const queue = createSubmissionQueue(chain);
+
+    queue.push(clears(3));
+    queue.flush();
+
+    await vi.waitFor(() => expect(queue.getStatus()).toMatchObject({ pending: 0, inFlight: 0, submitted: 3 }));
+    expect(chain.log).toHaveLength(3);
+    expect(chain.submit).toHaveBeenCalledWith(clears(3), 0);
+  });
+
+  it("keeps its sequence when reconciled with a stale count", async () => {
+    const chain = fakeCanvasLog();
+    const queue = createSubmissionQueue(chain);
+
+    queue.push(clears(3));
+    queue.flush();
+    await vi.waitFor(() => expect(queue.getStatus().submitted).toBe(3));
+
+    // e.g. the canvas as loaded before the first chunk landed
+    queue.reconcile(1);
+    queue.push(clears(2));
+    queue.flush();
+
+    await vi.waitFor(() => expect(queue.getStatus()).toMatchObject({ pending: 0, inFlight: 0, submitted: 5 }));
+    expect(queue.getStatus()).toMatchObject({ failedAttempts: 0, lastError: null });
+    expect(chain.log).toHaveLength(5);
+    expect(chain.submit).toHaveBeenLastCalledWith(clears(2), 3);
+  });
+});
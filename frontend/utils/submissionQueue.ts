@@ -0,0 +1,303 @@
+import { frameLength } from "@/utils/strokes";
+import { CanvasDelta } from "@/utils/surf";
+
+// Conservative cap on deltas per transaction, keeps both the transaction size and its storage gas well below the limits
+export const MAX_DELTAS_PER_SUBMISSION = 500;
+// Attempts per chunk before the queue waits for the next flush
+const MAX_SUBMISSION_ATTEMPTS = 4;
+// Delay before the first retry, doubled on every further retry
+const RETRY_BASE_DELAY_MS = 1000;
+
+export interface SubmissionQueueStatus {
+  // Deltas waiting to be submitted
+  pending: number;
+  // Deltas in the transaction currently being submitted
+  inFlight: number;
+  // Deltas confirmed on chain
+  submitted: number;
+  // Failed attempts for the chunk currently being submitted
+  failedAttempts: number;
+  lastError: string | null;
+}
+
+export interface SubmissionQueueOptions {
+  // Submits one chunk of deltas that has to start at the given sequence of the canvas log, resolving once the
+  // transaction is confirmed
+  submit: (deltas: CanvasDelta[], firstSequence: number) => Promise<void>;
+  // Reads the number of deltas in the canvas log on chain, i.e. the sequence the next chunk starts at
+  fetchSequence: () => Promise<number>;
+  onStatusChange?: (status: SubmissionQueueStatus) => void;
+  maxChunkSize?: number;
+  // localStorage key to keep unsynced deltas under, so they survive reloads and are submitted once back online
+  storageKey?: string;
+}
+
+export interface SubmissionQueue {
+  // Queue deltas for submission, returns the index of the first one in the queue's log
+  push: (deltas: CanvasDelta[]) => number;
+  // Deltas that aren't confirmed on chain yet (in flight and pending), in submission order
+  getUnsyncedDeltas: () => CanvasDelta[];
+  // Drop every delta from the given log index on, if none of them have been taken for submission yet
+  retract: (fromIndex: number) => boolean;
+  // Drop unsynced deltas the chain already has, given the number of deltas in the canvas log on chain
+  reconcile: (sequence: number) => void;
+  // Start submitting queued deltas, one chunk at a time, unless a submission is already running
+  flush: () => void;
+  getStatus: () => SubmissionQueueStatus;
+  // Stop submitting, e.g. when the round is over, pending deltas are dropped but stay in storage
+  dispose: () => void;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Whether the browser knows it has no connection, submitting would only burn retries
+const isOffline = (): boolean => typeof navigator !== "undefined" && navigator.onLine === false;
+
+// Unsynced deltas as kept in storage
+interface UnsyncedDeltas {
+  // Sequence the first delta lands at in the canvas log, null if the queue never learned it
+  sequence: number | null;
+  deltas: CanvasDelta[];
+}
+
+/**
+ * Load unsynced deltas left behind by an earlier session
+ * The first of them may have been in flight when the session ended, and be on chain by now
+ */
+const loadUnsyncedDeltas = (storageKey: string): UnsyncedDeltas => {
+  try {
+    const item = localStorage.getItem(storageKey);
+    if (!item) return { sequence: null, deltas: [] };
+
+    const unsynced = JSON.parse(item);
+    return Array.isArray(unsynced?.deltas)
+      ? { sequence: typeof unsynced.sequence === "number" ? unsynced.sequence : null, deltas: unsynced.deltas }
+      : { sequence: null, deltas: [] };
+  } catch (error) {
+    console.error("Corrupted unsynced canvas deltas, discarding them:", error);
+    localStorage.removeItem(storageKey);
+    return { sequence: null, deltas: [] };
+  }
+};
+
+const saveUnsyncedDeltas = (storageKey: string, unsynced: UnsyncedDeltas) => {
+  try {
+    if (unsynced.deltas.length === 0) {
+      localStorage.removeItem(storageKey);
+    } else {
+      localStorage.setItem(storageKey, JSON.stringify(unsynced));
+    }
+  } catch (error) {
+    console.error("Failed to save unsynced canvas deltas:", error);
+  }
+};
+
+/**
+ * Move aborts mean the contract rejected the deltas (e.g. the round is over), submitting them again won't help.
+ * A sequence mismatch only means the queue's idea of the canvas log was stale, the retry starts at the right one.
+ */
+const isRetryableError = (error: unknown): boolean =>
+  !(error instanceof Error && /move abort|MoveAbort|ABORTED/i.test(error.message)) ||
+  error.message.includes("ECANVAS_SEQUENCE_MISMATCH");
+
+/**
+ * Count the leading deltas that make up whole frames and fit in one chunk, a single longer frame is taken whole
+ * Chunks never end mid-stroke, so dropping one leaves the next starting at a stroke header the decoder can read
+ */
+const chunkLength = (deltas: CanvasDelta[], maxChunkSize: number): number => {
+  let length = 0;
+  while (length < deltas.length) {
+    const next = Math.min(length + frameLength(deltas, length), deltas.length);
+    if (length > 0 && next > maxChunkSize) break;
+    length = next;
+  }
+  return length;
+};
+
+/**
+ * Create a queue that submits canvas deltas in order, in chunks small enough for a single transaction
+ * Only one submission runs at a time, failed chunks are retried with exponential backoff. Every chunk is submitted
+ * for the sequence it has to land at, so a retry of a chunk that was committed after all is caught instead of
+ * appending the chunk twice.
+ */
+export const createSubmissionQueue = ({
+  submit,
+  fetchSequence,
+  onStatusChange,
+  maxChunkSize = MAX_DELTAS_PER_SUBMISSION,
+  storageKey,
+}: SubmissionQueueOptions): SubmissionQueue => {
+  // Deltas restored from storage come first, they were drawn before anything pushed now
+  const restored = storageKey ? loadUnsyncedDeltas(storageKey) : { sequence: null, deltas: [] };
+  let pending: CanvasDelta[] = restored.deltas;
+  // Log index of the first pending delta, everything before it was taken for submission
+  let pendingStart = 0;
+  let inFlightChunk: CanvasDelta[] = [];
+  // Sequence the first unsynced delta lands at in the canvas log, unknown until read from chain
+  let nextSequence: number | null = restored.sequence;
+  // Restored deltas have to be checked against the chain before any of them is submitted again
+  let reconciled = restored.deltas.length === 0;
+  let inFlight = 0;
+  let submitted = 0;
+  let failedAttempts = 0;
+  let lastError: string | null = null;
+  let draining = false;
+  let disposed = false;
+
+  const getStatus = (): SubmissionQueueStatus => ({
+    pending: pending.length,
+    inFlight,
+    submitted,
+    failedAttempts,
+    lastError,
+  });
+
+  const getUnsyncedDeltas = () => [...inFlightChunk, ...pending];
+
+  const notify = () => {
+    if (storageKey && !disposed) {
+      saveUnsyncedDeltas(storageKey, { sequence: nextSequence, deltas: getUnsyncedDeltas() });
+    }
+    onStatusChange?.(getStatus());
+  };
+
+  // Drop the pending deltas that are on chain already, the canvas log holding `sequence` deltas
+  const reconcile = (sequence: number) => {
+    if (draining && inFlightChunk.length > 0) return;
+
+    const landed = nextSequence === null ? 0 : Math.min(Math.max(sequence - nextSequence, 0), pending.length);
+    if (landed > 0) {
+      console.warn(`Dropping ${landed} unsynced canvas deltas that are on chain already`);
+      pending = pending.slice(landed);
+      pendingStart += landed;
+      submitted += landed;
+    }
+    // A count read before the queue's last submission landed is stale, the log never shrinks
+    nextSequence = nextSequence === null ? sequence : Math.max(nextSequence, sequence);
+    reconciled = true;
+    notify();
+  };
+
+  // Check whether a chunk whose submission failed is on chain anyway, e.g. when only waiting for the transaction failed
+  const chunkLanded = async (chunk: CanvasDelta[]): Promise<boolean> => {
+    try {
+      const sequence = await fetchSequence();
+      const landed = nextSequence !== null && sequence >= nextSequence + chunk.length;
+      nextSequence = sequence;
+      return landed;
+    } catch (error) {
+      console.error("Failed to read the canvas log length:", error);
+      return false;
+    }
+  };
+
+  const chunkSubmitted = (chunk: CanvasDelta[]) => {
+    submitted += chunk.length;
+    failedAttempts = 0;
+    lastError = null;
+  };
+
+  // Submit one chunk, retrying transient failures, returns whether the queue should keep draining
+  const submitChunk = async (chunk: CanvasDelta[]): Promise<boolean> => {
+    for (let attempt = 1; attempt <= MAX_SUBMISSION_ATTEMPTS; attempt++) {
+      try {
+        const firstSequence = nextSequence ?? (await fetchSequence());
+        nextSequence = firstSequence;
+        await submit(chunk, firstSequence);
+        nextSequence = firstSequence + chunk.length;
+        chunkSubmitted(chunk);
+        return true;
+      } catch (error) {
+        if (await chunkLanded(chunk)) {
+          console.warn(`Canvas submission attempt ${attempt} failed but its ${chunk.length} deltas are on chain`);
+          chunkSubmitted(chunk);
+          return true;
+        }
+
+        console.error(`Canvas submission attempt ${attempt} failed:`, error);
+        failedAttempts = attempt;
+        lastError = error instanceof Error ? error.message : "Failed to submit canvas deltas";
+
+        if (!isRetryableError(error)) {
+          console.error(`Dropping ${chunk.length} canvas deltas rejected by the contract`);
+          return false;
+        }
+
+        notify();
+        if (attempt < MAX_SUBMISSION_ATTEMPTS) {
+          await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+          if (disposed) return false;
+        }
+      }
+    }
+
+    // Out of attempts - put the chunk back in front so it is submitted first on the next flush
+    pending = [...chunk, ...pending];
+    pendingStart -= chunk.length;
+    inFlightChunk = [];
+    return false;
+  };
+
+  const drain = async () => {
+    draining = true;
+
+    if (!reconciled) {
+      try {
+        reconcile(await fetchSequence());
+      } catch (error) {
+        console.error("Failed to read the canvas log length:", error);
+        draining = false;
+        return;
+      }
+    }
+
+    while (!disposed && pending.length > 0) {
+      const chunk = pending.slice(0, chunkLength(pending, maxChunkSize));
+      pending = pending.slice(chunk.length);
+      pendingStart += chunk.length;
+      inFlightChunk = chunk;
+      inFlight = chunk.length;
+      notify();
+
+      const keepDraining = await submitChunk(chunk);
+      inFlightChunk = [];
+      inFlight = 0;
+      notify();
+
+      if (!keepDraining) break;
+    }
+
+    draining = false;
+  };
+
+  return {
+    push: (deltas) => {
+      const index = pendingStart + pending.length;
+      if (disposed || deltas.length === 0) return index;
+
+      pending = [...pending, ...deltas];
+      notify();
+      return index;
+    },
+    getUnsyncedDeltas,
+    reconcile,
+    retract: (fromIndex) => {
+      if (fromIndex < pendingStart) return false;
+
+      pending = pending.slice(0, fromIndex - pendingStart);
+      notify();
+      return true;
+    },
+    flush: () => {
+      if (disposed || draining || pending.length === 0 || isOffline()) return;
+      drain();
+    },
+    getStatus,
+    dispose: () => {
+      // Stored deltas are left alone, a later queue for the same round picks them up
+      disposed = true;
+      pending = [];
+      notify();
+    },
+  };
+};
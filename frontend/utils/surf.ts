@@ -1,6 +1,8 @@
 import { createSurfClient, DefaultABITable, ExtractStructType } from "@thalalabs/surf";
-import { Aptos, AccountAddress } from "@aptos-labs/ts-sdk";
+import { Aptos, AccountAddress, Hex } from "@aptos-labs/ts-sdk";
 import { PICTIONARY_ABI } from "./abis";
+import { WordDifficulty } from "./wordPacks";
+import { ScoringMode } from "./scoring";
 
 type ABITable = DefaultABITable & {
   "0xb30fbc1c6be05c14a607a2ba45fe91ab70feb34ad8d1c65a72a918384bb545cd::pictionary": typeof PICTIONARY_ABI;
@@ -16,8 +18,9 @@ export type RawGameState = ExtractStructType<ABITable, typeof PICTIONARY_ABI, "G
 export type RawRoundState = ExtractStructType<ABITable, typeof PICTIONARY_ABI, "Round">;
 export type RawCanvasState = ExtractStructType<ABITable, typeof PICTIONARY_ABI, "Canvas">;
 export type RawCanvasDelta = ExtractStructType<ABITable, typeof PICTIONARY_ABI, "CanvasDelta">;
-export type RawColor = ExtractStructType<ABITable, typeof PICTIONARY_ABI, "Color">;
 export type RawRoundSummary = ExtractStructType<ABITable, typeof PICTIONARY_ABI, "RoundSummary">;
+export type RawGameSummary = ExtractStructType<ABITable, typeof PICTIONARY_ABI, "GameSummary">;
+export type RawWordCandidate = ExtractStructType<ABITable, typeof PICTIONARY_ABI, "WordCandidate">;
 
 // Extract event types from the ABI
 export type GameCreatedEvent = ExtractStructType<ABITable, typeof PICTIONARY_ABI, "GameCreated">;
@@ -26,18 +29,21 @@ export type RoundStartedEvent = ExtractStructType<ABITable, typeof PICTIONARY_AB
 export type RoundFinishedEvent = ExtractStructType<ABITable, typeof PICTIONARY_ABI, "RoundFinished">;
 export type CanvasUpdatedEvent = ExtractStructType<ABITable, typeof PICTIONARY_ABI, "CanvasUpdated">;
 export type GuessSubmittedEvent = ExtractStructType<ABITable, typeof PICTIONARY_ABI, "GuessSubmitted">;
+export type PlayerJoinedEvent = ExtractStructType<ABITable, typeof PICTIONARY_ABI, "PlayerJoined">;
+export type WordChosenEvent = ExtractStructType<ABITable, typeof PICTIONARY_ABI, "WordChosen">;
 
 // UI-friendly types (using AccountAddress and proper field names)
+export interface TeamState {
+  name: string;
+  players: AccountAddress[];
+  currentArtist: number; // Index into players
+}
+
 export interface GameState {
   creator: AccountAddress;
-  team0Players: AccountAddress[];
-  team1Players: AccountAddress[];
-  team0Name: string;
-  team1Name: string;
-  currentTeam0Artist: number;
-  currentTeam1Artist: number;
-  team0Score: number; // Now derived from completed rounds
-  team1Score: number; // Now derived from completed rounds
+  teams: TeamState[]; // In team order, see utils/teams.ts
+  scores: number[]; // Now derived from completed rounds, in team order or player order in free-for-all games
+  freeForAll: boolean; // Everyone plays for themselves on a single team, taking turns drawing
   targetScore: number;
   currentRound: number; // Now derived from rounds vector length
   started: boolean;
@@ -46,28 +52,46 @@ export interface GameState {
   canvasWidth: number;
   canvasHeight: number;
   roundDuration: number;
+  palette: number[]; // Custom palette as 0xRRGGBB colors, empty for the default palette
+  openEnrollment: boolean; // Players join teams themselves, e.g. from an invite link
+  teamsLocked: boolean; // Creator locked the teams of a game with open enrollment
+  closeGuessDistance: number; // Wrong guesses within this edit distance are flagged as close, 0 if disabled
+  wordChoice: boolean; // Artists choose each round's word from a few candidates
+  scoringMode: ScoringMode; // Time bonus games also reward guessing fast
+}
+
+// Lobby listing of a game, the parts of its state that fit in a list of games
+export interface GameSummary extends Pick<
+  GameState,
+  "creator" | "scores" | "freeForAll" | "targetScore" | "currentRound" | "started" | "finished" | "winner"
+> {
+  gameAddress: AccountAddress;
+  teams: Pick<TeamState, "name" | "players">[]; // In team order
 }
 
 export interface RoundState {
   roundNumber: number;
-  word: string;
-  startTime: number;
+  word: string; // Revealed once the round is over and scored, empty until then
+  wordChosen: boolean; // False while the artist still has to choose the word, nobody can draw or guess until then
+  difficulty: WordDifficulty; // Scales the points for guessing the word
+  startTime: number; // Restarts when the artist chooses the word
   durationSeconds: number;
-  team0Guessed: boolean;
-  team1Guessed: boolean;
+  guessTimes: (number | null)[]; // When each team (or player in free-for-all games) guessed the word, null until they do
   finished: boolean;
-  team0GuessTime: number | null;
-  team1GuessTime: number | null;
+  processed: boolean; // The round's points have been added to the game's scores on chain
+  artist: number | null; // Player drawing in free-for-all games, null in team games
 }
 
 export interface CanvasDelta {
   position: number;
-  color: number;
+  color: number; // Index into the game's palette, see utils/palette.ts
+  brushSize: number;
 }
 
-// Simple canvas interface for UI rendering (position -> color mapping)
+// Canvas delta log for UI rendering (sequence -> delta mapping)
+// The deltas are framed stroke words, see utils/strokes.ts
 export interface Canvas {
-  [position: number]: number;
+  [sequence: number]: CanvasDelta;
 }
 
 // OrderedMap structure as it appears in serialized form
@@ -91,40 +115,33 @@ export const parseOrderedMap = <K, V>(serializedMap: SerializedOrderedMap<K, V>)
   return map;
 };
 
-// Color variant mapping from Move enum to numeric values
-const COLOR_VARIANT_MAP: { [key: string]: number } = {
-  Black: 0,
-  White: 1,
-  Red: 2,
-  Green: 3,
-  Blue: 4,
-  Yellow: 5,
-  Orange: 6,
-  Purple: 7,
-  Pink: 8,
-  Brown: 9,
-  Gray: 10,
-};
+// Helper function to read an Option<u64> from the contract, serialized as { vec: [] } or { vec: [value] }
+export const parseOptionalNumber = (option: { vec: unknown[] } | null | undefined): number | null =>
+  option?.vec?.length ? Number(option.vec[0]) : null;
 
-// Helper function to convert color variant object to numeric value
-const convertColorVariant = (colorVariant: unknown): number => {
-  if (typeof colorVariant === "number") {
-    return colorVariant;
-  }
-  if (colorVariant && typeof colorVariant === "object" && colorVariant !== null && "__variant__" in colorVariant) {
-    const variantName = (colorVariant as { __variant__: string }).__variant__;
-    return COLOR_VARIANT_MAP[variantName] ?? 0; // Default to Black if unknown
-  }
-  return 0; // Default to Black
+// Helper function to read a vector<u8> from the contract, views serialize it as a hex string like "0x0102"
+export const parseBytes = (bytes: string | Uint8Array | number[]): Uint8Array =>
+  Array.isArray(bytes) ? Uint8Array.from(bytes, Number) : Hex.fromHexInput(bytes).toUint8Array();
+
+// Helper function to convert a serialized CanvasDelta struct (from a view or an event) for UI rendering
+export const parseCanvasDelta = (rawDelta: unknown): CanvasDelta => {
+  const delta = rawDelta as { position: number | string; color: number | string; brush_size: number | string };
+  return {
+    position: Number(delta.position),
+    color: Number(delta.color),
+    brushSize: Number(delta.brush_size),
+  };
 };
 
 // Helper function to convert OrderedMap to Canvas format for UI rendering
 export const orderedMapToCanvas = (serializedMap: unknown): Canvas => {
   const canvas: Canvas = {};
   if (serializedMap && typeof serializedMap === "object" && serializedMap !== null && "entries" in serializedMap) {
-    const mapWithEntries = serializedMap as { entries: Array<{ key: number; value: unknown }> };
+    const mapWithEntries = serializedMap as {
+      entries: Array<{ key: number | string; value: unknown }>;
+    };
     mapWithEntries.entries.forEach(({ key, value }) => {
-      canvas[key] = convertColorVariant(value);
+      canvas[Number(key)] = parseCanvasDelta(value);
     });
   }
   return canvas;
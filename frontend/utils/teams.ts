@@ -0,0 +1,35 @@
+/**
+ * Teams
+ *
+ * A game has two to six teams, each with its own canvas and artist rotation. Teams are numbered in the order the
+ * creator listed them, which is also the order of every per-team value the contract returns.
+ * Free-for-all games have a single team of all players instead, and keep scores and guess times per player.
+ */
+
+// Must match MIN_TEAMS and MAX_TEAMS in the contract
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 6;
+// Must match MIN_FREE_FOR_ALL_PLAYERS in the contract
+export const MIN_FREE_FOR_ALL_PLAYERS = 2;
+// Fewest players a team needs to start and most a team can have in games players join themselves
+// Must match MIN_TEAM_SIZE and MAX_TEAM_SIZE in the contract
+export const MIN_TEAM_SIZE = 2;
+export const MAX_TEAM_SIZE = 16;
+
+// Colors of the teams in team order, one per team up to MAX_TEAMS
+// Each has a text-*, bg-* and border-* class in index.css
+export const TEAM_COLORS = [
+  "studio-blue",
+  "studio-pink",
+  "studio-green",
+  "studio-orange",
+  "studio-purple",
+  "studio-yellow",
+] as const;
+
+export type TeamColor = (typeof TEAM_COLORS)[number];
+
+export const teamColor = (team: number): TeamColor => TEAM_COLORS[team % TEAM_COLORS.length];
+
+// Name the contract gives a team created without one
+export const defaultTeamName = (team: number): string => `Team ${team + 1}`;
@@ -0,0 +1,24 @@
+import { sha3_256 } from "@noble/hashes/sha3.js";
+import { bytesToHex, concatBytes, utf8ToBytes } from "@noble/hashes/utils.js";
+
+/**
+ * Salted word hashes
+ *
+ * The contract draws each round's word with on-chain randomness but only keeps the SHA3-256 hash of the word followed
+ * by a random salt until the round is over, so the word doesn't show up in views or events while guessers play. The
+ * salt is public, the artist's client finds the word by hashing every word of the game's word pool with it.
+ * Must match salted_word_hash in the contract.
+ */
+
+/**
+ * Hash of the word's UTF-8 bytes followed by the salt
+ */
+export const wordHash = (word: string, salt: Uint8Array): Uint8Array => sha3_256(concatBytes(utf8ToBytes(word), salt));
+
+/**
+ * Word of the pool with the given salted hash, null if none of them has it
+ */
+export const findHashedWord = <T extends { word: string }>(pool: T[], hash: Uint8Array, salt: Uint8Array): T | null => {
+  const hashHex = bytesToHex(hash);
+  return pool.find(({ word }) => bytesToHex(wordHash(word, salt)) === hashHex) ?? null;
+};
@@ -0,0 +1,156 @@
+import { normalizeGuess } from "@/utils/guess";
+
+/**
+ * Word packs
+ *
+ * Games draw their words from the global word list on chain unless the creator picks a word pack or pastes their own
+ * words, which are stored with the game. Words are stored in normalized form, since that's how guesses are submitted.
+ * Each word is tagged easy, medium or hard, harder words are worth more points (see roundPoints in utils/scoring.ts).
+ */
+
+// Must match MIN_WORD_LIST_SIZE, MAX_WORD_LIST_SIZE and MAX_WORD_LENGTH in the contract
+export const MIN_WORD_LIST_SIZE = 5;
+export const MAX_WORD_LIST_SIZE = 200;
+// In bytes, words are stored as UTF-8
+export const MAX_WORD_LENGTH = 32;
+
+// Difficulties in the order of the values the contract stores, a word's difficulty scales the points for guessing it
+// Must match DIFFICULTY_EASY, DIFFICULTY_MEDIUM and DIFFICULTY_HARD in the contract
+export const WORD_DIFFICULTIES = ["easy", "medium", "hard"] as const;
+
+export type WordDifficulty = (typeof WORD_DIFFICULTIES)[number];
+
+export const DIFFICULTY_EMOJIS: Record<WordDifficulty, string> = {
+  easy: "🟢",
+  medium: "🟡",
+  hard: "🔴",
+};
+
+export const DIFFICULTY_LABELS: Record<WordDifficulty, string> = {
+  easy: `${DIFFICULTY_EMOJIS.easy} Easy`,
+  medium: `${DIFFICULTY_EMOJIS.medium} Medium`,
+  hard: `${DIFFICULTY_EMOJIS.hard} Hard`,
+};
+
+export interface TaggedWord {
+  word: string;
+  difficulty: WordDifficulty;
+}
+
+// Difficulty stored on chain, out of range values are treated as easy
+export const toWordDifficulty = (value: number | string): WordDifficulty => WORD_DIFFICULTIES[Number(value)] ?? "easy";
+
+export const difficultyValue = (difficulty: WordDifficulty): number => WORD_DIFFICULTIES.indexOf(difficulty);
+
+const tagWords = (difficulty: WordDifficulty, words: string[]): TaggedWord[] =>
+  words.map((word) => ({ word, difficulty }));
+
+export interface WordPack {
+  id: string;
+  name: string;
+  emoji: string;
+  // Empty for the global word list
+  words: TaggedWord[];
+}
+
+export const WORD_PACKS: WordPack[] = [
+  { id: "classic", name: "Classic", emoji: "🎨", words: [] },
+  {
+    id: "animals",
+    name: "Animals",
+    emoji: "🦒",
+    words: [
+      ...tagWords("easy", ["cat", "dog", "owl", "snail", "shark", "zebra", "turtle", "spider", "camel"]),
+      ...tagWords("medium", ["giraffe", "elephant", "penguin", "octopus", "kangaroo", "butterfly", "crocodile"]),
+      ...tagWords("hard", ["flamingo", "hedgehog", "jellyfish", "peacock"]),
+    ],
+  },
+  {
+    id: "movies",
+    name: "Movies",
+    emoji: "🎬",
+    words: [
+      ...tagWords("easy", ["jaws", "titanic", "frozen", "cars", "up", "shrek", "avatar"]),
+      ...tagWords("medium", [
+        "star wars",
+        "toy story",
+        "finding nemo",
+        "king kong",
+        "home alone",
+        "the matrix",
+        "ghostbusters",
+      ]),
+      ...tagWords("hard", [
+        "jurassic park",
+        "the lion king",
+        "back to the future",
+        "ratatouille",
+        "gremlins",
+        "the wizard of oz",
+      ]),
+    ],
+  },
+  {
+    id: "office",
+    name: "Office",
+    emoji: "💼",
+    words: [
+      ...tagWords("easy", ["stapler", "deadline", "whiteboard", "lanyard", "paper clip", "sticky note", "desk plant"]),
+      ...tagWords("medium", [
+        "coffee machine",
+        "printer jam",
+        "spreadsheet",
+        "video call",
+        "swivel chair",
+        "team lunch",
+        "water cooler",
+      ]),
+      ...tagWords("hard", ["reply all", "standup", "out of office", "org chart", "budget meeting", "casual friday"]),
+    ],
+  },
+];
+
+/**
+ * Parse pasted words, one per line or separated by commas, into normalized words
+ * Words can be tagged with their difficulty after a colon, e.g. "giraffe: hard", untagged words are easy
+ */
+export const parseWordList = (text: string): TaggedWord[] =>
+  text.split(/[\n,]/).flatMap((entry) => {
+    const separator = entry.lastIndexOf(":");
+    const tag = separator === -1 ? "" : normalizeGuess(entry.slice(separator + 1));
+    const difficulty = WORD_DIFFICULTIES.find((value) => value === tag);
+    // Without a known difficulty after it, the colon is part of the word and dropped like other punctuation
+    const word = normalizeGuess(difficulty ? entry.slice(0, separator) : entry);
+    return word ? [{ word, difficulty: difficulty ?? "easy" }] : [];
+  });
+
+/**
+ * Check a custom word list, returns a message describing the first problem or null if the list can be used
+ * An empty list is fine, the game then uses the global word list
+ */
+export const validateWordList = (taggedWords: TaggedWord[]): string | null => {
+  const words = taggedWords.map(({ word }) => word);
+  if (words.length === 0) return null;
+
+  if (words.length < MIN_WORD_LIST_SIZE) {
+    return `Add at least ${MIN_WORD_LIST_SIZE} words (${words.length} so far)`;
+  }
+  if (words.length > MAX_WORD_LIST_SIZE) {
+    return `A word list can have at most ${MAX_WORD_LIST_SIZE} words (${words.length} given)`;
+  }
+
+  const encoder = new TextEncoder();
+  const tooLong = words.filter((word) => encoder.encode(word).length > MAX_WORD_LENGTH);
+  if (tooLong.length > 0) {
+    return `Words can be at most ${MAX_WORD_LENGTH} characters: ${tooLong.join(", ")}`;
+  }
+
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  words.forEach((word) => (seen.has(word) ? duplicates.add(word) : seen.add(word)));
+  if (duplicates.size > 0) {
+    return `Each word can only be listed once: ${[...duplicates].join(", ")}`;
+  }
+
+  return null;
+};
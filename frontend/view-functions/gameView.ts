@@ -5,16 +5,28 @@ import {
   RoundState,
   Canvas,
   orderedMapToCanvas,
+  parseOptionalNumber,
+  GameSummary,
+  RawGameSummary,
   RawRoundSummary,
+  RawWordCandidate,
+  parseBytes,
 } from "@/utils/surf";
+import { RoundOutcome, SCORING_RULES, scoreRounds, toScoringMode } from "@/utils/scoring";
+import { everyoneGuessed } from "@/utils/gameLogic";
+import { TaggedWord, WordDifficulty, toWordDifficulty } from "@/utils/wordPacks";
+import { findHashedWord } from "@/utils/wordHash";
 
 export interface RoundResult {
   roundNumber: number;
   word: string;
-  team0Points: number;
-  team1Points: number;
-  team0TotalScore: number;
-  team1TotalScore: number;
+  difficulty: WordDifficulty;
+  startTime: number;
+  durationSeconds: number;
+  // Points each team earned in the round and its score after it, in team order or player order in free-for-all games
+  // Null while the round is pending, i.e. over but not processed by a transaction yet
+  points: number[] | null;
+  totalScores: number[] | null;
 }
 
 /**
@@ -24,64 +36,60 @@ export const getGame = async (aptos: Aptos, gameAddress: AccountAddress): Promis
   try {
     const client = createPictionarySurfClient(aptos);
 
+    // Both views only read the game resource, so they are fetched side by side
     const [
-      creator,
-      team0Players,
-      team1Players,
-      team0Name,
-      team1Name,
-      currentTeam0Artist,
-      currentTeam1Artist,
-      team0Score,
-      team1Score,
-      targetScore,
-      currentRound,
-      started,
-      finished,
-      winner,
-      canvasWidth,
-      canvasHeight,
-      roundDuration,
-    ] = await client.view.get_game({
-      functionArguments: [gameAddress.toString()],
-      typeArguments: [],
-    });
-
-    console.log("Raw game data from contract:", {
-      team0Score,
-      team1Score,
-      currentRound,
-      started,
-      finished,
-      gameAddress: gameAddress.toString(),
-    });
+      [
+        creator,
+        teamPlayers,
+        teamNames,
+        currentArtists,
+        scores,
+        targetScore,
+        currentRound,
+        started,
+        finished,
+        winner,
+        canvasWidth,
+        canvasHeight,
+        roundDuration,
+      ],
+      [palette, openEnrollment, teamsLocked, closeGuessDistance, wordChoice, scoringMode, freeForAll],
+    ] = await Promise.all([
+      client.view.get_game({
+        functionArguments: [gameAddress.toString()],
+        typeArguments: [],
+      }),
+      client.view.get_game_settings({
+        functionArguments: [gameAddress.toString()],
+        typeArguments: [],
+      }),
+    ]);
 
     const gameState = {
       creator: AccountAddress.from(creator as string),
-      team0Players: (team0Players as string[]).map((addr) => AccountAddress.from(addr)),
-      team1Players: (team1Players as string[]).map((addr) => AccountAddress.from(addr)),
-      team0Name: team0Name as string,
-      team1Name: team1Name as string,
-      currentTeam0Artist: Number(currentTeam0Artist),
-      currentTeam1Artist: Number(currentTeam1Artist),
-      team0Score: Number(team0Score),
-      team1Score: Number(team1Score),
+      teams: (teamNames as string[]).map((name, team) => ({
+        name,
+        players: (teamPlayers as string[][])[team].map((addr) => AccountAddress.from(addr)),
+        currentArtist: Number((currentArtists as (number | string)[])[team]),
+      })),
+      scores: (scores as (number | string)[]).map(Number),
+      freeForAll: freeForAll as boolean,
       targetScore: Number(targetScore),
       currentRound: Number(currentRound),
       started: started as boolean,
       finished: finished as boolean,
-      winner: winner ? Number(winner) : null,
+      winner: parseOptionalNumber(winner),
       canvasWidth: Number(canvasWidth),
       canvasHeight: Number(canvasHeight),
       roundDuration: Number(roundDuration),
+      palette: (palette as number[]).map(Number),
+      openEnrollment: openEnrollment as boolean,
+      teamsLocked: teamsLocked as boolean,
+      closeGuessDistance: Number(closeGuessDistance),
+      wordChoice: wordChoice as boolean,
+      scoringMode: toScoringMode(scoringMode),
     };
 
-    console.log("Processed game state:", {
-      team0Score: gameState.team0Score,
-      team1Score: gameState.team1Score,
-      currentRound: gameState.currentRound,
-    });
-
     return gameState;
   } catch (error) {
     console.error("Failed to get game state:", error);
@@ -89,6 +97,36 @@ export const getGame = async (aptos: Aptos, gameAddress: AccountAddress): Promis
   }
 };
 
+/**
+ * Get lobby listings of several games with a single view call, addresses without a game are left out
+ */
+export const getGameSummaries = async (aptos: Aptos, gameAddresses: AccountAddress[]): Promise<GameSummary[]> => {
+  if (gameAddresses.length === 0) return [];
+
+  const client = createPictionarySurfClient(aptos);
+
+  const [summaries] = await client.view.get_game_summaries({
+    functionArguments: [gameAddresses.map((address) => address.toString())],
+    typeArguments: [],
+  });
+
+  return (summaries as RawGameSummary[]).map((summary) => ({
+    gameAddress: AccountAddress.from(summary.game_address),
+    creator: AccountAddress.from(summary.creator),
+    teams: summary.team_names.map((name, team) => ({
+      name,
+      players: summary.team_players[team].map((address) => AccountAddress.from(address)),
+    })),
+    scores: summary.scores.map(Number),
+    freeForAll: summary.free_for_all,
+    targetScore: Number(summary.target_score),
+    currentRound: Number(summary.current_round),
+    started: summary.started,
+    finished: summary.finished,
+    winner: parseOptionalNumber(summary.winner),
+  }));
+};
+
 /**
  * Get current round state from the blockchain using Surf receiver-style API
  */
@@ -97,30 +135,35 @@ export const getCurrentRound = async (aptos: Aptos, gameAddress: AccountAddress)
     const client = createPictionarySurfClient(aptos);
 
     const [
-      roundNumber,
-      word,
-      startTime,
-      durationSeconds,
-      team0Guessed,
-      team1Guessed,
-      finished,
-      team0GuessTime,
-      team1GuessTime,
-    ] = await client.view.get_current_round({
-      functionArguments: [gameAddress.toString()],
-      typeArguments: [],
-    });
+      [roundNumber, word, startTime, durationSeconds, guessTimes, finished, artist],
+      [wordChosen, difficulty],
+      [processed],
+    ] = await Promise.all([
+      client.view.get_current_round({
+        functionArguments: [gameAddress.toString()],
+        typeArguments: [],
+      }),
+      client.view.get_current_word_status({
+        functionArguments: [gameAddress.toString()],
+        typeArguments: [],
+      }),
+      client.view.get_current_round_processed({
+        functionArguments: [gameAddress.toString()],
+        typeArguments: [],
+      }),
+    ]);
 
     return {
       roundNumber: Number(roundNumber),
       word: word as string,
+      wordChosen: wordChosen as boolean,
+      difficulty: toWordDifficulty(difficulty),
       startTime: Number(startTime),
       durationSeconds: Number(durationSeconds),
-      team0Guessed: team0Guessed as boolean,
-      team1Guessed: team1Guessed as boolean,
+      guessTimes: guessTimes.map(parseOptionalNumber),
       finished: finished as boolean,
-      team0GuessTime: team0GuessTime ? Number(team0GuessTime) : null,
-      team1GuessTime: team1GuessTime ? Number(team1GuessTime) : null,
+      processed: processed as boolean,
+      artist: parseOptionalNumber(artist),
     };
   } catch (error) {
     console.error("Failed to get round state:", error);
@@ -138,12 +181,6 @@ export const getCanvas = async (
   team: number,
 ): Promise<Canvas> => {
   try {
-    console.log("getCanvas called with:", {
-      gameAddress: gameAddress.toString(),
-      roundNumber,
-      team,
-    });
-
     const client = createPictionarySurfClient(aptos);
 
     // https://github.com/ThalaLabs/surf/issues/260
@@ -152,14 +189,11 @@ export const getCanvas = async (
       typeArguments: [],
     });
 
-    console.log("Canvas query successful, result:", orderedMapResult);
-
-    // The result is an OrderedMap<u16, Color> serialized as { entries: Array<{ key: u16, value: Color }> }
+    // The result is an OrderedMap<u32, CanvasDelta> serialized as { entries: Array<{ key: u32, value: CanvasDelta }> }
     // Surf returns the result as an array, so we need the first element
-    const canvasData = (orderedMapResult as unknown[])[0] as { entries: Array<{ key: number; value: number }> };
+    const canvasData = (orderedMapResult as unknown[])[0];
     const canvas = orderedMapToCanvas(canvasData);
 
-    console.log("Processed canvas data:", canvas);
     return canvas;
   } catch (error) {
     console.error("Failed to get canvas data:", {
@@ -172,8 +206,29 @@ export const getCanvas = async (
   }
 };
 
+/**
+ * Get the number of deltas in a team's canvas log, which is the sequence the team's next update has to start at
+ */
+export const getCanvasLength = async (
+  aptos: Aptos,
+  gameAddress: AccountAddress,
+  roundNumber: number,
+  team: number,
+): Promise<number> => {
+  const client = createPictionarySurfClient(aptos);
+
+  const [length] = await client.view.get_canvas_length({
+    functionArguments: [gameAddress.toString(), roundNumber, team],
+    typeArguments: [],
+  });
+
+  return Number(length);
+};
+
 /**
  * Get round history from the blockchain using the get_round_history view function
+ * Rounds that are over but haven't been processed by a transaction yet are pending, their points and word are only
+ * known once the contract scores them
  */
 export const getRoundHistory = async (
   aptos: Aptos,
@@ -183,157 +238,161 @@ export const getRoundHistory = async (
   try {
     const client = createPictionarySurfClient(aptos);
 
-    const [rounds] = await client.view.get_round_history({
-      functionArguments: [gameAddress.toString()],
-      typeArguments: [],
-    });
-
-    console.log("Raw rounds data from contract:", rounds);
+    // Points are computed the same way as on chain, which depends on the game's scoring mode
+    const [[rounds], [rawScoringMode], [currentRoundProcessed]] = await Promise.all([
+      client.view.get_round_history({
+        functionArguments: [gameAddress.toString()],
+        typeArguments: [],
+      }),
+      client.view.get_scoring_mode({
+        functionArguments: [gameAddress.toString()],
+        typeArguments: [],
+      }),
+      client.view.get_current_round_processed({
+        functionArguments: [gameAddress.toString()],
+        typeArguments: [],
+      }),
+    ]);
+    const rules = SCORING_RULES[toScoringMode(rawScoringMode)];
 
     // Handle the rounds array - it might be nested
     const roundsArray = Array.isArray(rounds) ? rounds : (rounds as unknown as [RawRoundSummary[]])[0];
-    console.log("Processed rounds array:", roundsArray);
-    console.log("Number of rounds returned:", roundsArray?.length || 0);
-
-    const roundResults: RoundResult[] = [];
-    let team0TotalScore = 0;
-    let team1TotalScore = 0;
-
     if (!roundsArray || roundsArray.length === 0) {
-      console.log("No rounds data available");
       return [];
     }
 
-    for (const roundSummary of roundsArray) {
-      console.log("Processing round summary:", roundSummary);
-
-      // Cast to RawRoundSummary for proper typing
-      const round = roundSummary as RawRoundSummary;
+    const finishedRounds: { round: RawRoundSummary; roundNum: number; outcome: RoundOutcome; processed: boolean }[] =
+      [];
 
+    for (const round of roundsArray as RawRoundSummary[]) {
       // Parse round number
       const roundNum =
         typeof round.round_number === "string" ? parseInt(round.round_number, 10) : Number(round.round_number) || 0;
+      // Every round but the last one was processed before the next one started
+      const isLastRound = roundNum === roundsArray.length - 1;
 
-      // Derive finished status from multiple indicators
-      let isFinished = false;
+      const guessTimes = round.guess_times.map(parseOptionalNumber);
+      const artist = parseOptionalNumber(round.artist);
 
-      if (round.team0_guessed && round.team1_guessed) {
-        // Round is finished if both teams have guessed
+      // A round is over once every team (or every player but the artist) guessed, once a later round started or
+      // once its time ran out
+      let isFinished = everyoneGuessed(guessTimes, artist);
+      if (!isFinished && currentRound !== undefined && roundNum < currentRound - 1) {
         isFinished = true;
-      } else if (currentRound !== undefined && roundNum < currentRound - 1) {
-        // Round is finished if it's before the current round (accounting for 0-based vs 1-based)
-        isFinished = true;
-      } else if (round.start_time && round.duration_seconds) {
-        // Check if enough time has passed for this round to be finished based on its own timing
-        const currentTime = Date.now() / 1000; // Convert to seconds
-        const roundEndTime = Number(round.start_time) + Number(round.duration_seconds);
-        isFinished = currentTime > roundEndTime;
+      } else if (!isFinished && round.start_time && round.duration_seconds) {
+        isFinished = Date.now() / 1000 > Number(round.start_time) + Number(round.duration_seconds);
       }
 
-      console.log("Round finished status:", {
-        derivedFinished: isFinished,
-        roundNumber: roundNum,
-        currentRound,
-        bothGuessed: round.team0_guessed && round.team1_guessed,
-        timeExpired:
-          round.start_time && round.duration_seconds
-            ? Date.now() / 1000 > Number(round.start_time) + Number(round.duration_seconds)
-            : false,
-        comparison: currentRound ? `${roundNum} < ${currentRound - 1}` : "no current round",
-      });
-
       // Only include finished/completed rounds in history
       if (!isFinished) {
-        console.log("Skipping unfinished round:", roundNum);
         continue;
       }
 
-      // Calculate points for this round based on guess times
-      let team0Points = 0;
-      let team1Points = 0;
-
-      if (round.team0_guessed && round.team1_guessed) {
-        // Both teams guessed - first gets 2 points, second gets 1
-        const team0Time = round.team0_guess_time ? Number(round.team0_guess_time) : null;
-        const team1Time = round.team1_guess_time ? Number(round.team1_guess_time) : null;
-
-        if (team0Time && team1Time) {
-          if (team0Time <= team1Time) {
-            team0Points = 2;
-            team1Points = 1;
-          } else {
-            team0Points = 1;
-            team1Points = 2;
-          }
-        }
-      } else if (round.team0_guessed) {
-        team0Points = 2;
-      } else if (round.team1_guessed) {
-        team1Points = 2;
-      }
-
-      team0TotalScore += team0Points;
-      team1TotalScore += team1Points;
+      finishedRounds.push({
+        round,
+        roundNum,
+        outcome: {
+          guessTimes,
+          difficulty: toWordDifficulty(round.difficulty),
+          artist,
+          startTime: Number(round.start_time),
+          durationSeconds: Number(round.duration_seconds),
+        },
+        processed: !isLastRound || currentRoundProcessed,
+      });
+    }
 
-      // Convert 0-based round number to 1-based for display
-      const roundNumber = roundNum + 1;
+    // Score the processed rounds in order with the game's scoring rules, like the contract did
+    // Only the last round can be pending, so the processed rounds come first
+    const scoredRounds = scoreRounds(
+      finishedRounds.filter(({ processed }) => processed).map(({ outcome }) => outcome),
+      rules,
+    );
+    return finishedRounds.map(({ round, roundNum, outcome, processed }, index): RoundResult => {
+      const scored = processed ? scoredRounds[index] : null;
 
       // Handle word display - show placeholder for empty words
       const rawWord = (round.word as string) || "";
-      const word = rawWord.trim() !== "" ? rawWord : "***";
-      console.log("Adding round to history:", {
-        roundNumber,
-        rawWord,
-        displayWord: word,
-        finished: isFinished,
-        startTime: round.start_time,
-        duration: round.duration_seconds,
-        team0Points,
-        team1Points,
-        team0TotalScore,
-        team1TotalScore,
-        team0Guessed: round.team0_guessed,
-        team1Guessed: round.team1_guessed,
-        team0GuessTime: round.team0_guess_time,
-        team1GuessTime: round.team1_guess_time,
-      });
-
-      roundResults.push({
-        roundNumber,
-        word,
-        team0Points,
-        team1Points,
-        team0TotalScore,
-        team1TotalScore,
-      });
-    }
 
-    return roundResults;
+      return {
+        // Convert 0-based round number to 1-based for display
+        roundNumber: roundNum + 1,
+        word: rawWord.trim() !== "" ? rawWord : "***",
+        difficulty: outcome.difficulty,
+        startTime: outcome.startTime,
+        durationSeconds: outcome.durationSeconds,
+        points: scored?.points ?? null,
+        totalScores: scored?.totals ?? null,
+      };
+    });
   } catch (error) {
     console.error("Failed to get round history:", error);
     return [];
   }
 };
 
+// Current round's salted word hash and salt, with the game's word pool its word was drawn from
+const getCurrentWordPool = async (aptos: Aptos, gameAddress: AccountAddress) => {
+  const client = createPictionarySurfClient(aptos);
+  const functionArguments = [gameAddress.toString()] as [`0x${string}`];
+
+  const [[wordHash, salt], [words, difficulties]] = await Promise.all([
+    client.view.get_current_word_commitment({ functionArguments, typeArguments: [] }),
+    client.view.get_words({ functionArguments, typeArguments: [] }),
+  ]);
+
+  const wordDifficulties = parseBytes(difficulties);
+  const pool: TaggedWord[] = words.map((word, index) => ({
+    word,
+    difficulty: toWordDifficulty(wordDifficulties[index] ?? 0),
+  }));
+  return { wordHash: parseBytes(wordHash), salt: parseBytes(salt), pool };
+};
+
+/**
+ * Get the current word for an artist (returns empty string if the round's word isn't chosen yet)
+ * The contract only keeps the word's salted hash during the round, so this hashes the game's words to find it.
+ * Guessers shouldn't call this, the salt is public and they'd find the word the same way
+ */
+export const getCurrentWordForArtist = async (aptos: Aptos, gameAddress: AccountAddress): Promise<string> => {
+  try {
+    const { wordHash, salt, pool } = await getCurrentWordPool(aptos, gameAddress);
+    if (wordHash.length === 0) return "";
+
+    return findHashedWord(pool, wordHash, salt)?.word ?? "";
+  } catch (error) {
+    console.error("Failed to get current word for artist:", error);
+    return "";
+  }
+};
+
 /**
- * Get the current word for an artist (returns empty string if not artist or round not active)
+ * Get the words the player can choose the current round's word from
+ * Empty unless the player is the artist choosing the word and hasn't chosen yet, guessers shouldn't call this either
  */
-export const getCurrentWordForArtist = async (
+export const getWordCandidates = async (
   aptos: Aptos,
   gameAddress: AccountAddress,
   playerAddress: AccountAddress,
-): Promise<string> => {
+): Promise<TaggedWord[]> => {
   try {
     const client = createPictionarySurfClient(aptos);
 
-    const word = await client.view.get_current_word_for_artist({
-      functionArguments: [gameAddress.toString(), playerAddress.toString()],
-      typeArguments: [],
-    });
-
-    return word[0];
+    const [[candidates], { salt, pool }] = await Promise.all([
+      client.view.get_word_candidates({
+        functionArguments: [gameAddress.toString(), playerAddress.toString()],
+        typeArguments: [],
+      }),
+      getCurrentWordPool(aptos, gameAddress),
+    ]);
+
+    // Candidates are salted hashes like the round's word, in the order choose_word takes them
+    return (candidates as RawWordCandidate[]).map((candidate) => ({
+      word: findHashedWord(pool, parseBytes(candidate.word_hash), salt)?.word ?? "",
+      difficulty: toWordDifficulty(candidate.difficulty),
+    }));
   } catch (error) {
-    console.error("Failed to get current word for artist:", error);
-    return "";
+    console.error("Failed to get word candidates:", error);
+    return [];
   }
 };